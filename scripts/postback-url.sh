@@ -0,0 +1,30 @@
+#!/usr/bin/env bash
+
+set -e
+
+# Prints the conversion postback URL and signing key to hand to a network:
+#   scripts/postback-url.sh impact https://<your-app-domain>
+# Both are derived from POSTBACK_SECRET the same way src/routes/postbackRoutes.ts
+# checks them, and are different for every network. Replace the {placeholders}
+# with the macros the network uses for each value.
+
+NETWORK="$(printf '%s' "$1" | tr '[:upper:]' '[:lower:]')"
+BASE_URL="${2:-http://localhost:5000}"
+
+if [[ ! "${NETWORK}" =~ ^[a-z0-9_-]{2,32}$ ]]; then
+    echo "Usage: $0 <network> [public base url]" >&2
+    exit 1
+fi
+
+hmac() {
+    printf '%s' "$2" | openssl dgst -sha256 -hmac "$1" | sed 's/^.* //'
+}
+
+SECRET="${POSTBACK_SECRET:?POSTBACK_SECRET is not set}"
+TOKEN="$(hmac "${SECRET}" "postback:${NETWORK}" | cut -c1-32)"
+SIGNING_KEY="$(hmac "${SECRET}" "postback-signing:${NETWORK}")"
+
+echo "Postback URL:"
+echo "  ${BASE_URL%/}/postback/${NETWORK}?token=${TOKEN}&order_id={order}&tracking_id={subid}&amount={sale}&currency={currency}&commission={payout}&status={status}"
+echo "Signing key, for networks that send an HMAC-SHA256 of the body in X-Postback-Signature instead:"
+echo "  ${SIGNING_KEY}"
@@ -0,0 +1,45 @@
+#!/usr/bin/env bash
+
+set -e
+
+# Signs a payment webhook fixture with the local webhook secret and posts it,
+# the way Stripe or Razorpay would:
+#   RESOURCE_ID=usr_... scripts/send-payment-fixture.sh data/payment-fixtures/stripe-subscription-created.json
+# Sending the same fixture twice exercises the duplicate-event handling.
+
+FIXTURE="$1"
+BASE_URL="${2:-http://localhost:5000}"
+
+if [[ ! -f "${FIXTURE}" ]]; then
+    echo "Usage: $0 <fixture.json> [base url]" >&2
+    exit 1
+fi
+
+BODY="$(sed "s/__RESOURCE_ID__/${RESOURCE_ID:-bot}/g" "${FIXTURE}")"
+
+hmac() {
+    printf '%s' "$2" | openssl dgst -sha256 -hmac "$1" | sed 's/^.* //'
+}
+
+case "$(basename "${FIXTURE}")" in
+    stripe-*)
+        TIMESTAMP="$(date +%s)"
+        SIGNATURE="t=${TIMESTAMP},v1=$(hmac "${STRIPE_WEBHOOK_SECRET:?STRIPE_WEBHOOK_SECRET is not set}" "${TIMESTAMP}.${BODY}")"
+        exec curl -sS -X POST "${BASE_URL}/webhooks/payments/stripe" \
+            -H "Content-Type: application/json" \
+            -H "Stripe-Signature: ${SIGNATURE}" \
+            --data-binary "${BODY}"
+        ;;
+    razorpay-*)
+        SIGNATURE="$(hmac "${RAZORPAY_WEBHOOK_SECRET:?RAZORPAY_WEBHOOK_SECRET is not set}" "${BODY}")"
+        exec curl -sS -X POST "${BASE_URL}/webhooks/payments/razorpay" \
+            -H "Content-Type: application/json" \
+            -H "X-Razorpay-Signature: ${SIGNATURE}" \
+            -H "X-Razorpay-Event-Id: fixture_$(basename "${FIXTURE}" .json)" \
+            --data-binary "${BODY}"
+        ;;
+    *)
+        echo "Fixture names start with stripe- or razorpay-" >&2
+        exit 1
+        ;;
+esac
@@ -0,0 +1,23 @@
+#!/usr/bin/env bash
+
+set -e
+
+# Posts a recorded Telegram update to the local webhook with the secret token
+# Telegram would send:
+#   scripts/send-telegram-fixture.sh data/telegram-fixtures/text-message.json
+# Edited messages, photos, channel posts and membership changes should be
+# acknowledged with 200 and ignored. The callback query fixture presses a
+# button that was never stored, so the bot answers that it has expired.
+
+FIXTURE="$1"
+BASE_URL="${2:-http://localhost:5000}"
+
+if [[ ! -f "${FIXTURE}" ]]; then
+    echo "Usage: $0 <fixture.json> [base url]" >&2
+    exit 1
+fi
+
+exec curl -sS -w '\n%{http_code}\n' -X POST "${BASE_URL}/webhooks/telegram/action" \
+    -H "Content-Type: application/json" \
+    -H "X-Telegram-Bot-Api-Secret-Token: ${TELEGRAM_WEBHOOK_SECRET:?TELEGRAM_WEBHOOK_SECRET is not set}" \
+    --data-binary "@${FIXTURE}"
@@ -0,0 +1,24 @@
+#!/usr/bin/env bash
+
+set -e
+
+# Points the bot's webhook at this deployment and registers the secret token
+# Telegram sends back with every update:
+#   scripts/set-telegram-webhook.sh https://<your-app-domain>
+
+BASE_URL="$1"
+
+if [[ -z "${BASE_URL}" ]]; then
+    echo "Usage: $0 <public base url>" >&2
+    exit 1
+fi
+
+exec curl -sS -X POST "https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN:?TELEGRAM_BOT_TOKEN is not set}/setWebhook" \
+    -H "Content-Type: application/json" \
+    --data-binary @- <<JSON
+{
+  "url": "${BASE_URL%/}/webhooks/telegram/action",
+  "secret_token": "${TELEGRAM_WEBHOOK_SECRET:?TELEGRAM_WEBHOOK_SECRET is not set}",
+  "allowed_updates": ["message", "callback_query"]
+}
+JSON
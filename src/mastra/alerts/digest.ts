@@ -0,0 +1,158 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+
+import { sendTelegramMessage } from "../telegram/api";
+import { getClient as getSlackClient } from "../../triggers/slackTriggers";
+import {
+  type AlertSubscription,
+  findSentAlertKeys,
+  listActiveSubscriptions,
+  recordSentAlerts,
+} from "../storage/alertSubscriptions";
+import { checkBrokenLinks } from "./linkAlerts";
+import { checkProductWatches } from "./productAlerts";
+import { checkRoasFloors } from "./spendAlerts";
+import { type ComputedAlert, PRIORITY_LEVELS, meetsUrgency } from "./types";
+
+// Cron schedule for the digest; hourly by default so quiet hours and snoozes
+// take effect within the hour.
+export const ALERT_DIGEST_CRON = process.env.ALERT_DIGEST_CRON ?? "0 * * * *";
+
+export interface DigestRunSummary {
+  subscriptions: number;
+  delivered: number;
+  skipped: { snoozed: number; quietHours: number; nothingNew: number };
+  failed: number;
+}
+
+// Alerts the digest knows how to compute for one user.
+export async function collectAlerts(
+  resourceId: string,
+): Promise<ComputedAlert[]> {
+  const [{ alerts }, linkAlerts, roasAlerts] = await Promise.all([
+    checkProductWatches(resourceId),
+    checkBrokenLinks(resourceId),
+    checkRoasFloors(resourceId),
+  ]);
+  return [...alerts, ...linkAlerts, ...roasAlerts];
+}
+
+function localHour(timezone: string, at: Date): number {
+  try {
+    const hour = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hour: "numeric",
+      hourCycle: "h23",
+    }).format(at);
+    return Number(hour);
+  } catch {
+    return at.getUTCHours();
+  }
+}
+
+export function isQuietTime(
+  subscription: AlertSubscription,
+  at: Date,
+): boolean {
+  const { quietStart, quietEnd } = subscription;
+  if (quietStart === null || quietEnd === null || quietStart === quietEnd) {
+    return false;
+  }
+  const hour = localHour(subscription.timezone, at);
+  return quietStart < quietEnd
+    ? hour >= quietStart && hour < quietEnd
+    : hour >= quietStart || hour < quietEnd;
+}
+
+export function formatDigest(alerts: ComputedAlert[]): string {
+  const sorted = [...alerts].sort(
+    (a, b) =>
+      PRIORITY_LEVELS.indexOf(b.priority) - PRIORITY_LEVELS.indexOf(a.priority),
+  );
+  const lines = sorted.map(
+    (alert) =>
+      `${alert.title} [${alert.priority}]\n${alert.message}\n➡️ ${alert.action_required}`,
+  );
+  const heading =
+    alerts.length === 1 ? "🔔 1 new alert" : `🔔 ${alerts.length} new alerts`;
+  return `${heading}\n\n${lines.join("\n\n")}`;
+}
+
+async function deliver(subscription: AlertSubscription, text: string) {
+  if (subscription.channel === "telegram") {
+    await sendTelegramMessage(subscription.destination, text);
+  } else {
+    const { slack } = await getSlackClient();
+    await slack.chat.postMessage({ channel: subscription.destination, text });
+  }
+}
+
+// Sends each active subscriber the alerts they have not received yet. An
+// alert is only marked as sent once delivery succeeded, so a failed or
+// skipped run is picked up by the next one.
+export async function runAlertDigest(
+  logger?: IMastraLogger,
+  now: Date = new Date(),
+): Promise<DigestRunSummary> {
+  const subscriptions = await listActiveSubscriptions();
+  const summary: DigestRunSummary = {
+    subscriptions: subscriptions.length,
+    delivered: 0,
+    skipped: { snoozed: 0, quietHours: 0, nothingNew: 0 },
+    failed: 0,
+  };
+  // Users with both a Telegram and a Slack subscription are evaluated once.
+  const alertsByUser = new Map<string, ComputedAlert[]>();
+
+  for (const subscription of subscriptions) {
+    if (subscription.snoozedUntil && subscription.snoozedUntil > now) {
+      summary.skipped.snoozed++;
+      continue;
+    }
+    if (isQuietTime(subscription, now)) {
+      summary.skipped.quietHours++;
+      continue;
+    }
+
+    try {
+      let alerts = alertsByUser.get(subscription.resourceId);
+      if (!alerts) {
+        alerts = await collectAlerts(subscription.resourceId);
+        alertsByUser.set(subscription.resourceId, alerts);
+      }
+      const relevant = alerts.filter((alert) =>
+        meetsUrgency(alert.priority, subscription.minUrgency),
+      );
+      const sent = await findSentAlertKeys(
+        subscription.id,
+        relevant.map((alert) => alert.alert_key),
+      );
+      const fresh = relevant.filter((alert) => !sent.has(alert.alert_key));
+      if (fresh.length === 0) {
+        summary.skipped.nothingNew++;
+        continue;
+      }
+
+      await deliver(subscription, formatDigest(fresh));
+      await recordSentAlerts(
+        subscription.id,
+        fresh.map((alert) => alert.alert_key),
+      );
+      summary.delivered++;
+      logger?.info("🔔 [AlertDigest] Digest delivered", {
+        subscriptionId: subscription.id,
+        channel: subscription.channel,
+        alerts: fresh.length,
+      });
+    } catch (error) {
+      summary.failed++;
+      logger?.error("❌ [AlertDigest] Digest failed", {
+        subscriptionId: subscription.id,
+        channel: subscription.channel,
+        error: String(error),
+      });
+    }
+  }
+
+  logger?.info("✅ [AlertDigest] Run completed", { ...summary });
+  return summary;
+}
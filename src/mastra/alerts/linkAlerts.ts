@@ -0,0 +1,44 @@
+import { listLinks } from "../storage/links";
+import type { AlertPriority, ComputedAlert } from "./types";
+
+// Broken links lose every click, a stripped tag loses the commission on
+// every sale; an unavailable product still earns on other purchases.
+function linkPriority(issue: string): AlertPriority {
+  if (/tag stripped/.test(issue)) return "critical";
+  if (
+    /out of stock/.test(issue) &&
+    !/http error|redirect|unreachable/.test(issue)
+  ) {
+    return "medium";
+  }
+  return "high";
+}
+
+export async function checkBrokenLinks(
+  resourceId: string,
+  filter: { platforms?: string[] } = {},
+): Promise<ComputedAlert[]> {
+  const links = await listLinks(resourceId, { status: "broken", limit: 200 });
+  return links
+    .filter(
+      (link) =>
+        !filter.platforms ||
+        filter.platforms.includes(link.platform.toLowerCase()),
+    )
+    .map((link) => {
+      const issue = link.healthIssue ?? "failed the last health check";
+      const since =
+        link.healthFailingSince ?? link.healthCheckedAt ?? link.updatedAt;
+      return {
+        alert_key: `broken_link:${link.id}:${since.toISOString()}`,
+        alert_type: "broken_link",
+        priority: linkPriority(issue),
+        title: `🔗 Broken link: ${link.productName}`,
+        message: `${link.shortLink} (${link.platform}) is broken: ${issue}.`,
+        action_required:
+          "Update the destination URL or pause the link until the product is available again",
+        occurred_at: since.toISOString(),
+        affected_products: [link.productName],
+      };
+    });
+}
@@ -0,0 +1,188 @@
+import { formatMoney } from "../currency/money";
+import {
+  type ProductObservation,
+  getProductHistory,
+} from "../storage/products";
+import { type ProductWatch, listWatches } from "../storage/watches";
+import {
+  type AlertPriority,
+  type ComputedAlert,
+  PRIORITY_LEVELS,
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function lower(priority: AlertPriority, steps: number): AlertPriority {
+  return PRIORITY_LEVELS[
+    Math.max(0, PRIORITY_LEVELS.indexOf(priority) - steps)
+  ]!;
+}
+
+// Older events are less actionable: a drop from two weeks ago has usually
+// been picked up (or reversed) already.
+function ageAdjusted(
+  priority: AlertPriority,
+  occurredAt: Date,
+  now: Date,
+): AlertPriority {
+  const ageDays = (now.getTime() - occurredAt.getTime()) / DAY_MS;
+  if (ageDays > 14) return "low";
+  if (ageDays > 7) return lower(priority, 1);
+  return priority;
+}
+
+// Start of the trailing run of observations that satisfy `condition`.
+function runStart(
+  history: ProductObservation[],
+  condition: (observation: ProductObservation) => boolean,
+): ProductObservation | null {
+  let start: ProductObservation | null = null;
+  for (let i = history.length - 1; i >= 0 && condition(history[i]!); i--) {
+    start = history[i]!;
+  }
+  return start;
+}
+
+function priceDropAlert(
+  watch: ProductWatch,
+  history: ProductObservation[],
+  now: Date,
+): ComputedAlert | null {
+  const latest = history[history.length - 1]!;
+  // Compare like with like if the merchant switched currencies.
+  const comparable = history.filter(
+    (observation) => observation.priceCurrency === latest.priceCurrency,
+  );
+  const peak = Math.max(
+    ...comparable.map((observation) => observation.priceAmount),
+  );
+  const dropFromPeak = (amount: number) =>
+    peak > 0 ? ((peak - amount) / peak) * 100 : 0;
+  const dropPercent = dropFromPeak(latest.priceAmount);
+
+  const reasons: string[] = [];
+  let priority: AlertPriority = "low";
+  let occurredAt: Date | null = null;
+  const money = (amount: number) =>
+    formatMoney({ amount, currency: latest.priceCurrency });
+
+  // The same test as for the latest price, so the run is never empty; a price
+  // threshold derived from the percentage can disagree by a rounding error.
+  const percentDrop = watch.percentDrop;
+  const droppedSince =
+    percentDrop === null
+      ? null
+      : runStart(comparable, (o) => dropFromPeak(o.priceAmount) >= percentDrop);
+  if (droppedSince) {
+    occurredAt = droppedSince.observedAt;
+    reasons.push(
+      `down ${dropPercent.toFixed(0)}% from ${money(peak)} to ${money(latest.priceAmount)}`,
+    );
+    priority =
+      dropPercent >= 30
+        ? "critical"
+        : dropPercent >= 20
+          ? "high"
+          : dropPercent >= 10
+            ? "medium"
+            : "low";
+  }
+  const targetPrice = watch.targetPrice;
+  const reachedSince =
+    targetPrice === null
+      ? null
+      : runStart(comparable, (o) => o.priceAmount <= targetPrice);
+  if (targetPrice !== null && reachedSince) {
+    const reachedAt = reachedSince.observedAt;
+    occurredAt = occurredAt && occurredAt < reachedAt ? occurredAt : reachedAt;
+    reasons.push(`at or below your target of ${money(targetPrice)}`);
+    if (PRIORITY_LEVELS.indexOf(priority) < PRIORITY_LEVELS.indexOf("high")) {
+      priority = "high";
+    }
+  }
+  if (!occurredAt) {
+    return null;
+  }
+
+  return {
+    // A further drop changes the latest price and so counts as a new event.
+    alert_key: `price_drop:${watch.id}:${occurredAt.toISOString()}:${latest.priceAmount}`,
+    alert_type: "price_drop",
+    priority: ageAdjusted(priority, occurredAt, now),
+    title: `💰 Price drop: ${watch.product.title}`,
+    message: `${watch.product.title} on ${watch.product.platform} is now ${money(latest.priceAmount)}, ${reasons.join(" and ")}.`,
+    action_required:
+      "Share the deal while it lasts and refresh promotions that mention the old price",
+    occurred_at: occurredAt.toISOString(),
+    affected_products: [watch.product.title],
+  };
+}
+
+function restockAlert(
+  watch: ProductWatch,
+  history: ProductObservation[],
+  now: Date,
+): ComputedAlert | null {
+  if (history[history.length - 1]!.availability !== "in_stock") {
+    return null;
+  }
+  let restockedFrom = history.length - 1;
+  while (
+    restockedFrom >= 0 &&
+    history[restockedFrom]!.availability !== "out_of_stock"
+  ) {
+    restockedFrom--;
+  }
+  if (restockedFrom === -1) {
+    return null;
+  }
+  const occurredAt = history[restockedFrom + 1]!.observedAt;
+  const ageDays = (now.getTime() - occurredAt.getTime()) / DAY_MS;
+  const priority: AlertPriority =
+    ageDays <= 2 ? "high" : ageDays <= 7 ? "medium" : "low";
+
+  return {
+    alert_key: `restock:${watch.id}:${occurredAt.toISOString()}`,
+    alert_type: "restock",
+    priority,
+    title: `📦 Back in stock: ${watch.product.title}`,
+    message: `${watch.product.title} is back in stock on ${watch.product.platform} since ${occurredAt.toISOString().split("T")[0]}.`,
+    action_required:
+      "Resume promotions that were paused while it was unavailable",
+    occurred_at: occurredAt.toISOString(),
+    affected_products: [watch.product.title],
+  };
+}
+
+// Checks one watch against the stored price and stock history since it was
+// created (starting from the last observation before that).
+export function evaluateWatch(
+  watch: ProductWatch,
+  history: ProductObservation[],
+  now: Date = new Date(),
+): ComputedAlert[] {
+  if (history.length === 0) {
+    return [];
+  }
+  const alerts: ComputedAlert[] = [];
+  const drop = priceDropAlert(watch, history, now);
+  if (drop) alerts.push(drop);
+  if (watch.notifyRestock) {
+    const restock = restockAlert(watch, history, now);
+    if (restock) alerts.push(restock);
+  }
+  return alerts;
+}
+
+export async function checkProductWatches(
+  resourceId: string,
+  filter: { platforms?: string[] } = {},
+): Promise<{ watches: number; alerts: ComputedAlert[] }> {
+  const watches = await listWatches(resourceId, filter);
+  const alerts: ComputedAlert[] = [];
+  for (const watch of watches) {
+    const history = await getProductHistory(watch.product.id, watch.createdAt);
+    alerts.push(...evaluateWatch(watch, history));
+  }
+  return { watches: watches.length, alerts };
+}
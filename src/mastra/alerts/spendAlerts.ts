@@ -0,0 +1,64 @@
+import { formatMoney } from "../currency/money";
+import { ensureFxRatesLoaded } from "../currency/fxRateLoader";
+import { computeProfitability } from "../campaigns/profitability";
+import { getPerformanceTotals } from "../storage/analytics";
+import { getAdSpendTotals } from "../storage/adSpend";
+import { listCampaigns } from "../storage/campaigns";
+import type { ComputedAlert } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ROAS is judged on the trailing week: long enough for conversions reported
+// a few days late to come in, short enough to catch a campaign going bad.
+const ROAS_WINDOW_DAYS = 7;
+
+// Active campaigns with a ROAS floor whose trailing-week ROAS is below it.
+// The alert key includes the day, so a campaign that stays below its floor
+// is reported once a day rather than on every digest run.
+export async function checkRoasFloors(
+  resourceId: string,
+  now: Date = new Date(),
+): Promise<ComputedAlert[]> {
+  const campaigns = (await listCampaigns(resourceId, "active")).filter(
+    (campaign) => campaign.roasFloor !== null,
+  );
+  const alerts: ComputedAlert[] = [];
+  if (campaigns.length > 0) {
+    await ensureFxRatesLoaded();
+  }
+
+  for (const campaign of campaigns) {
+    const filter = {
+      resourceId,
+      campaignName: campaign.name,
+      currency: campaign.currency,
+      from: new Date(now.getTime() - ROAS_WINDOW_DAYS * DAY_MS),
+      to: now,
+    };
+    const [totals, { spend }] = await Promise.all([
+      getPerformanceTotals(filter),
+      getAdSpendTotals(filter),
+    ]);
+    const { roas, profit } = computeProfitability(totals, spend);
+    if (roas === null || roas >= campaign.roasFloor!) {
+      continue;
+    }
+
+    const money = (amount: number) =>
+      formatMoney({ amount, currency: campaign.currency });
+    alerts.push({
+      alert_key: `roas_floor:${campaign.id}:${now.toISOString().slice(0, 10)}`,
+      alert_type: "roas_below_floor",
+      // Below 1x every unit spent loses money.
+      priority: roas < 1 ? "critical" : "high",
+      title: `📉 Low ROAS: ${campaign.name}`,
+      message: `ROAS over the last ${ROAS_WINDOW_DAYS} days is ${roas.toFixed(2)}x, below your ${campaign.roasFloor}x floor (${money(totals.revenue)} earned on ${money(spend)} spent, ${profit < 0 ? `${money(-profit)} loss` : `${money(profit)} profit`}).`,
+      action_required:
+        "Cut bids or budget on the weakest channel, or pause the campaign until it converts better",
+      occurred_at: now.toISOString(),
+      affected_products: [campaign.name],
+    });
+  }
+
+  return alerts;
+}
@@ -0,0 +1,23 @@
+export const PRIORITY_LEVELS = ["low", "medium", "high", "critical"] as const;
+export type AlertPriority = (typeof PRIORITY_LEVELS)[number];
+
+// An alert derived from stored data (price history, link checks, ...), as
+// opposed to the static reminders in alertsTool.
+export interface ComputedAlert {
+  // Stable identity of the event, used to avoid sending the same alert twice.
+  alert_key: string;
+  alert_type: "price_drop" | "restock" | "broken_link" | "roas_below_floor";
+  priority: AlertPriority;
+  title: string;
+  message: string;
+  action_required: string;
+  occurred_at: string;
+  affected_products: string[];
+}
+
+export function meetsUrgency(priority: string, urgency: string): boolean {
+  return (
+    PRIORITY_LEVELS.indexOf(priority as AlertPriority) >=
+    PRIORITY_LEVELS.indexOf(urgency as AlertPriority)
+  );
+}
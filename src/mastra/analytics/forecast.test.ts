@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import {
+  type BacktestResult,
+  type DailySeries,
+  MIN_HISTORY_DAYS,
+  backtestForecast,
+} from "./forecast";
+
+const START = new Date("2024-01-01T00:00:00Z");
+const WEEKDAY_FACTORS = [0.7, 1, 1.1, 1.2, 1.1, 1, 0.8];
+
+// Deterministic noise (mulberry32 and Box-Muller), so results do not change
+// between runs.
+function noise(seed: number, stdDev: number): () => number {
+  let state = seed;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return () =>
+    stdDev *
+    Math.sqrt(-2 * Math.log(1 - uniform())) *
+    Math.cos(2 * Math.PI * uniform());
+}
+
+function synthetic(days: number, shape: (day: number) => number): DailySeries {
+  const next = noise(1, 5);
+  return {
+    start: START,
+    values: Array.from({ length: days }, (_, day) =>
+      Math.max(0, shape(day) + next()),
+    ),
+  };
+}
+
+// With eight overlapping folds the observed coverage is coarse, so the
+// checks leave room below the nominal 80% and 95%.
+function assertCalibrated(result: BacktestResult | null) {
+  assert.ok(result);
+  assert.equal(result.folds, 8);
+  assert.ok(result.weightedError < 0.05, `error ${result.weightedError}`);
+  assert.ok(result.coverage80 >= 0.5, `80% coverage ${result.coverage80}`);
+  assert.ok(result.coverage95 >= 0.75, `95% coverage ${result.coverage95}`);
+  assert.ok(result.coverage95 >= result.coverage80);
+  assert.ok(Math.abs(result.bias) < 0.05, `bias ${result.bias}`);
+}
+
+describe("backtestForecast", () => {
+  test("follows a linear trend", () => {
+    assertCalibrated(backtestForecast(synthetic(200, (day) => 50 + 0.3 * day)));
+  });
+
+  test("follows a day-of-week pattern", () => {
+    assertCalibrated(
+      backtestForecast(
+        synthetic(120, (day) => 100 * WEEKDAY_FACTORS[day % 7]!),
+      ),
+    );
+  });
+
+  test("follows a yearly cycle", () => {
+    assertCalibrated(
+      backtestForecast(
+        synthetic(
+          800,
+          (day) =>
+            80 +
+            0.05 * day +
+            20 * (WEEKDAY_FACTORS[day % 7]! - 1) +
+            25 * Math.sin((2 * Math.PI * day) / 365.25),
+        ),
+      ),
+    );
+  });
+
+  test("runs only the folds that leave enough history", () => {
+    const result = backtestForecast(
+      synthetic(45, () => 20),
+      30,
+    );
+    // Cut-offs at 15 and 8 days; the next one, at 1, is under the minimum.
+    assert.equal(result?.folds, 2);
+  });
+
+  test("is null when no fold has enough history", () => {
+    assert.equal(
+      backtestForecast(
+        synthetic(30 + MIN_HISTORY_DAYS - 1, () => 20),
+        30,
+      ),
+      null,
+    );
+  });
+});
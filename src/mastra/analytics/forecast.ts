@@ -0,0 +1,366 @@
+// Daily time-series forecasting for clicks, conversions and revenue, fitted
+// locally by least squares on calendar features:
+//
+//   value(day) = level + trend * t + weekday effect + yearly cycle + noise
+//
+// Which terms are fitted depends on how much history there is, so a new
+// account gets a plain daily average with wide intervals rather than a trend
+// extrapolated from two weeks of data.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FORECAST_HORIZONS = [30, 60, 90];
+
+export type ForecastModelKind =
+  // Mean daily value; under two weeks of history.
+  | "average"
+  // Mean plus day-of-week pattern; under eight weeks.
+  | "weekly"
+  // Linear trend plus day-of-week pattern.
+  | "trend_weekly"
+  // Trend, day-of-week pattern and a yearly cycle; a year or more.
+  | "trend_weekly_yearly";
+
+export interface DailySeries {
+  // UTC midnight of the first value.
+  start: Date;
+  // One value per consecutive day.
+  values: number[];
+}
+
+export interface ForecastInterval {
+  low: number;
+  high: number;
+}
+
+export interface HorizonForecast {
+  days: number;
+  // Expected total over the next `days` days.
+  expected: number;
+  interval80: ForecastInterval;
+  interval95: ForecastInterval;
+}
+
+export interface SeriesForecast {
+  model: ForecastModelKind;
+  historyDays: number;
+  // Standard deviation of what the model could not explain, per day.
+  residualStdDev: number;
+  horizons: HorizonForecast[];
+}
+
+// Under a week the average itself is too noisy to project.
+export const MIN_HISTORY_DAYS = 7;
+const WEEKLY_MIN_DAYS = 14;
+const TREND_MIN_DAYS = 56;
+const YEARLY_MIN_DAYS = 365;
+
+const YEAR_DAYS = 365.25;
+const YEARLY_ORDER = 2;
+// Keeps the normal equations solvable when terms overlap, e.g. the yearly
+// cycle and the trend over exactly one year of history.
+const RIDGE = 1e-6;
+
+// Caps how far autocorrelated residuals widen the intervals.
+const MAX_AUTOCORRELATION = 0.9;
+
+const Z80 = 1.2816;
+const Z95 = 1.96;
+
+function modelFor(historyDays: number): ForecastModelKind {
+  if (historyDays >= YEARLY_MIN_DAYS) {
+    return "trend_weekly_yearly";
+  }
+  if (historyDays >= TREND_MIN_DAYS) {
+    return "trend_weekly";
+  }
+  if (historyDays >= WEEKLY_MIN_DAYS) {
+    return "weekly";
+  }
+  return "average";
+}
+
+// Feature row for day `index` of a series starting at `start`. The trend is
+// scaled by the history length so coefficients stay of similar size.
+function features(
+  model: ForecastModelKind,
+  start: Date,
+  index: number,
+  historyDays: number,
+): number[] {
+  const row = [1];
+  if (model !== "average") {
+    const weekday = new Date(start.getTime() + index * DAY_MS).getUTCDay();
+    // Sunday is the baseline day.
+    for (let day = 1; day < 7; day++) {
+      row.push(weekday === day ? 1 : 0);
+    }
+  }
+  if (model === "trend_weekly" || model === "trend_weekly_yearly") {
+    row.push(index / historyDays);
+  }
+  if (model === "trend_weekly_yearly") {
+    const epochDay = start.getTime() / DAY_MS + index;
+    for (let k = 1; k <= YEARLY_ORDER; k++) {
+      const angle = (2 * Math.PI * k * epochDay) / YEAR_DAYS;
+      row.push(Math.sin(angle), Math.cos(angle));
+    }
+  }
+  return row;
+}
+
+// Inverts a symmetric positive-definite matrix by Gauss-Jordan elimination
+// with partial pivoting.
+function invert(matrix: number[][]): number[][] {
+  const size = matrix.length;
+  const a = matrix.map((row, i) => [
+    ...row,
+    ...Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)),
+  ]);
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(a[row]![col]!) > Math.abs(a[pivot]![col]!)) {
+        pivot = row;
+      }
+    }
+    [a[col], a[pivot]] = [a[pivot]!, a[col]!];
+    const divisor = a[col]![col]!;
+    if (Math.abs(divisor) < 1e-12) {
+      throw new Error("Forecast model is singular");
+    }
+    for (let j = 0; j < 2 * size; j++) {
+      a[col]![j]! /= divisor;
+    }
+    for (let row = 0; row < size; row++) {
+      if (row !== col) {
+        const factor = a[row]![col]!;
+        for (let j = 0; j < 2 * size; j++) {
+          a[row]![j]! -= factor * a[col]![j]!;
+        }
+      }
+    }
+  }
+  return a.map((row) => row.slice(size));
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i]!, 0);
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map((row) => dot(row, vector));
+}
+
+interface FittedModel {
+  model: ForecastModelKind;
+  coefficients: number[];
+  // (X'X)^-1, for the uncertainty of the fitted coefficients.
+  covarianceScale: number[][];
+  residualStdDev: number;
+  // Lag-1 autocorrelation of the residuals, at least 0.
+  residualAutocorrelation: number;
+}
+
+function fit(series: DailySeries): FittedModel {
+  const historyDays = series.values.length;
+  const model = modelFor(historyDays);
+  const rows = series.values.map((_, index) =>
+    features(model, series.start, index, historyDays),
+  );
+  const width = rows[0]!.length;
+
+  const xtx = Array.from({ length: width }, (_, i) =>
+    Array.from({ length: width }, (_, j) =>
+      rows.reduce((sum, row) => sum + row[i]! * row[j]!, 0),
+    ),
+  );
+  for (let i = 1; i < width; i++) {
+    xtx[i]![i]! += RIDGE * historyDays;
+  }
+  const xty = Array.from({ length: width }, (_, i) =>
+    rows.reduce((sum, row, index) => sum + row[i]! * series.values[index]!, 0),
+  );
+  const covarianceScale = invert(xtx);
+  const coefficients = multiply(covarianceScale, xty);
+
+  const residuals = rows.map(
+    (row, index) => series.values[index]! - dot(row, coefficients),
+  );
+  const sse = dot(residuals, residuals);
+  const lagged = dot(residuals.slice(1), residuals.slice(0, -1));
+  const degreesOfFreedom = Math.max(1, historyDays - width);
+  return {
+    model,
+    coefficients,
+    covarianceScale,
+    residualStdDev: Math.sqrt(sse / degreesOfFreedom),
+    residualAutocorrelation:
+      sse > 0 ? Math.min(MAX_AUTOCORRELATION, Math.max(0, lagged / sse)) : 0,
+  };
+}
+
+// Totals for each horizon. The interval of a total combines the day-to-day
+// noise of every day in it with the uncertainty of the fitted terms, which
+// grows the further the trend is extrapolated. Runs of good or bad days
+// (residuals that follow each other) make totals swing more than independent
+// days would, so the noise is scaled up for them as for an AR(1) process.
+function project(
+  fitted: FittedModel,
+  series: DailySeries,
+  horizons: number[],
+): HorizonForecast[] {
+  const historyDays = series.values.length;
+  const longest = Math.max(...horizons);
+  const width = fitted.coefficients.length;
+
+  const rho = fitted.residualAutocorrelation;
+  const noiseScale = (1 + rho) / (1 - rho);
+  const summed = new Array<number>(width).fill(0);
+  let expected = 0;
+  const results: HorizonForecast[] = [];
+  for (let ahead = 1; ahead <= longest; ahead++) {
+    const row = features(
+      fitted.model,
+      series.start,
+      historyDays - 1 + ahead,
+      historyDays,
+    );
+    row.forEach((value, i) => (summed[i]! += value));
+    // A day cannot have negative clicks or revenue.
+    expected += Math.max(0, dot(row, fitted.coefficients));
+
+    if (horizons.includes(ahead)) {
+      const variance =
+        fitted.residualStdDev ** 2 *
+        (ahead * noiseScale +
+          dot(summed, multiply(fitted.covarianceScale, summed)));
+      const spread = Math.sqrt(variance);
+      const interval = (z: number) => ({
+        low: Math.max(0, expected - z * spread),
+        high: expected + z * spread,
+      });
+      results.push({
+        days: ahead,
+        expected,
+        interval80: interval(Z80),
+        interval95: interval(Z95),
+      });
+    }
+  }
+  return results;
+}
+
+// Null when there is less than MIN_HISTORY_DAYS of history.
+export function forecastSeries(
+  series: DailySeries,
+  horizons: number[] = FORECAST_HORIZONS,
+): SeriesForecast | null {
+  if (series.values.length < MIN_HISTORY_DAYS) {
+    return null;
+  }
+  const fitted = fit(series);
+  return {
+    model: fitted.model,
+    historyDays: series.values.length,
+    residualStdDev: fitted.residualStdDev,
+    horizons: project(fitted, series, horizons),
+  };
+}
+
+// Dense daily series from sparse per-day values ("YYYY-MM-DD" keys),
+// starting at `firstDay` (by default the first day with a non-zero value)
+// and ending the day before `end`, so days before the account was active and
+// today's partial day are left out.
+export function toDailySeries(
+  points: { day: string; value: number }[],
+  end: Date,
+  firstDay = points.find((point) => point.value !== 0)?.day,
+): DailySeries {
+  const endDay = Date.UTC(
+    end.getUTCFullYear(),
+    end.getUTCMonth(),
+    end.getUTCDate(),
+  );
+  if (!firstDay) {
+    return { start: new Date(endDay), values: [] };
+  }
+  const start = new Date(`${firstDay}T00:00:00Z`);
+  const length = Math.max(0, Math.round((endDay - start.getTime()) / DAY_MS));
+  const values = new Array<number>(length).fill(0);
+  for (const point of points) {
+    const index = Math.round(
+      (new Date(`${point.day}T00:00:00Z`).getTime() - start.getTime()) / DAY_MS,
+    );
+    if (index >= 0 && index < length) {
+      values[index] = point.value;
+    }
+  }
+  return { start, values };
+}
+
+export interface BacktestResult {
+  folds: number;
+  // Total absolute error over total actual value, across folds.
+  weightedError: number;
+  // Share of folds whose actual total fell inside the interval.
+  coverage80: number;
+  coverage95: number;
+  // Mean of (forecast - actual) / actual; positive means over-forecasting.
+  bias: number;
+}
+
+// Rolling-origin backtest: forecasts the `horizon` days after each cut-off
+// from the history before it, stepping the cut-off back a week per fold.
+// Null when the series is too short for a single fold.
+export function backtestForecast(
+  series: DailySeries,
+  horizon = 30,
+  folds = 8,
+): BacktestResult | null {
+  let absoluteError = 0;
+  let actualTotal = 0;
+  let relativeBias = 0;
+  let inside80 = 0;
+  let inside95 = 0;
+  let completed = 0;
+
+  for (let fold = 0; fold < folds; fold++) {
+    const cutoff = series.values.length - horizon - fold * 7;
+    if (cutoff < MIN_HISTORY_DAYS) {
+      break;
+    }
+    // Never null: the cut-off leaves at least MIN_HISTORY_DAYS of history.
+    const fitted = forecastSeries(
+      { start: series.start, values: series.values.slice(0, cutoff) },
+      [horizon],
+    );
+    if (!fitted) {
+      throw new Error(`No forecast from ${cutoff} days of history`);
+    }
+    const forecast = fitted.horizons[0]!;
+    const actual = series.values
+      .slice(cutoff, cutoff + horizon)
+      .reduce((sum, value) => sum + value, 0);
+
+    absoluteError += Math.abs(forecast.expected - actual);
+    actualTotal += actual;
+    relativeBias += actual > 0 ? (forecast.expected - actual) / actual : 0;
+    const within = (interval: ForecastInterval) =>
+      actual >= interval.low && actual <= interval.high;
+    inside80 += within(forecast.interval80) ? 1 : 0;
+    inside95 += within(forecast.interval95) ? 1 : 0;
+    completed++;
+  }
+
+  if (completed === 0) {
+    return null;
+  }
+  return {
+    folds: completed,
+    weightedError: actualTotal > 0 ? absoluteError / actualTotal : 0,
+    coverage80: inside80 / completed,
+    coverage95: inside95 / completed,
+    bias: relativeBias / completed,
+  };
+}
@@ -0,0 +1,150 @@
+import { listSubscriptions } from "../storage/alertSubscriptions";
+import { countLinks } from "../storage/links";
+import { type UserPlan, getUserPlan } from "../storage/plans";
+import { getDailyUsage, incrementUsage } from "../storage/usage";
+import { listWatches } from "../storage/watches";
+import {
+  type CountedQuota,
+  type DailyQuota,
+  type Plan,
+  type Quota,
+  PLANS,
+  QUOTA_LABELS,
+  upgradeFor,
+} from "./plans";
+
+// Raised when a plan limit is reached. The message is written for the user
+// and suggests the plan that lifts the limit.
+export class QuotaExceededError extends Error {
+  constructor(
+    readonly quota: Quota,
+    readonly plan: Plan,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// A lapsed payment keeps the paid plan for a few days before falling back.
+const GRACE_PERIOD_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface Entitlement {
+  plan: Plan;
+  userPlan: UserPlan;
+  // Set when a paid plan has lapsed and the free limits apply.
+  lapsed: boolean;
+}
+
+export async function getEntitlement(
+  resourceId: string,
+  now: Date = new Date(),
+): Promise<Entitlement> {
+  const userPlan = await getUserPlan(resourceId);
+  const paidUntil = userPlan.currentPeriodEnd
+    ? userPlan.currentPeriodEnd.getTime() +
+      (userPlan.status === "canceled" ? 0 : GRACE_PERIOD_MS)
+    : null;
+  const lapsed =
+    userPlan.planId !== "free" &&
+    (paidUntil === null || paidUntil < now.getTime());
+  return {
+    plan: lapsed ? PLANS.free : PLANS[userPlan.planId],
+    userPlan,
+    lapsed,
+  };
+}
+
+export function upgradeMessage(plan: Plan, quota: Quota): string {
+  const limit = plan.limits[quota];
+  const upgrade = upgradeFor(plan.id, quota);
+  const reached = `You've reached the ${limit} ${QUOTA_LABELS[quota]} included in the ${plan.name} plan.`;
+  if (!upgrade) {
+    return `${reached} Get in touch if you need more.`;
+  }
+  const more =
+    upgrade.limits[quota] === null
+      ? `unlimited ${QUOTA_LABELS[quota]}`
+      : `${upgrade.limits[quota]} ${QUOTA_LABELS[quota]}`;
+  const url = process.env.BILLING_UPGRADE_URL;
+  return `${reached} Upgrade to ${upgrade.name} ($${upgrade.priceUsdPerMonth}/month) for ${more}${url ? `: ${url}` : ""}. 🚀`;
+}
+
+const COUNTERS: Record<CountedQuota, (resourceId: string) => Promise<number>> =
+  {
+    links: countLinks,
+    trackedProducts: async (resourceId) =>
+      (await listWatches(resourceId)).length,
+    alertSubscriptions: async (resourceId) =>
+      (await listSubscriptions(resourceId)).filter(
+        (subscription) => subscription.active,
+      ).length,
+  };
+
+// Throws when the user already has as many of `quota` as the plan allows;
+// call before creating one more.
+export async function assertCanAdd(
+  resourceId: string,
+  quota: CountedQuota,
+): Promise<void> {
+  const { plan } = await getEntitlement(resourceId);
+  const limit = plan.limits[quota];
+  if (limit !== null && (await COUNTERS[quota](resourceId)) >= limit) {
+    throw new QuotaExceededError(quota, plan, upgradeMessage(plan, quota));
+  }
+}
+
+// Uses one unit of a daily quota, or throws when today's is used up.
+export async function consumeDailyQuota(
+  resourceId: string,
+  quota: DailyQuota,
+): Promise<void> {
+  const { plan } = await getEntitlement(resourceId);
+  if ((await incrementUsage(resourceId, quota, plan.limits[quota])) === null) {
+    throw new QuotaExceededError(quota, plan, upgradeMessage(plan, quota));
+  }
+}
+
+// Every tool call is counted; tools that draw on a daily quota pass it.
+export async function meterToolCall(
+  resourceId: string,
+  toolId: string,
+  quota?: DailyQuota,
+): Promise<void> {
+  if (quota) {
+    await consumeDailyQuota(resourceId, quota);
+  }
+  await incrementUsage(resourceId, `tool:${toolId}`);
+}
+
+// Called once per message handed to the agent.
+export function meterGeneration(resourceId: string): Promise<void> {
+  return consumeDailyQuota(resourceId, "messagesPerDay");
+}
+
+export interface UsageSummary {
+  quota: Quota;
+  label: string;
+  used: number;
+  limit: number | null;
+}
+
+export async function summarizeUsage(
+  resourceId: string,
+  plan: Plan,
+): Promise<UsageSummary[]> {
+  const daily = await getDailyUsage(resourceId);
+  const summary: UsageSummary[] = [];
+  for (const quota of Object.keys(plan.limits) as Quota[]) {
+    const used =
+      quota in COUNTERS
+        ? await COUNTERS[quota as CountedQuota](resourceId)
+        : (daily[quota] ?? 0);
+    summary.push({
+      quota,
+      label: QUOTA_LABELS[quota],
+      used,
+      limit: plan.limits[quota],
+    });
+  }
+  return summary;
+}
@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import {
+  PaymentWebhookError,
+  parseRazorpayEvent,
+  parseStripeEvent,
+  signRazorpayPayload,
+  signStripePayload,
+  verifyRazorpaySignature,
+  verifyStripeSignature,
+} from "./paymentWebhooks";
+
+const SECRET = "whsec_test_secret";
+const NOW = new Date("2026-03-01T12:00:00Z");
+const NOW_SECONDS = NOW.getTime() / 1000;
+
+function stripeSubscriptionEvent(type: string, status: string): string {
+  return JSON.stringify({
+    id: `evt_${type}_${status}`,
+    type,
+    created: NOW_SECONDS,
+    data: {
+      object: {
+        id: "sub_123",
+        customer: "cus_123",
+        status,
+        current_period_end: NOW_SECONDS + 30 * 24 * 60 * 60,
+        metadata: { resource_id: "user-1", plan_id: "pro" },
+      },
+    },
+  });
+}
+
+function razorpayEvent(event: string): string {
+  return JSON.stringify({
+    entity: "event",
+    event,
+    created_at: NOW_SECONDS,
+    payload: {
+      subscription: {
+        entity: {
+          id: "sub_Razor123",
+          customer_id: "cust_123",
+          current_end: NOW_SECONDS + 30 * 24 * 60 * 60,
+          notes: { resource_id: "user-1", plan_id: "agency" },
+        },
+      },
+    },
+  });
+}
+
+describe("Stripe webhooks", () => {
+  const body = stripeSubscriptionEvent(
+    "customer.subscription.created",
+    "active",
+  );
+
+  test("accepts an event signed with the webhook secret", () => {
+    const header = signStripePayload(body, SECRET, NOW_SECONDS);
+    assert.equal(verifyStripeSignature(body, header, SECRET, NOW), true);
+  });
+
+  test("rejects a wrong secret, a changed body or a missing header", () => {
+    const header = signStripePayload(body, "whsec_other", NOW_SECONDS);
+    assert.equal(verifyStripeSignature(body, header, SECRET, NOW), false);
+
+    const signed = signStripePayload(body, SECRET, NOW_SECONDS);
+    const tampered = body.replace('"pro"', '"agency"');
+    assert.equal(verifyStripeSignature(tampered, signed, SECRET, NOW), false);
+
+    assert.equal(verifyStripeSignature(body, undefined, SECRET, NOW), false);
+  });
+
+  test("rejects a signature replayed after the tolerance window", () => {
+    const header = signStripePayload(body, SECRET, NOW_SECONDS);
+    const fourDaysLater = new Date(NOW.getTime() + 4 * 24 * 60 * 60 * 1000);
+    assert.equal(
+      verifyStripeSignature(body, header, SECRET, fourDaysLater),
+      false,
+    );
+  });
+
+  test("a redelivered event keeps its id, so it is applied once", () => {
+    assert.equal(
+      parseStripeEvent(body)?.eventId,
+      parseStripeEvent(body)?.eventId,
+    );
+  });
+
+  test("maps subscription events on their status", () => {
+    const typeOf = (type: string, status: string) =>
+      parseStripeEvent(stripeSubscriptionEvent(type, status))?.type ?? null;
+
+    assert.equal(typeOf("customer.subscription.created", "active"), "created");
+    assert.equal(
+      typeOf("customer.subscription.created", "trialing"),
+      "created",
+    );
+    assert.equal(typeOf("customer.subscription.created", "incomplete"), null);
+    assert.equal(typeOf("customer.subscription.updated", "active"), "renewed");
+    assert.equal(
+      typeOf("customer.subscription.updated", "past_due"),
+      "past_due",
+    );
+    assert.equal(
+      typeOf("customer.subscription.updated", "incomplete_expired"),
+      null,
+    );
+    assert.equal(
+      typeOf("customer.subscription.deleted", "canceled"),
+      "canceled",
+    );
+  });
+
+  test("fills in the owner, plan and period from the subscription", () => {
+    assert.deepEqual(parseStripeEvent(body), {
+      provider: "stripe",
+      eventId: "evt_customer.subscription.created_active",
+      type: "created",
+      occurredAt: NOW,
+      resourceId: "user-1",
+      planId: "pro",
+      currentPeriodEnd: new Date(NOW.getTime() + 30 * 24 * 60 * 60 * 1000),
+      customerId: "cus_123",
+      subscriptionId: "sub_123",
+    });
+  });
+
+  test("rejects a body that is not a Stripe event", () => {
+    assert.throws(() => parseStripeEvent("not json"), PaymentWebhookError);
+    assert.throws(() => parseStripeEvent("{}"), PaymentWebhookError);
+  });
+});
+
+describe("Razorpay webhooks", () => {
+  const body = razorpayEvent("subscription.activated");
+
+  test("accepts an event signed with the webhook secret", () => {
+    const header = signRazorpayPayload(body, SECRET);
+    assert.equal(verifyRazorpaySignature(body, header, SECRET), true);
+  });
+
+  test("rejects a wrong secret, a changed body or a missing header", () => {
+    const header = signRazorpayPayload(body, "other_secret");
+    assert.equal(verifyRazorpaySignature(body, header, SECRET), false);
+
+    const signed = signRazorpayPayload(body, SECRET);
+    const tampered = body.replace('"agency"', '"pro"');
+    assert.equal(verifyRazorpaySignature(tampered, signed, SECRET), false);
+
+    assert.equal(verifyRazorpaySignature(body, undefined, SECRET), false);
+  });
+
+  test("a replayed delivery without an event id header gets the same id", () => {
+    const first = parseRazorpayEvent(body, undefined);
+    const replayed = parseRazorpayEvent(body, undefined);
+    assert.ok(first?.eventId);
+    assert.equal(replayed?.eventId, first.eventId);
+    assert.equal(parseRazorpayEvent(body, "evt_header")?.eventId, "evt_header");
+  });
+
+  test("maps subscription events to plan changes", () => {
+    const typeOf = (event: string) =>
+      parseRazorpayEvent(razorpayEvent(event), "evt_1")?.type ?? null;
+
+    assert.equal(typeOf("subscription.activated"), "created");
+    assert.equal(typeOf("subscription.charged"), "renewed");
+    assert.equal(typeOf("subscription.halted"), "past_due");
+    assert.equal(typeOf("subscription.cancelled"), "canceled");
+    assert.equal(typeOf("subscription.authenticated"), null);
+  });
+});
@@ -0,0 +1,225 @@
+import { createHash, createHmac } from "node:crypto";
+
+import { tokensMatch } from "../security/tokens";
+import { type PlanId, isPlanId } from "./plans";
+
+export type PaymentProvider = "stripe" | "razorpay";
+
+export type SubscriptionEventType =
+  "created" | "renewed" | "past_due" | "canceled";
+
+// A provider event reduced to what the plan needs. Checkout sessions and
+// subscriptions are created with `resource_id` and `plan_id` in their
+// metadata (Stripe) or notes (Razorpay), which is how events find the user.
+export interface SubscriptionEvent {
+  provider: PaymentProvider;
+  eventId: string;
+  type: SubscriptionEventType;
+  occurredAt: Date;
+  resourceId: string;
+  planId: PlanId;
+  currentPeriodEnd: Date | null;
+  customerId: string | null;
+  subscriptionId: string | null;
+}
+
+// Raised for requests that must not be retried: a bad signature or a body
+// that is not a provider event.
+export class PaymentWebhookError extends Error {}
+
+// Stripe's own libraries allow five minutes, but Inngest retries replay the
+// original headers, so the window has to cover Stripe's three days of
+// retries. Replayed events are caught by their id either way.
+const STRIPE_TOLERANCE_SECONDS = 3 * 24 * 60 * 60;
+
+function hmacHex(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+// Builds a "Stripe-Signature" header, for signing local test fixtures.
+export function signStripePayload(
+  rawBody: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): string {
+  return `t=${timestamp},v1=${hmacHex(secret, `${timestamp}.${rawBody}`)}`;
+}
+
+export function verifyStripeSignature(
+  rawBody: string,
+  header: string | undefined,
+  secret: string,
+  now: Date = new Date(),
+): boolean {
+  if (!header) {
+    return false;
+  }
+  const parts = header.split(",").map((part) => part.trim().split("="));
+  const timestamp = Number(parts.find(([key]) => key === "t")?.[1]);
+  const signatures = parts
+    .filter(([key, value]) => key === "v1" && value)
+    .map(([, value]) => value!);
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    return false;
+  }
+  if (Math.abs(now.getTime() / 1000 - timestamp) > STRIPE_TOLERANCE_SECONDS) {
+    return false;
+  }
+  const expected = hmacHex(secret, `${timestamp}.${rawBody}`);
+  return signatures.some((signature) => tokensMatch(signature, expected));
+}
+
+// Value of the "X-Razorpay-Signature" header for `rawBody`.
+export function signRazorpayPayload(rawBody: string, secret: string): string {
+  return hmacHex(secret, rawBody);
+}
+
+export function verifyRazorpaySignature(
+  rawBody: string,
+  header: string | undefined,
+  secret: string,
+): boolean {
+  return tokensMatch(header, hmacHex(secret, rawBody));
+}
+
+function fromUnix(seconds: unknown): Date | null {
+  return typeof seconds === "number" && seconds > 0
+    ? new Date(seconds * 1000)
+    : null;
+}
+
+function parseJson(rawBody: string): any {
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    throw new PaymentWebhookError("Body is not JSON");
+  }
+}
+
+function readOwner(
+  metadata: Record<string, unknown> | null | undefined,
+): { resourceId: string; planId: PlanId } | null {
+  const resourceId = metadata?.resource_id;
+  const planId = String(metadata?.plan_id ?? "").toLowerCase();
+  if (typeof resourceId !== "string" || !resourceId || !isPlanId(planId)) {
+    return null;
+  }
+  return { resourceId, planId };
+}
+
+// Only active and trialing subscriptions grant the plan. An "incomplete" one
+// is still waiting for its first payment; the update that follows it says
+// whether the payment went through.
+function stripeSubscriptionType(
+  created: boolean,
+  status: unknown,
+): SubscriptionEventType | null {
+  switch (status) {
+    case "active":
+    case "trialing":
+      return created ? "created" : "renewed";
+    case "past_due":
+    case "unpaid":
+      return "past_due";
+    default:
+      return null;
+  }
+}
+
+// Returns null for event types that do not change a plan, and for events
+// without our metadata (subscriptions not created through AffiliateOS).
+export function parseStripeEvent(rawBody: string): SubscriptionEvent | null {
+  const event = parseJson(rawBody);
+  if (typeof event?.id !== "string" || typeof event?.type !== "string") {
+    throw new PaymentWebhookError("Not a Stripe event");
+  }
+  const object = event.data?.object ?? {};
+  const occurredAt = fromUnix(event.created) ?? new Date();
+
+  let type: SubscriptionEventType | null = null;
+  let metadata = object.metadata;
+  let currentPeriodEnd = fromUnix(object.current_period_end);
+  let subscriptionId: string | null = object.id ?? null;
+
+  switch (event.type) {
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+      type = stripeSubscriptionType(
+        event.type === "customer.subscription.created",
+        object.status,
+      );
+      break;
+    case "customer.subscription.deleted":
+      type = "canceled";
+      currentPeriodEnd = fromUnix(object.ended_at) ?? occurredAt;
+      break;
+    case "invoice.paid":
+    case "invoice.payment_failed": {
+      type = event.type === "invoice.paid" ? "renewed" : "past_due";
+      const line = object.lines?.data?.[0];
+      metadata = object.subscription_details?.metadata ?? line?.metadata;
+      currentPeriodEnd = fromUnix(line?.period?.end);
+      subscriptionId =
+        typeof object.subscription === "string" ? object.subscription : null;
+      break;
+    }
+  }
+
+  const owner = readOwner(metadata);
+  if (!type || !owner) {
+    return null;
+  }
+  return {
+    provider: "stripe",
+    eventId: event.id,
+    type,
+    occurredAt,
+    ...owner,
+    currentPeriodEnd,
+    customerId: typeof object.customer === "string" ? object.customer : null,
+    subscriptionId,
+  };
+}
+
+const RAZORPAY_EVENT_TYPES: Record<string, SubscriptionEventType> = {
+  "subscription.activated": "created",
+  "subscription.charged": "renewed",
+  "subscription.resumed": "renewed",
+  "subscription.pending": "past_due",
+  "subscription.halted": "past_due",
+  "subscription.cancelled": "canceled",
+  "subscription.completed": "canceled",
+};
+
+// Razorpay sends the event id in a header; the body hash stands in when a
+// proxy dropped it, which is stable across retries of the same delivery.
+export function parseRazorpayEvent(
+  rawBody: string,
+  eventIdHeader: string | undefined,
+): SubscriptionEvent | null {
+  const event = parseJson(rawBody);
+  if (typeof event?.event !== "string" || event?.entity !== "event") {
+    throw new PaymentWebhookError("Not a Razorpay event");
+  }
+  const type = RAZORPAY_EVENT_TYPES[event.event];
+  const subscription = event.payload?.subscription?.entity ?? {};
+  const owner = readOwner(subscription.notes);
+  if (!type || !owner) {
+    return null;
+  }
+  const occurredAt = fromUnix(event.created_at) ?? new Date();
+  return {
+    provider: "razorpay",
+    eventId:
+      eventIdHeader || createHash("sha256").update(rawBody).digest("hex"),
+    type,
+    occurredAt,
+    ...owner,
+    currentPeriodEnd:
+      type === "canceled"
+        ? (fromUnix(subscription.ended_at) ?? occurredAt)
+        : fromUnix(subscription.current_end),
+    customerId: subscription.customer_id ?? null,
+    subscriptionId: subscription.id ?? null,
+  };
+}
@@ -0,0 +1,80 @@
+export type PlanId = "free" | "pro" | "agency";
+
+// Limits reset every UTC day.
+export type DailyQuota = "messagesPerDay" | "contentGenerationsPerDay";
+// Limits on how many of something a user can have at once.
+export type CountedQuota = "links" | "trackedProducts" | "alertSubscriptions";
+export type Quota = DailyQuota | CountedQuota;
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  priceUsdPerMonth: number;
+  // null means unlimited.
+  limits: Record<Quota, number | null>;
+}
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: {
+    id: "free",
+    name: "Free",
+    priceUsdPerMonth: 0,
+    limits: {
+      messagesPerDay: 30,
+      contentGenerationsPerDay: 5,
+      links: 25,
+      trackedProducts: 5,
+      alertSubscriptions: 1,
+    },
+  },
+  pro: {
+    id: "pro",
+    name: "Pro",
+    priceUsdPerMonth: 19,
+    limits: {
+      messagesPerDay: 300,
+      contentGenerationsPerDay: 100,
+      links: 1000,
+      trackedProducts: 100,
+      alertSubscriptions: 5,
+    },
+  },
+  agency: {
+    id: "agency",
+    name: "Agency",
+    priceUsdPerMonth: 79,
+    limits: {
+      messagesPerDay: 2000,
+      contentGenerationsPerDay: 1000,
+      links: null,
+      trackedProducts: 1000,
+      alertSubscriptions: 25,
+    },
+  },
+};
+
+export const PLAN_ORDER: PlanId[] = ["free", "pro", "agency"];
+
+export const QUOTA_LABELS: Record<Quota, string> = {
+  messagesPerDay: "messages per day",
+  contentGenerationsPerDay: "content generations per day",
+  links: "affiliate links",
+  trackedProducts: "tracked products",
+  alertSubscriptions: "alert subscriptions",
+};
+
+export function isPlanId(value: string): value is PlanId {
+  return (PLAN_ORDER as string[]).includes(value);
+}
+
+// The cheapest plan above `current` that raises the given limit.
+export function upgradeFor(current: PlanId, quota: Quota): Plan | null {
+  const limit = PLANS[current].limits[quota];
+  for (const id of PLAN_ORDER.slice(PLAN_ORDER.indexOf(current) + 1)) {
+    const next = PLANS[id].limits[quota];
+    if (next === null || (limit !== null && next > limit)) {
+      return PLANS[id];
+    }
+  }
+  return null;
+}
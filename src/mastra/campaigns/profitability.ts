@@ -0,0 +1,45 @@
+import type { PerformanceTotals } from "../storage/analytics";
+
+// Paid-traffic metrics from commission revenue and ad spend in one currency.
+// Ratios are null when their denominator is zero.
+export interface Profitability {
+  spend: number;
+  revenue: number;
+  profit: number;
+  // Profit as a percentage of spend.
+  roiPercent: number | null;
+  // Revenue per unit of spend, e.g. 2.5 means 2.5x.
+  roas: number | null;
+  // Earnings per click.
+  epc: number | null;
+  // What a click actually cost.
+  cpc: number | null;
+  // Spend per conversion.
+  cpa: number | null;
+  // The most a click can cost without losing money; equals EPC.
+  breakEvenCpc: number | null;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+export function computeProfitability(
+  totals: Pick<PerformanceTotals, "clicks" | "conversions" | "revenue">,
+  spend: number,
+): Profitability {
+  const profit = totals.revenue - spend;
+  const epc = ratio(totals.revenue, totals.clicks);
+  const roiRatio = ratio(profit, spend);
+  return {
+    spend,
+    revenue: totals.revenue,
+    profit,
+    roiPercent: roiRatio === null ? null : roiRatio * 100,
+    roas: ratio(totals.revenue, spend),
+    epc,
+    cpc: ratio(spend, totals.clicks),
+    cpa: ratio(spend, totals.conversions),
+    breakEvenCpc: epc,
+  };
+}
@@ -0,0 +1,88 @@
+import {
+  type PerformanceTotals,
+  getPerformanceTotals,
+} from "../storage/analytics";
+import { type AdSpendTotals, getAdSpendTotals } from "../storage/adSpend";
+import type { Campaign } from "../storage/campaigns";
+import { type Profitability, computeProfitability } from "./profitability";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CampaignRollup {
+  campaign: Campaign;
+  from: Date;
+  to: Date;
+  // Amounts are in the campaign's currency.
+  totals: PerformanceTotals;
+  spend: AdSpendTotals;
+  profitability: Profitability;
+  // Recorded spend as a percentage of the budget; null without a budget.
+  budgetUsedPercent: number | null;
+  // Revenue as a percentage of the revenue goal; null without a goal.
+  goalAttainmentPercent: number | null;
+  // How much of the campaign's date range has passed; null without an end date.
+  elapsedPercent: number | null;
+  // Attainment keeps up with the calendar; null when there is nothing to compare.
+  onTrack: boolean | null;
+}
+
+function dayStart(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+// Everything tagged with the campaign since it started counts, including
+// conversions that come in after the end date for clicks made before it.
+export async function rollupCampaign(
+  campaign: Campaign,
+  now: Date = new Date(),
+): Promise<CampaignRollup> {
+  const from = dayStart(
+    campaign.startsOn ?? campaign.createdAt.toISOString().slice(0, 10),
+  );
+  const filter = {
+    resourceId: campaign.resourceId,
+    campaignName: campaign.name,
+    currency: campaign.currency,
+    from,
+    to: now,
+  };
+  const [totals, spend] = await Promise.all([
+    getPerformanceTotals(filter),
+    getAdSpendTotals(filter),
+  ]);
+
+  const goalAttainmentPercent = campaign.revenueGoal
+    ? (totals.revenue / campaign.revenueGoal) * 100
+    : null;
+
+  let elapsedPercent: number | null = null;
+  if (campaign.endsOn) {
+    const end = dayStart(campaign.endsOn).getTime() + DAY_MS;
+    const length = end - from.getTime();
+    elapsedPercent =
+      length > 0
+        ? Math.min(
+            100,
+            Math.max(0, ((now.getTime() - from.getTime()) / length) * 100),
+          )
+        : 100;
+  }
+
+  return {
+    campaign,
+    from,
+    to: now,
+    totals,
+    spend,
+    profitability: computeProfitability(totals, spend.spend),
+    budgetUsedPercent: campaign.budget
+      ? (spend.spend / campaign.budget) * 100
+      : null,
+    goalAttainmentPercent,
+    elapsedPercent,
+    onTrack:
+      goalAttainmentPercent !== null && elapsedPercent !== null
+        ? goalAttainmentPercent >= elapsedPercent
+        : null,
+  };
+}
@@ -0,0 +1,38 @@
+import { type Money, roundMoney } from "./money";
+
+export interface CommissionRange {
+  minPercent: number;
+  maxPercent: number;
+}
+
+// Reads "8-12%", "8 – 12 %" or "10%" into a numeric range.
+export function parseCommissionRange(value: string): CommissionRange | null {
+  const numbers = value.match(/\d+(?:\.\d+)?/g)?.map(Number) ?? [];
+  if (numbers.length === 0) {
+    return null;
+  }
+  const minPercent = Math.min(...numbers.slice(0, 2));
+  const maxPercent = Math.max(...numbers.slice(0, 2));
+  return { minPercent, maxPercent };
+}
+
+export function formatCommissionRange({
+  minPercent,
+  maxPercent,
+}: CommissionRange): string {
+  return minPercent === maxPercent
+    ? `${minPercent}%`
+    : `${minPercent}-${maxPercent}%`;
+}
+
+// Midpoint of the commission range applied to the sale price.
+export function expectedEarningsPerSale(
+  price: Money,
+  { minPercent, maxPercent }: CommissionRange,
+): Money {
+  const averagePercent = (minPercent + maxPercent) / 2;
+  return {
+    amount: roundMoney((price.amount * averagePercent) / 100),
+    currency: price.currency,
+  };
+}
@@ -0,0 +1,116 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { parseCsvRecords } from "../imports/csv";
+import { type FxRate, upsertFxRates } from "../storage/fxRates";
+
+export class FxRateFormatError extends Error {}
+
+// Bundled reference rates, so conversions work before an admin loads fresher ones.
+const DEFAULT_FX_RATES_FILE = path.join(process.cwd(), "data", "fx-rates.json");
+
+interface FxRateSnapshot {
+  base?: string;
+  date: string;
+  rates: Record<string, number>;
+}
+
+function isoDate(value: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new FxRateFormatError(
+      `Invalid rate date "${value}", expected YYYY-MM-DD`,
+    );
+  }
+  return value;
+}
+
+// Snapshots may be quoted against any base; they are stored against USD.
+function snapshotToRates(snapshot: FxRateSnapshot, source: string): FxRate[] {
+  const base = (snapshot.base ?? "USD").toUpperCase();
+  const rateDate = isoDate(snapshot.date);
+  const rates = Object.fromEntries(
+    Object.entries(snapshot.rates).map(([currency, rate]) => [
+      currency.toUpperCase(),
+      Number(rate),
+    ]),
+  );
+  rates[base] = 1;
+  const usdPerBase = rates.USD;
+  if (!usdPerBase || !Number.isFinite(usdPerBase) || usdPerBase <= 0) {
+    throw new FxRateFormatError(
+      `A snapshot quoted in ${base} must include a USD rate`,
+    );
+  }
+  return Object.entries(rates)
+    .filter(([currency]) => currency !== "USD")
+    .map(([currency, rate]) => {
+      if (!/^[A-Z]{3}$/.test(currency) || !Number.isFinite(rate) || rate <= 0) {
+        throw new FxRateFormatError(`Invalid rate for "${currency}"`);
+      }
+      return { currency, rateDate, unitsPerUsd: rate / usdPerBase, source };
+    });
+}
+
+// Accepts either JSON snapshots ({ base?, date, rates: { INR: 83.1 } } or an
+// array of them) or a CSV with date, currency and rate (units per USD) columns.
+export function parseFxRates(content: string, source: string): FxRate[] {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    const parsed = JSON.parse(trimmed);
+    const snapshots: FxRateSnapshot[] = Array.isArray(parsed)
+      ? parsed
+      : [parsed];
+    return snapshots.flatMap((snapshot) => snapshotToRates(snapshot, source));
+  }
+
+  const { records } = parseCsvRecords(trimmed, 3);
+  return records.map((record, index) => {
+    const currency = (record.currency ?? "").toUpperCase();
+    const rate = Number(record.rate);
+    if (!/^[A-Z]{3}$/.test(currency) || !Number.isFinite(rate) || rate <= 0) {
+      throw new FxRateFormatError(
+        `Row ${index + 2}: expected date, currency and a positive rate`,
+      );
+    }
+    return {
+      currency,
+      rateDate: isoDate(record.date ?? ""),
+      unitsPerUsd: rate,
+      source,
+    };
+  });
+}
+
+export async function loadFxRatesFromFile(
+  filePath: string,
+  options: { keepExisting?: boolean } = {},
+): Promise<number> {
+  const content = await readFile(filePath, "utf8");
+  return upsertFxRates(
+    parseFxRates(content, `file:${path.basename(filePath)}`),
+    options,
+  );
+}
+
+let initialLoad: Promise<void> | undefined;
+
+// Loads FX_RATES_FILE (or the bundled data/fx-rates.json) once per process.
+// The bundled file is only a seed and never replaces stored rates.
+export function ensureFxRatesLoaded(): Promise<void> {
+  if (!initialLoad) {
+    const filePath = process.env.FX_RATES_FILE ?? DEFAULT_FX_RATES_FILE;
+    initialLoad = existsSync(filePath)
+      ? loadFxRatesFromFile(filePath, {
+          keepExisting: !process.env.FX_RATES_FILE,
+        }).then(
+          () => undefined,
+          (error: unknown) => {
+            initialLoad = undefined;
+            throw error;
+          },
+        )
+      : Promise.resolve();
+  }
+  return initialLoad;
+}
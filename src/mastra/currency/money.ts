@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+import { ensureFxRatesLoaded } from "./fxRateLoader";
+import { getUsdRate } from "../storage/fxRates";
+
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+export const currencyCodeSchema = z
+  .string()
+  .regex(/^[A-Z]{3}$/, "Use an ISO 4217 currency code such as USD or INR");
+
+export const moneySchema = z.object({
+  amount: z.number(),
+  currency: currencyCodeSchema,
+});
+
+// Locales that group digits the way users of that currency expect (e.g. ₹1,23,456).
+const CURRENCY_LOCALES: Record<string, string> = {
+  INR: "en-IN",
+  EUR: "de-DE",
+  GBP: "en-GB",
+  JPY: "ja-JP",
+};
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function formatMoney({ amount, currency }: Money): string {
+  try {
+    return new Intl.NumberFormat(CURRENCY_LOCALES[currency] ?? "en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+// Converts at the rate for `on` (the transaction date), falling back to the
+// nearest known rate. Returns null when either currency has no rate at all.
+export async function convertMoney(
+  money: Money,
+  to: string,
+  on: Date = new Date(),
+): Promise<Money | null> {
+  if (money.currency === to) {
+    return money;
+  }
+  await ensureFxRatesLoaded();
+  const [fromRate, toRate] = await Promise.all([
+    getUsdRate(money.currency, on),
+    getUsdRate(to, on),
+  ]);
+  if (!fromRate || !toRate) {
+    return null;
+  }
+  return {
+    amount: roundMoney((money.amount / fromRate) * toRate),
+    currency: to,
+  };
+}
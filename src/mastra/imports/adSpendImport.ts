@@ -0,0 +1,232 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+
+import { parseCsvRecords } from "./csv";
+import {
+  type DateOrder,
+  columnKey,
+  currencyFromHeader,
+  parseReportDate,
+  parseReportNumber,
+} from "./networkReports";
+import {
+  AdSpendCurrencyError,
+  type AdSpendInput,
+  type AdSpendSource,
+  recordAdSpend,
+} from "../storage/adSpend";
+import { findCampaign } from "../storage/campaigns";
+
+export class AdSpendImportError extends Error {}
+
+export interface AdSpendImportResult {
+  rows: number;
+  created: number;
+  updated: number;
+  campaigns: string[];
+  errors: string[];
+}
+
+// Column names used by Meta, Google Ads and hand-made sheets, compared the
+// same way as network report columns.
+const SPEND_COLUMNS = {
+  date: ["date", "day", "spenddate", "reportingstarts"],
+  campaign: ["campaign", "campaignname"],
+  channel: ["channel", "source", "adplatform", "platform", "network"],
+  amount: ["spend", "amountspent", "cost", "adspend", "amount"],
+  currency: ["currency", "currencycode"],
+};
+
+function findColumn(headers: string[], candidates: string[]) {
+  for (const candidate of candidates) {
+    const header = headers.find((h) => columnKey(h) === candidate);
+    if (header) {
+      return header;
+    }
+  }
+  return undefined;
+}
+
+// Spend reports have a date, a campaign and an amount spent, but no
+// commission, which tells them apart from earnings reports.
+export function isAdSpendReport(headers: string[]): boolean {
+  const keys = new Set(headers.map(columnKey));
+  return (
+    Boolean(findColumn(headers, SPEND_COLUMNS.date)) &&
+    Boolean(findColumn(headers, SPEND_COLUMNS.campaign)) &&
+    ["spend", "amountspent", "cost", "adspend"].some((key) => keys.has(key)) &&
+    ![...keys].some((key) => key.includes("commission"))
+  );
+}
+
+// Returns what is wrong with an entry, or null when it can be stored.
+export function validateAdSpendInput(entry: AdSpendInput): string | null {
+  if (!entry.campaignName.trim()) {
+    return "Spend needs the campaign it was for";
+  }
+  if (!entry.channel.trim()) {
+    return "Spend needs the channel it was spent on, e.g. facebook or google";
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(entry.spendDate)) {
+    return `"${entry.spendDate}" is not a YYYY-MM-DD date`;
+  }
+  if (!Number.isFinite(entry.amount) || entry.amount < 0) {
+    return "Spend must be zero or more";
+  }
+  if (!/^[A-Z]{3}$/.test(entry.currency)) {
+    return `"${entry.currency}" is not an ISO currency code`;
+  }
+  return null;
+}
+
+export interface ImportAdSpendParams {
+  resourceId: string;
+  entries: AdSpendInput[];
+  source: AdSpendSource;
+  errors?: string[];
+  logger?: IMastraLogger;
+}
+
+// Stores validated entries under the spelling of matching campaign records.
+export async function importAdSpend({
+  resourceId,
+  entries,
+  source,
+  errors = [],
+  logger,
+}: ImportAdSpendParams): Promise<AdSpendImportResult> {
+  const valid: AdSpendInput[] = [];
+  entries.forEach((entry, index) => {
+    const problem = validateAdSpendInput(entry);
+    if (problem) {
+      errors.push(
+        entries.length > 1 ? `Entry ${index + 1}: ${problem}` : problem,
+      );
+    } else {
+      valid.push(entry);
+    }
+  });
+  if (valid.length === 0) {
+    throw new AdSpendImportError(errors[0] ?? "There was no spend to record");
+  }
+
+  const spelling = new Map<string, string>();
+  for (const name of new Set(valid.map((entry) => entry.campaignName.trim()))) {
+    const campaign = await findCampaign(resourceId, name);
+    spelling.set(name, campaign?.name ?? name);
+  }
+  const resolved = valid.map((entry) => ({
+    ...entry,
+    campaignName: spelling.get(entry.campaignName.trim())!,
+    channel: entry.channel.trim(),
+  }));
+
+  let counts: { created: number; updated: number };
+  try {
+    counts = await recordAdSpend(resourceId, resolved, source);
+  } catch (error) {
+    if (error instanceof AdSpendCurrencyError) {
+      throw new AdSpendImportError(error.message);
+    }
+    throw error;
+  }
+  const result = {
+    rows: valid.length,
+    ...counts,
+    campaigns: [...new Set(spelling.values())],
+    errors: errors.slice(0, 20),
+  };
+  logger?.info("💸 [AdSpend] Spend recorded", {
+    source,
+    rows: result.rows,
+    created: result.created,
+    updated: result.updated,
+    errors: errors.length,
+  });
+  return result;
+}
+
+export interface ImportAdSpendCsvParams {
+  resourceId: string;
+  csv: string;
+  // Used when the report has no currency or channel column.
+  defaultCurrency: string;
+  defaultChannel?: string;
+  dateOrder?: DateOrder;
+  logger?: IMastraLogger;
+}
+
+export async function importAdSpendCsv({
+  resourceId,
+  csv,
+  defaultCurrency,
+  defaultChannel,
+  dateOrder = "dmy",
+  logger,
+}: ImportAdSpendCsvParams): Promise<AdSpendImportResult> {
+  const { headers, records } = parseCsvRecords(csv);
+  const dateColumn = findColumn(headers, SPEND_COLUMNS.date);
+  const campaignColumn = findColumn(headers, SPEND_COLUMNS.campaign);
+  const amountColumn = findColumn(headers, SPEND_COLUMNS.amount);
+  const channelColumn = findColumn(headers, SPEND_COLUMNS.channel);
+  const currencyColumn = findColumn(headers, SPEND_COLUMNS.currency);
+  if (!dateColumn || !campaignColumn || !amountColumn) {
+    throw new AdSpendImportError(
+      "A spend report needs date, campaign and spend (or cost) columns",
+    );
+  }
+  if (!channelColumn && !defaultChannel) {
+    throw new AdSpendImportError(
+      "The report has no channel column, tell me where the money was spent (e.g. facebook, google)",
+    );
+  }
+
+  const headerCurrency = currencyFromHeader(amountColumn);
+  const entries: AdSpendInput[] = [];
+  const errors: string[] = [];
+  records.forEach((record, index) => {
+    const line = index + 2;
+    const date = parseReportDate(record[dateColumn] ?? "", dateOrder);
+    const amount = parseReportNumber(record[amountColumn]);
+    if (!date || amount === null) {
+      if (Object.values(record).some((value) => /^total/i.test(value))) {
+        return;
+      }
+      errors.push(`Row ${line}: could not read date or spend`);
+      return;
+    }
+    entries.push({
+      campaignName: record[campaignColumn] ?? "",
+      channel: (
+        (channelColumn && record[channelColumn]) ||
+        defaultChannel ||
+        ""
+      ).toLowerCase(),
+      spendDate: date.toISOString().slice(0, 10),
+      amount,
+      currency: (
+        (currencyColumn && record[currencyColumn]) ||
+        headerCurrency ||
+        defaultCurrency
+      ).toUpperCase(),
+    });
+  });
+
+  return importAdSpend({
+    resourceId,
+    entries,
+    source: "csv",
+    errors,
+    logger,
+  });
+}
+
+export function describeAdSpendImport(result: AdSpendImportResult): string {
+  const lines = [
+    `💸 Recorded ${result.rows} spend rows for ${result.campaigns.join(", ")}:`,
+    `• ${result.created} new days, ${result.updated} updated`,
+  ];
+  if (result.errors.length > 0) {
+    lines.push(`• ${result.errors.length} rows skipped (${result.errors[0]})`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,91 @@
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, embedded newlines,
+// CRLF line endings and a UTF-8 BOM. The delimiter is sniffed from the
+// first lines because some networks export with ';' or tabs.
+
+function detectDelimiter(sample: string): string {
+  const lines = sample.split(/\r?\n/, 10);
+  const candidates = [",", ";", "\t"];
+  let best = ",";
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = Math.max(
+      ...lines.map((line) => line.split(candidate).length - 1),
+    );
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+// Parses a CSV with a header row into records keyed by the trimmed header.
+// Reports sometimes start with a title line, so the header is the first row
+// that has at least `minColumns` non-empty cells.
+export function parseCsvRecords(
+  text: string,
+  minColumns = 3,
+): { headers: string[]; records: Record<string, string>[] } {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(
+    (cells) => cells.filter((cell) => cell.trim() !== "").length >= minColumns,
+  );
+  if (headerIndex === -1) {
+    return { headers: [], records: [] };
+  }
+  const headers = rows[headerIndex]!.map((cell) => cell.trim());
+  const records = rows.slice(headerIndex + 1).map((cells) => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = (cells[index] ?? "").trim();
+    });
+    return record;
+  });
+  return { headers, records };
+}
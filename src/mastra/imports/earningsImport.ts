@@ -0,0 +1,134 @@
+import { createHash } from "node:crypto";
+import type { IMastraLogger } from "@mastra/core/logger";
+
+import { parseCsvRecords } from "./csv";
+import { findReportMapping, normalizeReport } from "./networkReports";
+import { upsertConversion } from "../storage/conversions";
+import { findCampaignName, getLink } from "../storage/links";
+import {
+  type ReportImportSummary,
+  findReportImport,
+  saveReportImport,
+} from "../storage/reportImports";
+
+export class ReportImportError extends Error {}
+
+export interface ImportEarningsReportParams {
+  resourceId: string;
+  csv: string;
+  // Network id; detected from the report columns when omitted.
+  network?: string;
+  logger?: IMastraLogger;
+}
+
+export interface ImportEarningsReportResult extends ReportImportSummary {
+  alreadyImported: boolean;
+}
+
+// Imports a network earnings/orders CSV export as conversions. Safe to run
+// on the same file (or an overlapping export) again: rows are upserted on
+// (network, order key) and an identical file is recognised up front.
+export async function importEarningsReport({
+  resourceId,
+  csv,
+  network,
+  logger,
+}: ImportEarningsReportParams): Promise<ImportEarningsReportResult> {
+  const fileHash = createHash("sha256").update(csv).digest("hex");
+  const previous = await findReportImport(resourceId, fileHash);
+  if (previous) {
+    logger?.info("📥 [EarningsImport] Report was already imported", {
+      network: previous.summary.network,
+      importedAt: previous.createdAt,
+    });
+    return { ...previous.summary, alreadyImported: true };
+  }
+
+  const { headers, records } = parseCsvRecords(csv);
+  const mapping = findReportMapping(headers, network);
+  if (!mapping) {
+    throw new ReportImportError(
+      "Could not recognise this report. Tell me which network it comes from (e.g. amazon, flipkart, ebay, walmart, aliexpress).",
+    );
+  }
+
+  const report = normalizeReport(mapping, headers, records);
+  logger?.info("📥 [EarningsImport] Report parsed", {
+    network: mapping.network,
+    rows: report.rows.length,
+    errors: report.errors.length,
+  });
+
+  const summary: ReportImportSummary = {
+    network: mapping.network,
+    rows: report.rows.length,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    matchedLinks: 0,
+    matchedCampaigns: 0,
+    errors: report.errors.slice(0, 20),
+  };
+
+  // Sub-IDs repeat a lot within one report, resolve each only once.
+  const subIdMatches = new Map<
+    string,
+    { link: Awaited<ReturnType<typeof getLink>>; campaignName: string | null }
+  >();
+
+  for (const row of report.rows) {
+    let match = row.subId ? subIdMatches.get(row.subId) : undefined;
+    if (row.subId && !match) {
+      const link = await getLink(resourceId, row.subId);
+      const campaignName = link
+        ? link.campaignName
+        : await findCampaignName(resourceId, row.subId);
+      match = { link, campaignName };
+      subIdMatches.set(row.subId, match);
+    }
+
+    if (match?.link) {
+      summary.matchedLinks++;
+    } else if (match?.campaignName) {
+      summary.matchedCampaigns++;
+    }
+
+    const { outcome } = await upsertConversion({
+      resourceId,
+      network: mapping.network,
+      orderId: row.orderKey,
+      linkId: match?.link?.id ?? null,
+      trackingId: match?.link?.trackingId ?? row.subId,
+      campaignName: match?.campaignName ?? null,
+      platform: match?.link?.platform ?? mapping.network,
+      saleAmount: row.saleAmount,
+      commission: row.commission,
+      currency: row.currency,
+      status: row.status,
+      convertedAt: row.convertedAt,
+    });
+    summary[outcome]++;
+  }
+
+  await saveReportImport(resourceId, fileHash, summary);
+  logger?.info("✅ [EarningsImport] Report imported", { ...summary });
+
+  return { ...summary, alreadyImported: false };
+}
+
+export function describeImportResult(
+  result: ImportEarningsReportResult,
+): string {
+  if (result.alreadyImported) {
+    return `This ${result.network} report was already imported, nothing changed.`;
+  }
+  const lines = [
+    `📥 Imported ${result.rows} rows from your ${result.network} report:`,
+    `• ${result.created} new, ${result.updated} updated, ${result.unchanged} unchanged`,
+    `• ${result.matchedLinks} matched to your links, ${result.matchedCampaigns} to campaigns`,
+  ];
+  if (result.errors.length > 0) {
+    lines.push(`• ${result.errors.length} rows skipped (${result.errors[0]})`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,263 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { IMastraLogger } from "@mastra/core/logger";
+
+import { parseCsvRecords } from "./csv";
+import { parseReportNumber } from "./networkReports";
+import { parseCommissionRange } from "../currency/commission";
+import { normalizeAvailability } from "../products/source";
+import {
+  type MerchantProductInput,
+  type ProductFeedIngestSummary,
+  saveProductFeed,
+} from "../storage/products";
+
+export class MerchantFeedError extends Error {}
+
+export interface ParsedMerchantFeed {
+  items: MerchantProductInput[];
+  errors: string[];
+}
+
+export interface IngestMerchantFeedParams {
+  content: string;
+  merchant: string;
+  // Platform the products are sold on; defaults to the merchant id.
+  platform?: string;
+  // Commission the merchant pays (e.g. "4-8%"), used when rows carry none.
+  commission?: string;
+  // Currency for prices that do not name one.
+  defaultCurrency?: string;
+  // Where the feed came from, recorded with the ingest ("upload", "file:feed.xml").
+  source: string;
+  logger?: IMastraLogger;
+}
+
+// Google Shopping attribute names, as used in XML (g:price) and CSV headers
+// ("price", "image link", "image_link").
+function attributeKey(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/^g:/, "")
+    .replace(/[\s-]+/g, "_");
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) {
+    return cdata[1]!.trim();
+  }
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, name) => ENTITIES[name]!)
+    .trim();
+}
+
+// Google Shopping feeds are flat RSS 2.0 <item> or Atom <entry> elements
+// with one level of g:* children, so a tag scanner is enough here; the first
+// occurrence of an attribute wins, as Merchant Center does.
+function xmlRecords(xml: string): Record<string, string>[] {
+  const records: Record<string, string>[] = [];
+  for (const [, , body] of xml.matchAll(
+    /<(item|entry)\b[^>]*>([\s\S]*?)<\/\1>/g,
+  )) {
+    const record: Record<string, string> = {};
+    for (const [, tag, value] of body!.matchAll(
+      /<([\w:]+)\b[^>]*?(?<!\/)>([\s\S]*?)<\/\1>/g,
+    )) {
+      const key = attributeKey(tag!);
+      if (!(key in record)) {
+        record[key] = decodeXml(value!);
+      }
+    }
+    // Atom feeds carry the product URL as <link href="..."/>.
+    const atomLink = body!.match(/<link\b[^>]*href="([^"]+)"[^>]*\/?>/);
+    if (!record.link && atomLink) {
+      record.link = decodeXml(atomLink[1]!);
+    }
+    records.push(record);
+  }
+  return records;
+}
+
+function csvRecords(csv: string): Record<string, string>[] {
+  const { records } = parseCsvRecords(csv, 3);
+  return records.map((record) =>
+    Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [attributeKey(key), value]),
+    ),
+  );
+}
+
+// "19.99 USD", "USD 19.99", "₹1,299.00 INR" or a bare number.
+function parsePrice(
+  value: string | undefined,
+  defaultCurrency: string | undefined,
+): { amount: number; currency: string } | null {
+  if (!value?.trim()) {
+    return null;
+  }
+  const currency = value.match(/\b([A-Z]{3})\b/)?.[1] ?? defaultCurrency;
+  const amount = parseReportNumber(value.replace(/\b[A-Z]{3}\b/, ""));
+  if (!currency || amount === null || amount < 0) {
+    return null;
+  }
+  return { amount, currency };
+}
+
+// Google numeric taxonomy ids ("2271") are not useful to search by; prefer the
+// merchant's own product_type path, then a textual google_product_category.
+function category(record: Record<string, string>): string | null {
+  const candidates = [
+    record.product_type,
+    record.google_product_category,
+    record.category,
+  ];
+  return (
+    candidates.find((value) => value && !/^\d+$/.test(value.trim()))?.trim() ??
+    null
+  );
+}
+
+export function parseMerchantFeed(
+  content: string,
+  options: { commission?: string; defaultCurrency?: string } = {},
+): ParsedMerchantFeed {
+  const trimmed = content.replace(/^\uFEFF/, "").trim();
+  const records = trimmed.startsWith("<")
+    ? xmlRecords(trimmed)
+    : csvRecords(trimmed);
+  if (records.length === 0) {
+    throw new MerchantFeedError(
+      "No products found. Expected a Google Shopping XML feed (<item>/<entry> elements) or a CSV with id, title and price columns.",
+    );
+  }
+
+  const defaultCommission = options.commission
+    ? parseCommissionRange(options.commission)
+    : null;
+  const items = new Map<string, MerchantProductInput>();
+  const errors: string[] = [];
+
+  records.forEach((record, index) => {
+    const label = `Item ${index + 1}`;
+    const sku = record.id ?? record.offer_id;
+    const title = record.title;
+    const price = parsePrice(record.price, options.defaultCurrency);
+    if (!sku || !title || !price) {
+      errors.push(`${label}: id, title and price are required`);
+      return;
+    }
+    // An active sale price is what shoppers pay.
+    const salePrice = parsePrice(record.sale_price, price.currency);
+    const effective =
+      salePrice &&
+      salePrice.currency === price.currency &&
+      salePrice.amount < price.amount
+        ? salePrice
+        : price;
+    const commission = record.commission
+      ? parseCommissionRange(record.commission)
+      : defaultCommission;
+
+    items.set(sku, {
+      sku,
+      title,
+      link: record.link || null,
+      imageUrl: record.image_link || null,
+      priceAmount: effective.amount,
+      priceCurrency: effective.currency.toUpperCase(),
+      availability: record.availability
+        ? normalizeAvailability(record.availability)
+        : "unknown",
+      gtin: record.gtin || record.ean || record.upc || null,
+      brand: record.brand || null,
+      category: category(record),
+      commissionMinPercent: commission?.minPercent ?? null,
+      commissionMaxPercent: commission?.maxPercent ?? null,
+    });
+  });
+
+  return { items: [...items.values()], errors };
+}
+
+// Parses a merchant datafeed and stores it as the merchant's current
+// catalog, appending one price/stock history row per product.
+export async function ingestMerchantFeed({
+  content,
+  merchant,
+  platform,
+  commission,
+  defaultCurrency,
+  source,
+  logger,
+}: IngestMerchantFeedParams): Promise<ProductFeedIngestSummary> {
+  const merchantId = merchant.trim().toLowerCase();
+  if (!/^[a-z0-9_.-]{2,64}$/.test(merchantId)) {
+    throw new MerchantFeedError(
+      "merchant must be 2-64 letters, digits, '.', '-' or '_'",
+    );
+  }
+  const feed = parseMerchantFeed(content, { commission, defaultCurrency });
+  if (feed.items.length === 0) {
+    throw new MerchantFeedError(
+      `No valid products in the feed. ${feed.errors.slice(0, 3).join("; ")}`,
+    );
+  }
+  logger?.info("📥 [MerchantFeed] Feed parsed", {
+    merchant: merchantId,
+    items: feed.items.length,
+    errors: feed.errors.length,
+  });
+
+  const summary = await saveProductFeed({
+    merchant: merchantId,
+    platform: (platform ?? merchantId).trim().toLowerCase(),
+    source,
+    fileHash: createHash("sha256").update(content).digest("hex"),
+    items: feed.items,
+    errors: feed.errors,
+  });
+  logger?.info("✅ [MerchantFeed] Feed stored", {
+    ...summary,
+    errors: summary.errors.length,
+  });
+  return summary;
+}
+
+// Reads a feed from MERCHANT_FEED_DIR. Only bare file names are accepted so
+// callers of the import route cannot read arbitrary files from the server.
+export async function ingestMerchantFeedFile(
+  fileName: string,
+  params: Omit<IngestMerchantFeedParams, "content" | "source">,
+): Promise<ProductFeedIngestSummary> {
+  const directory = process.env.MERCHANT_FEED_DIR;
+  if (!directory) {
+    throw new MerchantFeedError("MERCHANT_FEED_DIR is not configured");
+  }
+  if (path.basename(fileName) !== fileName || fileName.startsWith(".")) {
+    throw new MerchantFeedError(
+      "Give a file name inside MERCHANT_FEED_DIR, not a path",
+    );
+  }
+  let content: string;
+  try {
+    content = await readFile(path.join(directory, fileName), "utf8");
+  } catch {
+    throw new MerchantFeedError(`Feed file "${fileName}" not found`);
+  }
+  return ingestMerchantFeed({ ...params, content, source: `file:${fileName}` });
+}
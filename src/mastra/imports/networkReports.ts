@@ -0,0 +1,415 @@
+import { createHash } from "node:crypto";
+
+import {
+  type ConversionStatus,
+  normalizeConversionStatus,
+} from "../storage/conversions";
+
+export type DateOrder = "ymd" | "mdy" | "dmy";
+
+export interface NetworkReportMapping {
+  // Matches the platform ids used by productDiscoveryTool.
+  network: string;
+  label: string;
+  // Columns that identify this network's export; all must be present.
+  signature: string[];
+  columns: {
+    orderId?: string[];
+    date: string[];
+    saleAmount: string[];
+    commission: string[];
+    currency?: string[];
+    status?: string[];
+    subId?: string[];
+    productName?: string[];
+  };
+  defaultCurrency: string;
+  defaultStatus: ConversionStatus;
+  dateOrder: DateOrder;
+  // Columns hashed into a stable key when the report has no order ID.
+  fingerprint?: string[];
+}
+
+export interface NormalizedReportRow {
+  orderKey: string;
+  convertedAt: Date;
+  saleAmount: number;
+  commission: number;
+  currency: string;
+  status: ConversionStatus;
+  subId: string | null;
+  productName: string | null;
+}
+
+export interface NormalizedReport {
+  mapping: NetworkReportMapping;
+  rows: NormalizedReportRow[];
+  errors: string[];
+}
+
+// Column names are compared without case, punctuation or a trailing unit in
+// parentheses, so "Price($)", "price" and "Price (Rs.)" are the same column.
+export function columnKey(header: string): string {
+  return header
+    .replace(/\(.*?\)/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+const CURRENCY_HINTS: Array<[RegExp, string]> = [
+  [/\((?:rs\.?|₹|inr)\)/i, "INR"],
+  [/\((?:\$|usd)\)/i, "USD"],
+  [/\((?:£|gbp)\)/i, "GBP"],
+  [/\((?:€|eur)\)/i, "EUR"],
+];
+
+const GENERIC_COLUMNS: NetworkReportMapping["columns"] = {
+  orderId: [
+    "orderid",
+    "order",
+    "ordernumber",
+    "transactionid",
+    "actionid",
+    "conversionid",
+  ],
+  date: [
+    "date",
+    "orderdate",
+    "transactiondate",
+    "conversiondate",
+    "actiondate",
+    "eventdate",
+  ],
+  saleAmount: [
+    "saleamount",
+    "amount",
+    "sales",
+    "ordervalue",
+    "orderamount",
+    "price",
+  ],
+  commission: [
+    "commission",
+    "payout",
+    "earnings",
+    "adfees",
+    "estimatedcommission",
+  ],
+  currency: ["currency", "currencycode"],
+  status: ["status", "orderstatus", "conversionstatus"],
+  subId: [
+    "subid",
+    "subid1",
+    "trackingid",
+    "customid",
+    "affextparam1",
+    "clickref",
+  ],
+  productName: ["productname", "product", "name", "itemname", "producttitle"],
+};
+
+export const NETWORK_REPORT_MAPPINGS: NetworkReportMapping[] = [
+  {
+    network: "amazon",
+    label: "Amazon Associates earnings report",
+    signature: ["asin", "trackingid", "adfees"],
+    columns: {
+      date: ["dateshipped", "date"],
+      saleAmount: ["revenue", "price"],
+      commission: ["adfees"],
+      subId: ["trackingid"],
+      productName: ["name"],
+    },
+    defaultCurrency: "USD",
+    defaultStatus: "approved",
+    dateOrder: "ymd",
+    fingerprint: [
+      "asin",
+      "dateshipped",
+      "trackingid",
+      "itemsshipped",
+      "revenue",
+      "adfees",
+      "returns",
+    ],
+  },
+  {
+    network: "flipkart",
+    label: "Flipkart Affiliate orders report",
+    signature: ["orderitemid", "commission"],
+    columns: {
+      orderId: ["orderitemid"],
+      date: ["orderdate", "date"],
+      saleAmount: ["sales", "saleamount", "price"],
+      commission: ["commission"],
+      status: ["status", "orderstatus"],
+      subId: ["affiliateextraparam1", "affextparam1", "subid"],
+      productName: ["producttitle", "productname"],
+    },
+    defaultCurrency: "INR",
+    defaultStatus: "pending",
+    dateOrder: "dmy",
+  },
+  {
+    network: "ebay",
+    label: "eBay Partner Network transaction report",
+    signature: ["eventdate", "customid", "earnings"],
+    columns: {
+      orderId: ["transactionid", "itemid"],
+      date: ["eventdate"],
+      saleAmount: ["sales", "amount"],
+      commission: ["earnings"],
+      currency: ["currency"],
+      status: ["eventtype", "status"],
+      subId: ["customid"],
+      productName: ["itemname", "leafcategory"],
+    },
+    defaultCurrency: "USD",
+    defaultStatus: "approved",
+    dateOrder: "ymd",
+  },
+  {
+    network: "walmart",
+    label: "Walmart Affiliates (Impact) actions report",
+    signature: ["actionid", "payout"],
+    columns: {
+      orderId: ["actionid", "oid"],
+      date: ["actiondate", "eventdate"],
+      saleAmount: ["saleamount", "amount"],
+      commission: ["payout"],
+      currency: ["currency"],
+      status: ["status", "actionstatus"],
+      subId: ["subid1", "subid"],
+      productName: ["product", "sku"],
+    },
+    defaultCurrency: "USD",
+    defaultStatus: "pending",
+    dateOrder: "ymd",
+  },
+  {
+    network: "aliexpress",
+    label: "AliExpress Portals order report",
+    signature: ["ordernumber", "estimatedcommission"],
+    columns: {
+      orderId: ["ordernumber"],
+      date: ["ordertime", "orderdate"],
+      saleAmount: ["orderamount", "paidamount"],
+      commission: ["estimatedcommission", "commission"],
+      currency: ["currency"],
+      status: ["orderstatus", "status"],
+      subId: ["trackingid", "subid"],
+      productName: ["productname", "itemname"],
+    },
+    defaultCurrency: "USD",
+    defaultStatus: "pending",
+    dateOrder: "ymd",
+  },
+];
+
+// Fallback for networks without a dedicated mapping (Myntra, Ajio, Nykaa,
+// Snapdeal, FirstCry, Meesho via EarnKaro/Cuelinks/Admitad style exports).
+function genericMapping(network: string): NetworkReportMapping {
+  return {
+    network,
+    label: `${network} report (generic columns)`,
+    signature: [],
+    columns: GENERIC_COLUMNS,
+    defaultCurrency: "INR",
+    defaultStatus: "pending",
+    dateOrder: "dmy",
+  };
+}
+
+export function findReportMapping(
+  headers: string[],
+  network?: string,
+): NetworkReportMapping | null {
+  const keys = new Set(headers.map(columnKey));
+  if (network) {
+    const name = network.toLowerCase();
+    return (
+      NETWORK_REPORT_MAPPINGS.find((mapping) => mapping.network === name) ??
+      genericMapping(name)
+    );
+  }
+  return (
+    NETWORK_REPORT_MAPPINGS.find((mapping) =>
+      mapping.signature.every((column) => keys.has(column)),
+    ) ?? null
+  );
+}
+
+function findHeader(
+  headers: string[],
+  candidates?: string[],
+): string | undefined {
+  if (!candidates) {
+    return undefined;
+  }
+  for (const candidate of candidates) {
+    const header = headers.find((h) => columnKey(h) === candidate);
+    if (header) {
+      return header;
+    }
+  }
+  return undefined;
+}
+
+export function parseReportNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") {
+    return 0;
+  }
+  let cleaned = value.replace(/[^0-9.,()-]/g, "");
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.startsWith("-");
+  cleaned = cleaned.replace(/[()-]/g, "");
+  // "1.234,56" and "12,50" (decimal comma) vs "1,234.56"
+  if (
+    /,\d{1,2}$/.test(cleaned) &&
+    (cleaned.includes(".") || !/,.*,/.test(cleaned))
+  ) {
+    cleaned = cleaned.replace(/\./g, "").replace(",", ".");
+  } else {
+    cleaned = cleaned.replace(/,/g, "");
+  }
+  const amount = Number(cleaned);
+  if (!Number.isFinite(amount)) {
+    return null;
+  }
+  return Math.round((negative ? -amount : amount) * 100) / 100;
+}
+
+export function parseReportDate(value: string, order: DateOrder): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(trimmed);
+  if (iso) {
+    const parsed = new Date(
+      trimmed.includes("T") || trimmed.length > 10
+        ? trimmed.replace(" ", "T")
+        : `${trimmed}T00:00:00Z`,
+    );
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+  }
+  const parts = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/.exec(trimmed);
+  if (parts) {
+    const [first, second, rawYear] = [
+      Number(parts[1]),
+      Number(parts[2]),
+      Number(parts[3]),
+    ];
+    const year = rawYear < 100 ? 2000 + rawYear : rawYear;
+    const [month, day] = order === "mdy" ? [first, second] : [second, first];
+    const parsed = new Date(Date.UTC(year, month - 1, day));
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+  }
+  const parsed = new Date(trimmed);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function currencyFromHeader(
+  header: string | undefined,
+): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+  return CURRENCY_HINTS.find(([pattern]) => pattern.test(header))?.[1];
+}
+
+export function normalizeReport(
+  mapping: NetworkReportMapping,
+  headers: string[],
+  records: Record<string, string>[],
+): NormalizedReport {
+  const column = (name: keyof NetworkReportMapping["columns"]) =>
+    findHeader(headers, mapping.columns[name]);
+  const orderIdColumn = column("orderId");
+  const dateColumn = column("date");
+  const saleColumn = column("saleAmount");
+  const commissionColumn = column("commission");
+  const currencyColumn = column("currency");
+  const statusColumn = column("status");
+  const subIdColumn = column("subId");
+  const productColumn = column("productName");
+  const fingerprintColumns = (mapping.fingerprint ?? headers.map(columnKey))
+    .map((key) => headers.find((header) => columnKey(header) === key))
+    .filter((header): header is string => Boolean(header));
+
+  const errors: string[] = [];
+  if (!dateColumn || !commissionColumn) {
+    errors.push(
+      `The ${mapping.label} needs at least a date and a commission column`,
+    );
+    return { mapping, rows: [], errors };
+  }
+
+  const headerCurrency =
+    currencyFromHeader(commissionColumn) ?? currencyFromHeader(saleColumn);
+  const seenKeys = new Map<string, number>();
+  const rows: NormalizedReportRow[] = [];
+
+  records.forEach((record, index) => {
+    const line = index + 2;
+    const convertedAt = parseReportDate(
+      record[dateColumn] ?? "",
+      mapping.dateOrder,
+    );
+    const commission = parseReportNumber(record[commissionColumn]);
+    const saleAmount = parseReportNumber(
+      saleColumn ? record[saleColumn] : undefined,
+    );
+    if (!convertedAt || commission === null || saleAmount === null) {
+      // Summary/footer lines ("Total", blank dates) are expected in exports.
+      if (Object.values(record).some((value) => /^total/i.test(value))) {
+        return;
+      }
+      errors.push(`Row ${line}: could not read date or amounts`);
+      return;
+    }
+
+    const orderId = orderIdColumn ? record[orderIdColumn] : undefined;
+    let orderKey = orderId;
+    if (!orderKey) {
+      // Without an order ID identical lines are told apart by their position
+      // among duplicates, which stays stable when the same file is re-uploaded.
+      const fingerprint = createHash("sha1")
+        .update(
+          fingerprintColumns.map((header) => record[header] ?? "").join("|"),
+        )
+        .digest("hex")
+        .slice(0, 16);
+      const occurrence = (seenKeys.get(fingerprint) ?? 0) + 1;
+      seenKeys.set(fingerprint, occurrence);
+      orderKey = `row:${fingerprint}#${occurrence}`;
+    }
+
+    // A negative line for a known order reverses it. Reports without order
+    // IDs (Amazon) list returns as negative adjustment lines instead, which
+    // are kept signed so that totals net out.
+    const isAdjustment = commission < 0 || saleAmount < 0;
+    const rawStatus = statusColumn ? record[statusColumn] : undefined;
+    const status =
+      (rawStatus ? normalizeConversionStatus(rawStatus) : undefined) ??
+      (isAdjustment && orderId ? "reversed" : mapping.defaultStatus);
+    const sign = isAdjustment && !orderId ? -1 : 1;
+    const currency = (
+      (currencyColumn && record[currencyColumn]) ||
+      headerCurrency ||
+      mapping.defaultCurrency
+    ).toUpperCase();
+
+    rows.push({
+      orderKey,
+      convertedAt,
+      saleAmount: sign * Math.abs(saleAmount),
+      commission: sign * Math.abs(commission),
+      currency,
+      status,
+      subId: (subIdColumn && record[subIdColumn]) || null,
+      productName: (productColumn && record[productColumn]) || null,
+    });
+  });
+
+  return { mapping, rows, errors };
+}
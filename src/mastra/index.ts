@@ -8,16 +8,41 @@ import { NonRetriableError } from "inngest";
 import { z } from "zod";
 
 import { sharedPostgresStorage } from "./storage";
-import { inngest, inngestServe } from "./inngest";
+import { inngest, inngestServe, registerCronJob } from "./inngest";
 import { affiliateOSAgent } from "./agents/affiliateOSAgent";
 import { productDiscoveryTool } from "./tools/productDiscoveryTool";
 import { contentGenerationTool } from "./tools/contentGenerationTool";
 import { linkManagementTool } from "./tools/linkManagementTool";
 import { analyticsSimulationTool } from "./tools/analyticsSimulationTool";
 import { alertsTool } from "./tools/alertsTool";
+import { preferencesTool } from "./tools/preferencesTool";
+import { alertSubscriptionTool } from "./tools/alertSubscriptionTool";
+import { affiliateAccountTool } from "./tools/affiliateAccountTool";
+import { planTool } from "./tools/planTool";
+import { campaignTool } from "./tools/campaignTool";
+import { adSpendTool } from "./tools/adSpendTool";
 import { telegramChatbotWorkflow } from "./workflows/telegramChatbotWorkflow";
 import { registerTelegramTrigger, TriggerInfoTelegramOnNewMessage } from "../triggers/telegramTriggers";
+import { getClient as getSlackClient, registerSlackTrigger, TriggerInfoSlackOnNewMessage } from "../triggers/slackTriggers";
+import { registerShortLinkRoutes } from "../routes/shortLinkRoutes";
+import { registerPostbackRoutes } from "../routes/postbackRoutes";
+import { registerImportRoutes } from "../routes/importRoutes";
+import { isAdminRequest, registerAdminRoutes } from "../routes/adminRoutes";
+import { registerPaymentRoutes } from "../routes/paymentRoutes";
+import { registerAccountRoutes } from "../routes/accountRoutes";
+import { findUser, findUserByIdentity, resolveUser } from "./storage/users";
+import { handleTelegramReportUpload, isCsvDocument } from "./telegram/documentImport";
+import { handleTelegramCallback } from "./telegram/productActions";
+import { handleTelegramCommand } from "./telegram/commandActions";
+import { ALERT_DIGEST_CRON, runAlertDigest } from "./alerts/digest";
+import { LINK_CHECK_CRON, runLinkCheck } from "./links/linkChecker";
+import { redactSecrets } from "./security/vault";
+import { QuotaExceededError, meterGeneration } from "./billing/entitlements";
+import { sendTelegramMessage } from "./telegram/api";
+import { threadIdFor } from "./telegram/updates";
 
+// Secrets are masked in every log line (see redactSecrets), in production and
+// in development alike.
 class ProductionPinoLogger extends MastraLogger {
   protected logger: pino.Logger;
 
@@ -43,22 +68,50 @@ class ProductionPinoLogger extends MastraLogger {
   }
 
   debug(message: string, args: Record<string, any> = {}): void {
-    this.logger.debug(args, message);
+    this.logger.debug(redactSecrets(args), redactSecrets(message));
   }
 
   info(message: string, args: Record<string, any> = {}): void {
-    this.logger.info(args, message);
+    this.logger.info(redactSecrets(args), redactSecrets(message));
   }
 
   warn(message: string, args: Record<string, any> = {}): void {
-    this.logger.warn(args, message);
+    this.logger.warn(redactSecrets(args), redactSecrets(message));
   }
 
   error(message: string, args: Record<string, any> = {}): void {
-    this.logger.error(args, message);
+    this.logger.error(redactSecrets(args), redactSecrets(message));
   }
 }
 
+class DevelopmentPinoLogger extends PinoLogger {
+  debug(message: string, args: Record<string, any> = {}): void {
+    super.debug(redactSecrets(message), redactSecrets(args));
+  }
+
+  info(message: string, args: Record<string, any> = {}): void {
+    super.info(redactSecrets(message), redactSecrets(args));
+  }
+
+  warn(message: string, args: Record<string, any> = {}): void {
+    super.warn(redactSecrets(message), redactSecrets(args));
+  }
+
+  error(message: string, args: Record<string, any> = {}): void {
+    super.error(redactSecrets(message), redactSecrets(args));
+  }
+}
+
+// Scheduled alert digest for subscribed Telegram chats and Slack channels
+registerCronJob("alert-digest", ALERT_DIGEST_CRON, (mastra, step) =>
+  step("alert-digest", () => runAlertDigest(mastra.getLogger())),
+);
+
+// Periodic health check of stored affiliate links
+registerCronJob("link-check", LINK_CHECK_CRON, (mastra, step) =>
+  runLinkCheck(mastra.getLogger(), step),
+);
+
 export const mastra = new Mastra({
   storage: sharedPostgresStorage,
   agents: { 
@@ -77,6 +130,12 @@ export const mastra = new Mastra({
         linkManagementTool,
         analyticsSimulationTool,
         alertsTool,
+        preferencesTool,
+        alertSubscriptionTool,
+        affiliateAccountTool,
+        planTool,
+        campaignTool,
+        adSpendTool,
       },
     }),
   },
@@ -145,43 +204,171 @@ export const mastra = new Mastra({
         triggerType: "telegram/message",
         handler: async (mastra: Mastra, triggerInfo: TriggerInfoTelegramOnNewMessage) => {
           const logger = mastra.getLogger();
-          logger?.info("📱 [Telegram Trigger] Message received", { triggerInfo });
+          logger?.info("📱 [Telegram Trigger] Message received", {
+            updateId: triggerInfo.payload.update_id,
+            kind: triggerInfo.update.kind,
+          });
+
+          const { update } = triggerInfo;
+          const { chatId, from } = update;
+          const messageId =
+            update.kind === "callback"
+              ? update.callbackQuery.message.message_id
+              : update.message.message_id;
 
           // React to all messages that are going to be replied to
-          const chatId = triggerInfo.payload?.message?.chat?.id;
-          const messageId = triggerInfo.payload?.message?.message_id;
-          
-          if (chatId && messageId) {
-            try {
-              // React with hourglass emoji to show processing
-              await fetch(
-                `https://api.telegram.org/bot${process.env.TELEGRAM_BOT_TOKEN}/sendChatAction`,
-                {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({
-                    chat_id: chatId,
-                    action: "typing",
-                  }),
-                }
+          try {
+            // React with hourglass emoji to show processing
+            await fetch(
+              `https://api.telegram.org/bot${process.env.TELEGRAM_BOT_TOKEN}/sendChatAction`,
+              {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                  chat_id: chatId,
+                  action: "typing",
+                }),
+              }
+            );
+          } catch (error) {
+            logger?.error("📱 [Telegram Trigger] Error setting typing action", { error });
+          }
+
+          // Everything the bot stores is scoped to the person who sent the
+          // message or pressed the button
+          const user = await resolveUser("telegram", String(from.id), {
+            displayName: from.username ?? from.first_name ?? null,
+          });
+
+          // Buttons under product recommendations run their action directly
+          if (update.kind === "callback") {
+            await handleTelegramCallback({
+              mastra,
+              resourceId: user.id,
+              chatId,
+              callbackQuery: update.callbackQuery,
+            });
+            return;
+          }
+
+          // Slash commands run their tool directly, without the agent
+          if (update.kind === "command") {
+            await handleTelegramCommand({
+              mastra,
+              resourceId: user.id,
+              chatId,
+              messageId,
+              command: update.command,
+            });
+            return;
+          }
+
+          // CSV documents are earnings or ad spend reports to import, not chat messages
+          if (update.kind === "document") {
+            const { document, caption } = update.message;
+            if (isCsvDocument(document)) {
+              await handleTelegramReportUpload({
+                mastra,
+                resourceId: user.id,
+                chatId,
+                messageId,
+                document,
+                caption,
+              });
+            } else {
+              await sendTelegramMessage(
+                chatId,
+                "I can import earnings and ad spend reports sent as CSV files. For anything else, just type your question.",
+                { reply_to_message_id: messageId },
               );
-            } catch (error) {
-              logger?.error("📱 [Telegram Trigger] Error setting typing action", { error });
             }
+            return;
+          }
+
+          // Each message to the agent counts towards the plan's daily limit
+          try {
+            await meterGeneration(user.id);
+          } catch (error) {
+            if (error instanceof QuotaExceededError) {
+              await sendTelegramMessage(chatId, error.message, {
+                reply_to_message_id: messageId,
+              });
+              return;
+            }
+            throw error;
           }
 
           // Call the Telegram chatbot workflow
           const run = await mastra.getWorkflow("telegramChatbotWorkflow").createRunAsync();
           return await run.start({
             inputData: {
-              message: triggerInfo.params.message || "",
-              threadId: `telegram/${chatId}`,
-              chatId: chatId?.toString() || "",
-              messageId: messageId?.toString() || "",
+              message: triggerInfo.params.message,
+              threadId: threadIdFor(chatId, from),
+              resourceId: user.id,
+              chatId: chatId.toString(),
+              messageId: messageId.toString(),
             }
           });
         },
       }),
+      // Slack trigger registration: the agent answers in the message's thread
+      ...registerSlackTrigger({
+        triggerType: "slack/message.channels",
+        handler: async (mastra: Mastra, triggerInfo: TriggerInfoSlackOnNewMessage) => {
+          const logger = mastra.getLogger();
+          const { channel, userId } = triggerInfo.params;
+          const event = triggerInfo.payload.event;
+          logger?.info("💬 [Slack Trigger] Message received", { channel });
+
+          const { slack } = await getSlackClient();
+          const reply = (text: string) =>
+            slack.chat.postMessage({
+              channel,
+              text,
+              thread_ts: event.thread_ts ?? event.ts,
+            });
+
+          // Everything the bot stores is scoped to the person who sent the
+          // message, as for Telegram
+          const user = await resolveUser("slack", userId, {
+            displayName: event.user_profile?.display_name || event.user_profile?.real_name || null,
+          });
+
+          // Each message to the agent counts towards the plan's daily limit
+          try {
+            await meterGeneration(user.id);
+          } catch (error) {
+            if (error instanceof QuotaExceededError) {
+              await reply(error.message);
+              return { status: "failed" };
+            }
+            throw error;
+          }
+
+          const { text } = await affiliateOSAgent.generate([
+            { role: "user", content: event.text ?? "" }
+          ], {
+            resourceId: user.id,
+            // "slack/<channelId>/..." also tells alert subscriptions where to deliver
+            threadId: `slack/${channel}/${userId}`,
+            maxSteps: 5,
+          });
+          await reply(text);
+          return { status: "success" };
+        },
+      }),
+      // Short link redirects (/l/:alias) with click logging
+      ...registerShortLinkRoutes(),
+      // Server-to-server conversion callbacks from merchants and networks (/postback/:network)
+      ...registerPostbackRoutes(),
+      // Earnings report, ad spend and product feed uploads (/imports/*)
+      ...registerImportRoutes(),
+      // Admin maintenance routes (/admin/fx-rates)
+      ...registerAdminRoutes(),
+      // Stripe and Razorpay subscription webhooks (/webhooks/payments/:provider)
+      ...registerPaymentRoutes(),
+      // Form for affiliate API credentials, kept out of the chat (/accounts/credentials)
+      ...registerAccountRoutes(),
       // Custom API route for AffiliateOS agent using legacy generate handler
       {
         path: "/api/agents/affiliateOSAgent/generate",
@@ -189,6 +376,12 @@ export const mastra = new Mastra({
         handler: async (c) => {
           const mastra = c.get("mastra");
           const logger = mastra?.getLogger();
+
+          // The route can act for any user, so only trusted integrations
+          // holding the admin token may call it
+          if (!isAdminRequest(c.req.header("authorization"))) {
+            return c.json({ error: "Unauthorized" }, 401);
+          }
           
           try {
             const body = await c.req.json();
@@ -201,14 +394,43 @@ export const mastra = new Mastra({
               hasThreadId: !!body.threadId
             });
 
+            // Requests act for an existing user, given by id or by the chat
+            // identity they use with the bot
+            const user = body.resourceId
+              ? await findUser(body.resourceId)
+              : body.provider && body.externalId
+                ? await findUserByIdentity(body.provider, String(body.externalId))
+                : undefined;
+            if (user === undefined) {
+              return c.json({ error: "resourceId, or provider and externalId, is required" }, 400);
+            }
+            if (!user) {
+              return c.json({ error: "Unknown user" }, 404);
+            }
+            if (body.threadId) {
+              const thread = await sharedPostgresStorage.getThreadById({ threadId: body.threadId });
+              if (thread && thread.resourceId !== user.id) {
+                return c.json({ error: "Thread belongs to another user" }, 403);
+              }
+            }
+
+            try {
+              await meterGeneration(user.id);
+            } catch (error) {
+              if (error instanceof QuotaExceededError) {
+                return c.json({ error: error.message }, 429);
+              }
+              throw error;
+            }
+
             // Use legacy generate handler to avoid deprecation issues
             const response = await affiliateOSAgent.generateLegacy(
               body.messages || [],
               {
-                resourceId: body.resourceId || "bot",
+                ...body.options,
+                resourceId: user.id,
                 threadId: body.threadId || `telegram/default-${Date.now()}`,
                 maxSteps: body.maxSteps || 5,
-                ...body.options
               }
             );
 
@@ -232,7 +454,7 @@ export const mastra = new Mastra({
           name: "Mastra",
           level: "info",
         })
-      : new PinoLogger({
+      : new DevelopmentPinoLogger({
           name: "Mastra",
           level: "info",
         }),
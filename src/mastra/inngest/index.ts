@@ -95,6 +95,82 @@ export function registerCronWorkflow(cronExpression: string, workflow: any) {
   inngestFunctions.push(f);
 }
 
+let servedMastra: Mastra | undefined;
+
+// Runs a named piece of a cron job as its own Inngest step, so it is retried
+// and time-limited on its own and not run again once it has succeeded. Its
+// result is stored as JSON, so it should be plain data.
+export type CronJobStep = <T>(
+  name: string,
+  work: () => Promise<T>,
+) => Promise<T>;
+
+// Runs a plain function on a cron schedule. Unlike registerCronWorkflow this
+// does not need a workflow, so background jobs do not count against the
+// single-workflow limit in src/mastra/index.ts. The job does its work inside
+// `step`; anything outside a step runs again every time the function resumes.
+export function registerCronJob(
+  id: string,
+  cronExpression: string,
+  job: (mastra: Mastra, step: CronJobStep) => Promise<unknown>,
+) {
+  inngestFunctions.push(
+    inngest.createFunction(
+      { id: `cron-${id}` },
+      [{ event: `replit/cron.${id}` }, { cron: cronExpression }],
+      async ({ step }) => {
+        if (!servedMastra) {
+          throw new Error("Mastra is not initialized yet");
+        }
+        return await job(
+          servedMastra,
+          (name, work) => step.run(name, work) as Promise<any>,
+        );
+      },
+    ),
+  );
+}
+
+// The steps of an event job: `run` works as for cron jobs, and `sleep` waits
+// without holding a worker. A step name used in a loop runs once per pass.
+export interface EventJobSteps {
+  run: CronJobStep;
+  sleep: (name: string, ms: number) => Promise<void>;
+}
+
+// Runs a plain function for every `event` sent with inngest.send, e.g. to do
+// the slow part of a webhook after the request has been answered. Failed runs
+// are retried; `onFailure` is called once the retries are used up.
+export function registerEventJob<T>(
+  id: string,
+  event: string,
+  job: (mastra: Mastra, data: T, step: EventJobSteps) => Promise<unknown>,
+  onFailure?: (mastra: Mastra, data: T) => Promise<void>,
+) {
+  inngestFunctions.push(
+    inngest.createFunction(
+      {
+        id: `event-${id}`,
+        onFailure: async ({ event: failure }) => {
+          if (onFailure && servedMastra) {
+            await onFailure(servedMastra, failure.data.event.data as T);
+          }
+        },
+      },
+      { event },
+      async ({ event, step }) => {
+        if (!servedMastra) {
+          throw new Error("Mastra is not initialized yet");
+        }
+        return await job(servedMastra, event.data as T, {
+          run: (name, work) => step.run(name, work) as Promise<any>,
+          sleep: (name, ms) => step.sleep(name, ms),
+        });
+      },
+    ),
+  );
+}
+
 export function inngestServe({
   mastra,
   inngest,
@@ -102,6 +178,7 @@ export function inngestServe({
   mastra: Mastra;
   inngest: Inngest;
 }): ReturnType<typeof originalInngestServe> {
+  servedMastra = mastra;
   const wfs = mastra.getWorkflows();
 
   const functions = new Set<InngestFunction.Any>();
@@ -0,0 +1,24 @@
+import { findDefaultAccounts } from "../storage/affiliateAccounts";
+import {
+  type AffiliateIds,
+  affiliateIdsFromEnv,
+  normalizeMerchant,
+} from "./merchantUrls";
+
+// The IDs new links are tagged with: the user's own accounts, falling back to
+// the operator defaults from the environment for merchants they have none for.
+export async function affiliateIdsFor(
+  resourceId: string,
+): Promise<AffiliateIds> {
+  const ids = affiliateIdsFromEnv();
+  for (const account of await findDefaultAccounts(resourceId)) {
+    const merchant = normalizeMerchant(account.network);
+    if (merchant) {
+      ids[merchant] = {
+        id: account.accountId,
+        subIdTemplate: account.subIdTemplate,
+      };
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, test } from "node:test";
+
+import { checkUrl } from "./linkChecker";
+
+describe("checkUrl", () => {
+  let server: Server;
+  let base: string;
+
+  before(async () => {
+    server = createServer((request, response) => {
+      switch (request.url) {
+        case "/":
+        case "/product":
+          response.writeHead(200, { "Content-Type": "text/html" });
+          response.end("<html><body>In stock</body></html>");
+          return;
+        case "/removed-product":
+          response.writeHead(302, { Location: "/" });
+          response.end();
+          return;
+        case "/loop-a":
+          response.writeHead(302, { Location: "/loop-b" });
+          response.end();
+          return;
+        case "/loop-b":
+          response.writeHead(302, { Location: "/loop-a" });
+          response.end();
+          return;
+        case "/product?tag=ours-21":
+          // Lands on the product without the tag, as some merchants do.
+          response.writeHead(301, { Location: "/product" });
+          response.end();
+          return;
+        case "/sold-out":
+          response.writeHead(200, { "Content-Type": "text/html" });
+          response.end(
+            '<html><script type="application/ld+json">{"@type": "Offer", "availability": "https://schema.org/OutOfStock"}</script></html>',
+          );
+          return;
+        case "/slow":
+          // Never answers; the checker has to give up on its own.
+          return;
+        default:
+          response.writeHead(404, { "Content-Type": "text/html" });
+          response.end("<html><body>Not found</body></html>");
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  test("a page that loads is ok", async () => {
+    const result = await checkUrl(`${base}/product`, "destination");
+    assert.equal(result.outcome, "ok");
+    assert.equal(result.httpStatus, 200);
+    assert.equal(result.finalUrl, `${base}/product`);
+    assert.deepEqual(result.redirects, []);
+  });
+
+  test("a missing page is an HTTP error", async () => {
+    const result = await checkUrl(`${base}/gone`, "destination");
+    assert.equal(result.outcome, "http_error");
+    assert.equal(result.httpStatus, 404);
+    assert.equal(result.detail, "HTTP 404");
+  });
+
+  test("a product page that redirects to the homepage is reported", async () => {
+    const result = await checkUrl(`${base}/removed-product`, "destination");
+    assert.equal(result.outcome, "redirected_to_homepage");
+    assert.equal(result.httpStatus, 200);
+    assert.equal(result.finalUrl, `${base}/`);
+    assert.deepEqual(result.redirects, [`${base}/`]);
+  });
+
+  test("the homepage itself is not reported as a redirect", async () => {
+    const result = await checkUrl(`${base}/`, "destination");
+    assert.equal(result.outcome, "ok");
+  });
+
+  test("redirects that lead back to an earlier URL are a loop", async () => {
+    const result = await checkUrl(`${base}/loop-a`, "destination");
+    assert.equal(result.outcome, "redirect_loop");
+    assert.equal(result.finalUrl, `${base}/loop-a`);
+    assert.deepEqual(result.redirects, [`${base}/loop-b`, `${base}/loop-a`]);
+  });
+
+  test("a landing page without our tag is reported", async () => {
+    const result = await checkUrl(
+      `${base}/product?tag=ours-21`,
+      "affiliate_url",
+    );
+    assert.equal(result.outcome, "tag_stripped");
+    assert.equal(result.finalUrl, `${base}/product`);
+    assert.equal(result.detail, "Landing page dropped tag");
+  });
+
+  test("a product page marked out of stock is reported", async () => {
+    const result = await checkUrl(`${base}/sold-out`, "destination");
+    assert.equal(result.outcome, "out_of_stock");
+    assert.equal(result.httpStatus, 200);
+  });
+
+  test("a server that does not answer in time is unreachable", async () => {
+    const result = await checkUrl(`${base}/slow`, "destination", {
+      timeoutMs: 200,
+    });
+    assert.equal(result.outcome, "unreachable");
+    assert.equal(result.httpStatus, null);
+    assert.equal(result.finalUrl, `${base}/slow`);
+  });
+});
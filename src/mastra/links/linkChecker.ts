@@ -0,0 +1,428 @@
+import { randomBytes } from "node:crypto";
+import type { IMastraLogger } from "@mastra/core/logger";
+
+import type { CronJobStep } from "../inngest";
+
+import {
+  type AffiliateLink,
+  listLinksDueForCheck,
+  setLinkHealth,
+} from "../storage/links";
+import {
+  type LinkCheckOutcome,
+  type LinkCheckResult,
+  type LinkCheckTarget,
+  recordLinkChecks,
+} from "../storage/linkChecks";
+import { tokensMatch } from "../security/tokens";
+import { redirectTarget } from "./shortLinks";
+
+// Identifies the checker to merchants.
+export const LINK_CHECKER_USER_AGENT = "AffiliateOS-LinkChecker/1.0";
+
+// Proves to our own redirect route that a request comes from the checker, so
+// it is not counted as a click. Anyone can send the user agent above, so the
+// route goes by this token instead, which is only ever sent to the route.
+// Deployments running more than one instance share it via LINK_CHECK_TOKEN.
+const LINK_CHECK_HEADER = "X-Link-Check-Token";
+const LINK_CHECK_TOKEN =
+  process.env.LINK_CHECK_TOKEN ?? randomBytes(24).toString("hex");
+
+export function isLinkCheckRequest(headers: {
+  header(name: string): string | undefined;
+}): boolean {
+  return tokensMatch(headers.header(LINK_CHECK_HEADER), LINK_CHECK_TOKEN);
+}
+
+export const LINK_CHECK_CRON = process.env.LINK_CHECK_CRON ?? "30 */6 * * *";
+
+// Query parameters networks use to attribute a click; if the start URL has
+// one and the page we land on does not, the merchant dropped our tag.
+const AFFILIATE_PARAMS = [
+  "tag",
+  "affid",
+  "aff_id",
+  "affiliate_id",
+  "campid",
+  "customid",
+  "aff_fcid",
+  "aff_platform",
+  "irgwc",
+  "clickref",
+  "subid",
+];
+
+// Structured data first (reliable), then the phrases big marketplaces show.
+const OUT_OF_STOCK_PATTERNS = [
+  /"availability"\s*:\s*"(?:https?:\/\/schema\.org\/)?(?:OutOfStock|SoldOut|Discontinued)"/i,
+  /itemprop=["']availability["'][^>]*(?:OutOfStock|SoldOut)/i,
+  /<meta[^>]+(?:og|product):availability["'][^>]+content=["'](?:out of stock|oos)["']/i,
+  /\bcurrently unavailable\b/i,
+  /\bthis item is (?:sold out|no longer available)\b/i,
+];
+
+// Issues that are often temporary only mark a link broken when the previous
+// check failed as well. Merchants also flap on stock status and on keeping
+// our tag, so those need two failures in a row too.
+const TRANSIENT_OUTCOMES = new Set<LinkCheckOutcome>([
+  "unreachable",
+  "http_error",
+  "out_of_stock",
+  "tag_stripped",
+]);
+
+// A 4xx is the merchant telling us the page is gone, not a hiccup.
+function isDefinite(result: LinkCheckResult): boolean {
+  return (
+    !TRANSIENT_OUTCOMES.has(result.outcome) ||
+    (result.outcome === "http_error" &&
+      result.httpStatus !== null &&
+      result.httpStatus < 500)
+  );
+}
+
+export interface CheckUrlOptions {
+  fetchImpl?: typeof fetch;
+  maxRedirects?: number;
+  timeoutMs?: number;
+  // Only inspect the response without following any redirect.
+  followRedirects?: boolean;
+  headers?: Record<string, string>;
+}
+
+function isHomepage(url: URL): boolean {
+  return url.pathname.replace(/\/(?:index\.\w+)?$/, "") === "";
+}
+
+function affiliateParams(url: URL): string[] {
+  return AFFILIATE_PARAMS.filter((param) => url.searchParams.has(param));
+}
+
+async function readSnippet(
+  response: Response,
+  maxBytes = 256 * 1024,
+): Promise<string> {
+  if (!response.body) {
+    return "";
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let received = 0;
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel().catch(() => undefined);
+  return text;
+}
+
+// Requests `url` hop by hop so every redirect can be inspected, and
+// classifies what a visitor would end up seeing.
+export async function checkUrl(
+  url: string,
+  target: LinkCheckTarget,
+  {
+    fetchImpl = fetch,
+    maxRedirects = 10,
+    timeoutMs = 15_000,
+    followRedirects = true,
+    headers = {},
+  }: CheckUrlOptions = {},
+): Promise<LinkCheckResult> {
+  const result = (
+    outcome: LinkCheckOutcome,
+    detail: string | null,
+    extra: Partial<LinkCheckResult> = {},
+  ): LinkCheckResult => ({
+    target,
+    url,
+    outcome,
+    httpStatus: null,
+    finalUrl: null,
+    redirects,
+    detail,
+    ...extra,
+  });
+
+  const redirects: string[] = [];
+  const visited = new Set<string>();
+  let current: URL;
+  try {
+    current = new URL(url);
+  } catch {
+    return result("unreachable", "Not a valid URL");
+  }
+  const expectedParams = affiliateParams(current);
+
+  for (let hop = 0; ; hop++) {
+    visited.add(current.href);
+    let response: Response;
+    try {
+      response = await fetchImpl(current.href, {
+        method: "GET",
+        redirect: "manual",
+        headers: {
+          "User-Agent": LINK_CHECKER_USER_AGENT,
+          Accept: "text/html,application/xhtml+xml",
+          ...headers,
+        },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      return result(
+        "unreachable",
+        error instanceof Error ? error.message : String(error),
+        {
+          finalUrl: current.href,
+        },
+      );
+    }
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel().catch(() => undefined);
+      const next = new URL(location, current);
+      if (!followRedirects) {
+        return result("ok", null, {
+          httpStatus: response.status,
+          finalUrl: next.href,
+        });
+      }
+      redirects.push(next.href);
+      if (visited.has(next.href)) {
+        return result("redirect_loop", `Redirects back to ${next.href}`, {
+          httpStatus: response.status,
+          finalUrl: next.href,
+        });
+      }
+      if (hop + 1 > maxRedirects) {
+        return result(
+          "too_many_redirects",
+          `More than ${maxRedirects} redirects`,
+          {
+            httpStatus: response.status,
+            finalUrl: next.href,
+          },
+        );
+      }
+      current = next;
+      continue;
+    }
+
+    const extra = { httpStatus: response.status, finalUrl: current.href };
+    if (response.status >= 400) {
+      await response.body?.cancel().catch(() => undefined);
+      return result("http_error", `HTTP ${response.status}`, extra);
+    }
+
+    // Merchants often send removed products to their homepage with a 200.
+    if (
+      redirects.length > 0 &&
+      isHomepage(current) &&
+      !isHomepage(new URL(url))
+    ) {
+      await response.body?.cancel().catch(() => undefined);
+      return result(
+        "redirected_to_homepage",
+        "Product page redirects to the homepage",
+        extra,
+      );
+    }
+
+    const missing = expectedParams.filter(
+      (param) => !current.searchParams.has(param),
+    );
+    if (missing.length > 0) {
+      await response.body?.cancel().catch(() => undefined);
+      return result(
+        "tag_stripped",
+        `Landing page dropped ${missing.join(", ")}`,
+        extra,
+      );
+    }
+
+    if ((response.headers.get("content-type") ?? "").includes("html")) {
+      const page = await readSnippet(response);
+      if (OUT_OF_STOCK_PATTERNS.some((pattern) => pattern.test(page))) {
+        return result(
+          "out_of_stock",
+          "Product page shows the item as unavailable",
+          extra,
+        );
+      }
+    } else {
+      await response.body?.cancel().catch(() => undefined);
+    }
+    return result("ok", null, extra);
+  }
+}
+
+function sameUrl(a: string, b: string): boolean {
+  try {
+    return new URL(a).href === new URL(b).href;
+  } catch {
+    return a === b;
+  }
+}
+
+// Checks one hop through our own redirect route.
+async function checkRedirect(
+  url: string,
+  target: LinkCheckTarget,
+  expected: string,
+  options: CheckUrlOptions,
+): Promise<LinkCheckResult> {
+  const hop = await checkUrl(url, target, {
+    ...options,
+    followRedirects: false,
+    headers: { ...options.headers, [LINK_CHECK_HEADER]: LINK_CHECK_TOKEN },
+  });
+  if (hop.outcome !== "ok") {
+    return hop;
+  }
+  if (hop.httpStatus !== null && hop.httpStatus < 300) {
+    return { ...hop, outcome: "wrong_redirect", detail: "Does not redirect" };
+  }
+  if (!hop.finalUrl || !sameUrl(hop.finalUrl, expected)) {
+    return {
+      ...hop,
+      outcome: "wrong_redirect",
+      detail: `Redirects to ${hop.finalUrl ?? "nowhere"} instead of ${expected}`,
+    };
+  }
+  return hop;
+}
+
+// Checks the merchant destination and the tagged affiliate URL in full, and
+// that our short link still redirects to the affiliate URL.
+export async function checkLink(
+  link: AffiliateLink,
+  options: CheckUrlOptions = {},
+): Promise<LinkCheckResult[]> {
+  const target = redirectTarget(link);
+  return Promise.all([
+    checkUrl(link.destinationUrl, "destination", options),
+    checkRedirect(link.shortLink, "short_link", target, options),
+    // Tagged merchant URLs are checked in full. Older links use our own
+    // redirect route as their affiliate URL, which must lead to the destination.
+    target === link.affiliateUrl
+      ? checkUrl(link.affiliateUrl, "affiliate_url", options)
+      : checkRedirect(
+          link.affiliateUrl,
+          "affiliate_url",
+          link.destinationUrl,
+          options,
+        ),
+  ]);
+}
+
+export function describeIssue(results: LinkCheckResult[]): string | null {
+  const failed = results.filter((result) => result.outcome !== "ok");
+  if (failed.length === 0) {
+    return null;
+  }
+  return failed
+    .map(
+      (result) =>
+        `${result.target.replace(/_/g, " ")}: ${result.outcome.replace(/_/g, " ")}${result.detail ? ` (${result.detail})` : ""}`,
+    )
+    .join("; ");
+}
+
+export interface LinkCheckRunSummary {
+  checked: number;
+  healthy: number;
+  broken: number;
+  recovered: number;
+}
+
+// Checks up to `limit` links last checked before `checkedBefore`, records every
+// result and flips links between active and broken.
+async function checkDueLinks(
+  checkedBefore: Date,
+  limit: number,
+  options: CheckUrlOptions,
+  logger?: IMastraLogger,
+): Promise<LinkCheckRunSummary> {
+  const links = await listLinksDueForCheck(checkedBefore, limit);
+  const summary: LinkCheckRunSummary = {
+    checked: 0,
+    healthy: 0,
+    broken: 0,
+    recovered: 0,
+  };
+
+  for (const link of links) {
+    const results = await checkLink(link, options);
+    await recordLinkChecks(link.id, results);
+
+    const issue = describeIssue(results);
+    const failing = results.filter((result) => result.outcome !== "ok");
+    const broken =
+      failing.length > 0 &&
+      (failing.some(isDefinite) || link.healthIssue !== null);
+    await setLinkHealth(link.id, issue, broken);
+
+    summary.checked++;
+    if (broken) {
+      summary.broken++;
+      if (link.status !== "broken") {
+        logger?.warn("🔗 [LinkChecker] Link is broken", {
+          trackingId: link.trackingId,
+          issue,
+        });
+      }
+    } else {
+      summary.healthy++;
+      if (link.status === "broken" && !issue) {
+        summary.recovered++;
+      }
+    }
+  }
+  return summary;
+}
+
+// Checks links that have not been checked for `minAgeHours`, `batchSize` at a
+// time with each batch in its own step, so a run of slow merchants cannot
+// exceed the time a single step is allowed.
+export async function runLinkCheck(
+  logger?: IMastraLogger,
+  step: CronJobStep = (_name, work) => work(),
+  {
+    minAgeHours = 6,
+    batchSize = 10,
+    maxBatches = 20,
+    ...options
+  }: CheckUrlOptions & {
+    minAgeHours?: number;
+    batchSize?: number;
+    maxBatches?: number;
+  } = {},
+): Promise<LinkCheckRunSummary> {
+  const checkedBefore = new Date(Date.now() - minAgeHours * 60 * 60 * 1000);
+  const summary: LinkCheckRunSummary = {
+    checked: 0,
+    healthy: 0,
+    broken: 0,
+    recovered: 0,
+  };
+
+  for (let batch = 0; batch < maxBatches; batch++) {
+    const checked = await step(`link-check-batch-${batch}`, () =>
+      checkDueLinks(checkedBefore, batchSize, options, logger),
+    );
+    summary.checked += checked.checked;
+    summary.healthy += checked.healthy;
+    summary.broken += checked.broken;
+    summary.recovered += checked.recovered;
+    if (checked.checked < batchSize) {
+      break;
+    }
+  }
+
+  logger?.info("✅ [LinkChecker] Run completed", { ...summary });
+  return summary;
+}
@@ -0,0 +1,230 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import {
+  type AffiliateIds,
+  DEFAULT_SUB_ID_TEMPLATE,
+  MerchantUrlError,
+  buildAffiliateUrl,
+  canonicalizeProductUrl,
+  formatSubId,
+  newTrackingId,
+  validateSubIdTemplate,
+} from "./merchantUrls";
+
+describe("canonicalizeProductUrl", () => {
+  test("strips tracking junk and keeps only the product", () => {
+    assert.deepEqual(
+      canonicalizeProductUrl(
+        "https://www.amazon.in/Sony-WH-1000XM5/dp/b09xs7jwhh/ref=sr_1_3?keywords=sony&pf_rd_r=XYZ&tag=someone-21&utm_source=x",
+      ),
+      {
+        merchant: "amazon",
+        productId: "B09XS7JWHH",
+        canonicalUrl: "https://www.amazon.in/dp/B09XS7JWHH",
+      },
+    );
+    assert.equal(
+      canonicalizeProductUrl(
+        "https://www.flipkart.com/apple-iphone-15/p/ITM6AC6485515AE4?pid=mobgtagpaqnvfzza&lid=LST&marketplace=FLIPKART&affid=other",
+      ).canonicalUrl,
+      "https://www.flipkart.com/apple-iphone-15/p/itm6ac6485515ae4?pid=MOBGTAGPAQNVFZZA",
+    );
+  });
+
+  test("resolves the ASIN or item ID from each URL shape", () => {
+    const productOf = (url: string) => {
+      const { merchant, productId } = canonicalizeProductUrl(url);
+      return `${merchant}:${productId}`;
+    };
+    assert.equal(
+      productOf("https://smile.amazon.com/gp/product/B0CHX3QBCH"),
+      "amazon:B0CHX3QBCH",
+    );
+    assert.equal(
+      productOf("https://www.amazon.co.uk/gp/aw/d/B0CHX3QBCH/?psc=1"),
+      "amazon:B0CHX3QBCH",
+    );
+    assert.equal(
+      productOf("https://www.ebay.co.uk/itm/Some-title/295012345678?hash=item"),
+      "ebay:295012345678",
+    );
+    assert.equal(
+      productOf("https://www.walmart.com/ip/Onn-32-TV/5012345678?athbdg=L1600"),
+      "walmart:5012345678",
+    );
+    assert.equal(
+      productOf(
+        "https://de.aliexpress.com/item/1005006012345678.html?spm=a2g0o&gatewayAdapt=glo2deu",
+      ),
+      "aliexpress:1005006012345678",
+    );
+  });
+
+  test("asks for the full URL instead of a short link", () => {
+    for (const url of ["https://amzn.to/3xYzAbC", "https://fkrt.it/abc123"]) {
+      assert.throws(
+        () => canonicalizeProductUrl(url),
+        (error) =>
+          error instanceof MerchantUrlError &&
+          /short links can't be used directly/.test(error.message),
+        url,
+      );
+    }
+  });
+
+  test("rejects a URL of another merchant than the platform", () => {
+    assert.throws(
+      () =>
+        canonicalizeProductUrl(
+          "https://www.amazon.com/dp/B0CHX3QBCH",
+          "Flipkart",
+        ),
+      (error) =>
+        error instanceof MerchantUrlError &&
+        error.message ===
+          "The URL is a Amazon page but the platform is Flipkart",
+    );
+    assert.equal(
+      canonicalizeProductUrl("https://www.amazon.in/dp/B0CHX3QBCH", "Amazon.in")
+        .merchant,
+      "amazon",
+    );
+  });
+
+  test("rejects unsupported merchants and pages that are not products", () => {
+    for (const [url, message] of [
+      ["https://www.bestbuy.com/site/123.p", /not a supported merchant/],
+      ["https://www.amazon.com/gp/bestsellers", /doesn't point to a product/],
+      ["ftp://www.amazon.com/dp/B0CHX3QBCH", /not a web address/],
+      ["amazon dot com", /not a valid URL/],
+    ] as const) {
+      assert.throws(
+        () => canonicalizeProductUrl(url),
+        (error) =>
+          error instanceof MerchantUrlError && message.test(error.message),
+        url,
+      );
+    }
+  });
+});
+
+describe("buildAffiliateUrl", () => {
+  const ids: AffiliateIds = {
+    amazon: { id: "mysite-21" },
+    flipkart: { id: "myaffid" },
+    ebay: { id: "5338012345" },
+    walmart: { id: "1234567" },
+    aliexpress: { id: "_dXyZ12" },
+  };
+  const tracking = { trackingId: "trk_1", utm: { source: "telegram" } };
+  const build = (url: string) =>
+    new URL(buildAffiliateUrl(canonicalizeProductUrl(url), ids, tracking));
+
+  test("adds the Amazon associate tag and sub-ID", () => {
+    const url = build("https://www.amazon.in/dp/B0CHX3QBCH?tag=someone-21");
+    assert.equal(
+      url.origin + url.pathname,
+      "https://www.amazon.in/dp/B0CHX3QBCH",
+    );
+    assert.equal(url.searchParams.get("tag"), "mysite-21");
+    assert.equal(url.searchParams.get("ascsubtag"), "trk_1");
+    assert.equal(url.searchParams.get("utm_source"), "telegram");
+  });
+
+  test("adds the Flipkart affid and sub-ID", () => {
+    const url = build("https://www.flipkart.com/x/p/itm123?pid=ABC");
+    assert.equal(url.searchParams.get("affid"), "myaffid");
+    assert.equal(url.searchParams.get("affExtParam1"), "trk_1");
+  });
+
+  test("adds the eBay Partner Network parameters of the marketplace", () => {
+    const url = build("https://www.ebay.co.uk/itm/295012345678");
+    assert.equal(url.searchParams.get("campid"), "5338012345");
+    assert.equal(url.searchParams.get("customid"), "trk_1");
+    assert.equal(url.searchParams.get("mkrid"), "710-53481-19255-0");
+    assert.equal(url.searchParams.get("siteid"), "3");
+  });
+
+  test("wraps Walmart and AliExpress pages in the network deep link", () => {
+    const walmart = build("https://www.walmart.com/ip/5012345678");
+    assert.equal(walmart.origin, "https://goto.walmart.com");
+    assert.ok(walmart.pathname.startsWith("/c/1234567/"));
+    assert.equal(walmart.searchParams.get("subId1"), "trk_1");
+    assert.equal(
+      walmart.searchParams.get("u"),
+      "https://www.walmart.com/ip/5012345678?utm_source=telegram",
+    );
+
+    const aliexpress = build(
+      "https://www.aliexpress.com/item/1005006012345678.html",
+    );
+    assert.equal(aliexpress.origin, "https://s.click.aliexpress.com");
+    assert.equal(aliexpress.searchParams.get("aff_short_key"), "_dXyZ12");
+    assert.equal(aliexpress.searchParams.get("dp"), "trk_1");
+    assert.equal(
+      aliexpress.searchParams.get("dl_target_url"),
+      "https://www.aliexpress.com/item/1005006012345678.html?utm_source=telegram",
+    );
+  });
+
+  test("leaves the sub-ID out without a tracking ID", () => {
+    const url = new URL(
+      buildAffiliateUrl(
+        canonicalizeProductUrl("https://www.amazon.com/dp/B0CHX3QBCH"),
+        ids,
+      ),
+    );
+    assert.equal(url.searchParams.get("tag"), "mysite-21");
+    assert.equal(url.searchParams.has("ascsubtag"), false);
+  });
+
+  test("refuses to build a link without an affiliate ID for the merchant", () => {
+    assert.throws(
+      () =>
+        buildAffiliateUrl(
+          canonicalizeProductUrl("https://www.amazon.com/dp/B0CHX3QBCH"),
+          { flipkart: { id: "myaffid" } },
+        ),
+      MerchantUrlError,
+    );
+  });
+});
+
+describe("newTrackingId", () => {
+  const subIdOf = (trackingId: string) =>
+    formatSubId(DEFAULT_SUB_ID_TEMPLATE, { tracking_id: trackingId });
+
+  test("survives the sub-ID unchanged", () => {
+    for (const name of [
+      "Sony WH-1000XM5 Headphones",
+      "Apple iPhone 15 (128 GB) – Black",
+      "L'Oréal Paris Revitalift, 50ml",
+      "सैमसंग गैलेक्सी",
+      "x".repeat(300),
+    ]) {
+      const trackingId = newTrackingId("amazon", name, 1700000000000);
+      assert.equal(subIdOf(trackingId), trackingId, name);
+    }
+  });
+
+  test("keeps the merchant and a readable product name", () => {
+    assert.equal(
+      newTrackingId("flipkart", "Apple iPhone 15 (128 GB)", 1700000000000),
+      "flipkart_apple_iphone_15_128_gb_1700000000000",
+    );
+    assert.equal(
+      newTrackingId("amazon", "सैमसंग", 1700000000000),
+      "amazon_product_1700000000000",
+    );
+  });
+});
+
+describe("validateSubIdTemplate", () => {
+  test("only accepts the bare tracking ID that sales are matched on", () => {
+    assert.equal(validateSubIdTemplate("{tracking_id}"), null);
+    for (const template of ["{campaign}-{tracking_id}", "{campaign}", "abc"]) {
+      assert.ok(validateSubIdTemplate(template), template);
+    }
+  });
+});
@@ -0,0 +1,416 @@
+export type MerchantId =
+  "amazon" | "flipkart" | "ebay" | "walmart" | "aliexpress";
+
+// Raised for URLs we cannot turn into an affiliate link; the message is meant
+// to be shown to the user.
+export class MerchantUrlError extends Error {}
+
+export interface AffiliateId {
+  // The ID each network uses to credit a sale: Amazon associate tag,
+  // Flipkart affid, eBay Partner Network campaign id, Walmart (Impact)
+  // publisher id and AliExpress portals aff_short_key.
+  id: string;
+  // How the sub-ID is put together; see validateSubIdTemplate.
+  subIdTemplate?: string | null;
+}
+
+export type AffiliateIds = Partial<Record<MerchantId, AffiliateId>>;
+
+// Sub-IDs default to the link's tracking ID, which is what conversion
+// postbacks report back as tracking_id.
+export const DEFAULT_SUB_ID_TEMPLATE = "{tracking_id}";
+
+export interface TrackingParams {
+  trackingId?: string | null;
+  campaign?: string | null;
+  utm?: {
+    source?: string;
+    medium?: string;
+    campaign?: string;
+    content?: string;
+  };
+}
+
+export interface CanonicalProductUrl {
+  merchant: MerchantId;
+  // ASIN, Flipkart PID, eBay/Walmart/AliExpress item id.
+  productId: string;
+  canonicalUrl: string;
+}
+
+interface MerchantUrlBuilder {
+  id: MerchantId;
+  label: string;
+  // What the network calls the affiliate ID, and what it looks like.
+  idLabel: string;
+  idPattern: RegExp;
+  envVar: string;
+  hosts: RegExp;
+  // Returns null when the URL is on the merchant's site but not a product page.
+  canonicalize(url: URL): Omit<CanonicalProductUrl, "merchant"> | null;
+  tag(landingUrl: URL, affiliateId: string, subId: string | null): string;
+}
+
+// eBay Partner Network rotation id and site id per marketplace.
+const EBAY_SITES: Record<string, { rotation: string; siteId: string }> = {
+  com: { rotation: "711-53200-19255-0", siteId: "0" },
+  "co.uk": { rotation: "710-53481-19255-0", siteId: "3" },
+  de: { rotation: "707-53477-19255-0", siteId: "77" },
+  fr: { rotation: "709-53476-19255-0", siteId: "71" },
+  it: { rotation: "724-53478-19255-0", siteId: "101" },
+  es: { rotation: "1185-53479-19255-0", siteId: "186" },
+  ca: { rotation: "706-53473-19255-0", siteId: "2" },
+  "com.au": { rotation: "705-53470-19255-0", siteId: "15" },
+};
+
+// Walmart's generic text-link ad on Impact, usable with any product URL.
+const WALMART_IMPACT_AD_ID = "568844";
+
+// Shorteners only resolve with a request, so we ask for the full URL instead.
+const SHORTENER_HOSTS =
+  /^(?:amzn\.to|amzn\.eu|amzn\.in|a\.co|fkrt\.it|ebay\.us|s\.click\.aliexpress\.com|a\.aliexpress\.com)$/;
+
+function setParams(
+  url: URL,
+  params: Record<string, string | null | undefined>,
+) {
+  for (const [key, value] of Object.entries(params)) {
+    if (value) {
+      url.searchParams.set(key, value);
+    }
+  }
+  return url;
+}
+
+const BUILDERS: MerchantUrlBuilder[] = [
+  {
+    id: "amazon",
+    label: "Amazon",
+    idLabel: "Associates tag (e.g. mysite-21)",
+    idPattern: /^[A-Za-z0-9_-]{1,60}-\d{2}$/,
+    envVar: "AMAZON_ASSOCIATE_TAG",
+    hosts:
+      /^(?:www\.|smile\.|m\.)?amazon\.(com|ca|com\.mx|com\.br|co\.uk|de|fr|it|es|nl|se|pl|com\.be|com\.tr|ae|sa|eg|in|co\.jp|sg|com\.au)$/,
+    canonicalize(url) {
+      const asin =
+        url.pathname.match(
+          /\/(?:dp|gp\/product|gp\/aw\/d|exec\/obidos\/ASIN|o\/ASIN)\/([A-Z0-9]{10})(?:[/?]|$)/i,
+        )?.[1] ?? url.searchParams.get("asin");
+      if (!asin || !/^[A-Z0-9]{10}$/i.test(asin)) {
+        return null;
+      }
+      const domain = url.hostname.replace(
+        /^(?:www\.|smile\.|m\.)?amazon\./,
+        "",
+      );
+      const productId = asin.toUpperCase();
+      return {
+        productId,
+        canonicalUrl: `https://www.amazon.${domain}/dp/${productId}`,
+      };
+    },
+    tag(landingUrl, tag, subId) {
+      return setParams(landingUrl, { tag, ascsubtag: subId }).href;
+    },
+  },
+  {
+    id: "flipkart",
+    label: "Flipkart",
+    idLabel: "affiliate ID (affid)",
+    idPattern: /^[A-Za-z0-9._-]{2,64}$/,
+    envVar: "FLIPKART_AFFILIATE_ID",
+    hosts: /^(?:www\.|dl\.)?flipkart\.com$/,
+    canonicalize(url) {
+      const match = url.pathname.match(/^\/(?:([^/]+)\/)?p\/(itm[0-9a-z]+)/i);
+      if (!match) {
+        return null;
+      }
+      const pid = url.searchParams.get("pid");
+      const canonical = new URL(
+        `https://www.flipkart.com/${match[1] ?? "product"}/p/${match[2]!.toLowerCase()}`,
+      );
+      if (pid) {
+        canonical.searchParams.set("pid", pid.toUpperCase());
+      }
+      return {
+        productId: pid?.toUpperCase() ?? match[2]!.toLowerCase(),
+        canonicalUrl: canonical.href,
+      };
+    },
+    tag(landingUrl, affid, subId) {
+      return setParams(landingUrl, { affid, affExtParam1: subId }).href;
+    },
+  },
+  {
+    id: "ebay",
+    label: "eBay",
+    idLabel: "eBay Partner Network campaign ID (10 digits)",
+    idPattern: /^\d{10}$/,
+    envVar: "EBAY_CAMPAIGN_ID",
+    hosts: /^(?:www\.|m\.)?ebay\.(com|co\.uk|de|fr|it|es|ca|com\.au)$/,
+    canonicalize(url) {
+      const itemId = url.pathname.match(
+        /\/itm\/(?:[^/]+\/)?(\d{9,15})(?:[/?]|$)/,
+      )?.[1];
+      if (!itemId) {
+        return null;
+      }
+      const domain = url.hostname.replace(/^(?:www\.|m\.)?ebay\./, "");
+      return {
+        productId: itemId,
+        canonicalUrl: `https://www.ebay.${domain}/itm/${itemId}`,
+      };
+    },
+    tag(landingUrl, campid, subId) {
+      const domain = landingUrl.hostname.replace(/^www\.ebay\./, "");
+      const site = EBAY_SITES[domain] ?? EBAY_SITES.com!;
+      return setParams(landingUrl, {
+        mkcid: "1",
+        mkrid: site.rotation,
+        siteid: site.siteId,
+        campid,
+        customid: subId,
+        toolid: "10001",
+        mkevt: "1",
+      }).href;
+    },
+  },
+  {
+    id: "walmart",
+    label: "Walmart",
+    idLabel: "Impact publisher ID",
+    idPattern: /^\d{4,12}$/,
+    envVar: "WALMART_IMPACT_ID",
+    hosts: /^(?:www\.)?walmart\.com$/,
+    canonicalize(url) {
+      const itemId = url.pathname.match(
+        /\/ip\/(?:[^/]+\/)?(\d{4,15})(?:[/?]|$)/,
+      )?.[1];
+      if (!itemId) {
+        return null;
+      }
+      return {
+        productId: itemId,
+        canonicalUrl: `https://www.walmart.com/ip/${itemId}`,
+      };
+    },
+    tag(landingUrl, publisherId, subId) {
+      const deepLink = new URL(
+        `https://goto.walmart.com/c/${encodeURIComponent(publisherId)}/${WALMART_IMPACT_AD_ID}/9383`,
+      );
+      return setParams(deepLink, {
+        veh: "aff",
+        u: landingUrl.href,
+        subId1: subId,
+      }).href;
+    },
+  },
+  {
+    id: "aliexpress",
+    label: "AliExpress",
+    idLabel: "Portals aff_short_key",
+    idPattern: /^[A-Za-z0-9]{4,64}$/,
+    envVar: "ALIEXPRESS_AFF_SHORT_KEY",
+    hosts: /^(?:[a-z]{2,3}\.|www\.|m\.)?aliexpress\.(?:com|us|ru)$/,
+    canonicalize(url) {
+      const itemId = url.pathname.match(
+        /\/item\/(?:[^/]+\/)?(\d{6,20})\.html$/,
+      )?.[1];
+      if (!itemId) {
+        return null;
+      }
+      return {
+        productId: itemId,
+        canonicalUrl: `https://www.aliexpress.com/item/${itemId}.html`,
+      };
+    },
+    tag(landingUrl, affShortKey, subId) {
+      const deepLink = new URL("https://s.click.aliexpress.com/deep_link.htm");
+      return setParams(deepLink, {
+        aff_short_key: affShortKey,
+        dl_target_url: landingUrl.href,
+        dp: subId,
+      }).href;
+    },
+  },
+];
+
+export const SUPPORTED_MERCHANTS = BUILDERS.map((builder) => builder.id);
+
+function builderFor(merchant: MerchantId): MerchantUrlBuilder {
+  return BUILDERS.find((builder) => builder.id === merchant)!;
+}
+
+// Maps what users and the agent call a merchant ("Amazon.in", "Ali Express")
+// to a merchant id, or null when we have no builder for it.
+export function normalizeMerchant(platform: string): MerchantId | null {
+  const key = platform
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, "")
+    .replace(/\.[a-z.]+$/, "");
+  return BUILDERS.find((builder) => builder.id === key)?.id ?? null;
+}
+
+export function detectMerchant(url: URL): MerchantId | null {
+  return (
+    BUILDERS.find((builder) => builder.hosts.test(url.hostname.toLowerCase()))
+      ?.id ?? null
+  );
+}
+
+// Returns a reason when `id` cannot be the merchant's affiliate ID.
+export function validateAffiliateId(
+  merchant: MerchantId,
+  id: string,
+): string | null {
+  const builder = builderFor(merchant);
+  return builder.idPattern.test(id)
+    ? null
+    : `That doesn't look like a valid ${builder.label} ${builder.idLabel}`;
+}
+
+export function affiliateIdLabel(merchant: MerchantId): string {
+  return builderFor(merchant).idLabel;
+}
+
+// Conversion postbacks and network report imports match the reported sub-ID
+// against tracking IDs as is, so a template that adds anything to the
+// tracking ID would stop sales being attributed to the link.
+export function validateSubIdTemplate(template: string): string | null {
+  return template.trim() === DEFAULT_SUB_ID_TEMPLATE
+    ? null
+    : `Sub-IDs can only be ${DEFAULT_SUB_ID_TEMPLATE}: sales are matched to links by the exact tracking ID the network reports back`;
+}
+
+// Networks only accept short alphanumeric sub-IDs.
+export function formatSubId(
+  template: string,
+  values: Record<string, string | null | undefined>,
+): string {
+  return template
+    .replace(/\{([^}]*)\}/g, (_, token: string) => values[token] ?? "")
+    .replace(/[^A-Za-z0-9_-]+/g, "_")
+    .slice(0, 100);
+}
+
+// Tracking IDs come back verbatim in postbacks and network reports only if
+// the sub-ID carries them unchanged, so they are built from the characters
+// `formatSubId` keeps and stay well under its length limit.
+export function newTrackingId(
+  merchant: string,
+  productName: string,
+  now = Date.now(),
+): string {
+  const slug = productName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 48)
+    .replace(/_+$/, "");
+  return `${merchant}_${slug || "product"}_${now}`.replace(
+    /[^A-Za-z0-9_-]+/g,
+    "_",
+  );
+}
+
+function supportedList(): string {
+  return BUILDERS.map((builder) => builder.label).join(", ");
+}
+
+// Resolves the product behind `rawUrl` and rebuilds its URL without tracking
+// junk (ref, pf_rd_*, utm_*, other affiliates' tags). When `platform` is given
+// the URL must belong to that merchant.
+export function canonicalizeProductUrl(
+  rawUrl: string,
+  platform?: string,
+): CanonicalProductUrl {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    throw new MerchantUrlError(`"${rawUrl}" is not a valid URL`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new MerchantUrlError(`"${rawUrl}" is not a web address`);
+  }
+  url.hostname = url.hostname.toLowerCase();
+
+  if (SHORTENER_HOSTS.test(url.hostname)) {
+    throw new MerchantUrlError(
+      `${url.hostname} short links can't be used directly, open it and share the full product page URL instead`,
+    );
+  }
+
+  const merchant = detectMerchant(url);
+  if (!merchant) {
+    throw new MerchantUrlError(
+      `${url.hostname} is not a supported merchant, affiliate links can be built for ${supportedList()}`,
+    );
+  }
+  const builder = builderFor(merchant);
+  if (platform) {
+    const expected = normalizeMerchant(platform);
+    if (!expected) {
+      throw new MerchantUrlError(
+        `${platform} is not a supported merchant, affiliate links can be built for ${supportedList()}`,
+      );
+    }
+    if (expected !== merchant) {
+      throw new MerchantUrlError(
+        `The URL is a ${builder.label} page but the platform is ${builderFor(expected).label}`,
+      );
+    }
+  }
+
+  const product = builder.canonicalize(url);
+  if (!product) {
+    throw new MerchantUrlError(
+      `That ${builder.label} URL doesn't point to a product page, please share the link of the product itself`,
+    );
+  }
+  return { merchant, ...product };
+}
+
+export function affiliateIdsFromEnv(): AffiliateIds {
+  const ids: AffiliateIds = {};
+  for (const builder of BUILDERS) {
+    const value = process.env[builder.envVar]?.trim();
+    if (value) {
+      ids[builder.id] = { id: value };
+    }
+  }
+  return ids;
+}
+
+// Adds UTM parameters to the landing page and wraps it in the merchant's
+// affiliate format with the user's ID and a sub-ID built from the account's
+// template (only when there is a tracking ID to put in it).
+export function buildAffiliateUrl(
+  product: CanonicalProductUrl,
+  affiliateIds: AffiliateIds,
+  { trackingId = null, campaign = null, utm = {} }: TrackingParams = {},
+): string {
+  const builder = builderFor(product.merchant);
+  const affiliateId = affiliateIds[product.merchant];
+  if (!affiliateId) {
+    throw new MerchantUrlError(
+      `No ${builder.label} affiliate account is set up, add your ${builder.idLabel} first so the link earns commission`,
+    );
+  }
+  const subId = trackingId
+    ? formatSubId(affiliateId.subIdTemplate ?? DEFAULT_SUB_ID_TEMPLATE, {
+        tracking_id: trackingId,
+        campaign,
+        platform: product.merchant,
+        product_id: product.productId,
+      })
+    : null;
+  const landingUrl = setParams(new URL(product.canonicalUrl), {
+    utm_source: utm.source,
+    utm_medium: utm.medium,
+    utm_campaign: utm.campaign,
+    utm_content: utm.content,
+  });
+  return builder.tag(landingUrl, affiliateId.id, subId);
+}
@@ -0,0 +1,64 @@
+import { randomBytes } from "node:crypto";
+
+const ALIAS_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{2,31}$/;
+const ALIAS_ALPHABET =
+  "abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// Path segments that must never be handed out as aliases.
+const RESERVED_ALIASES = new Set([
+  "admin",
+  "api",
+  "health",
+  "help",
+  "inngest",
+  "l",
+  "static",
+  "test",
+  "webhooks",
+]);
+
+export function shortLinkBaseUrl(): string {
+  if (process.env.SHORT_LINK_BASE_URL) {
+    return process.env.SHORT_LINK_BASE_URL.replace(/\/+$/, "");
+  }
+  if (process.env.REPLIT_DOMAINS) {
+    return `https://${process.env.REPLIT_DOMAINS.split(",")[0]}/l`;
+  }
+  return "http://localhost:5000/l";
+}
+
+export function buildShortLink(alias: string): string {
+  return `${shortLinkBaseUrl()}/${encodeURIComponent(alias)}`;
+}
+
+// Where a short link sends visitors: the tagged merchant URL. Links created
+// before merchant URL builders existed have an affiliate URL on our own
+// redirect route, those keep going straight to the destination.
+export function redirectTarget(link: {
+  affiliateUrl: string;
+  destinationUrl: string;
+}): string {
+  return link.affiliateUrl.startsWith(`${shortLinkBaseUrl()}/`)
+    ? link.destinationUrl
+    : link.affiliateUrl;
+}
+
+// Returns a human readable reason when the alias cannot be used, or null when it is valid.
+export function validateAlias(alias: string): string | null {
+  if (!ALIAS_PATTERN.test(alias)) {
+    return "Aliases must be 3-32 characters long, start with a letter or digit, and only contain letters, digits, '-' or '_'";
+  }
+  if (RESERVED_ALIASES.has(alias.toLowerCase())) {
+    return `"${alias}" is reserved, please pick another alias`;
+  }
+  return null;
+}
+
+export function generateAlias(length = 7): string {
+  const bytes = randomBytes(length);
+  let alias = "";
+  for (const byte of bytes) {
+    alias += ALIAS_ALPHABET[byte % ALIAS_ALPHABET.length];
+  }
+  return alias;
+}
@@ -0,0 +1,159 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+
+import { convertMoney } from "../currency/money";
+import { expectedEarningsPerSale } from "../currency/commission";
+import { createLocalFeedSource } from "./feedSource";
+import { merchantCatalogSource } from "./merchantCatalogSource";
+import {
+  type CatalogProduct,
+  type ProductQuery,
+  type ProductSource,
+  PRICE_BANDS_USD,
+  categoryMatches,
+  keywordScore,
+} from "./source";
+
+export interface RankedProduct extends CatalogProduct {
+  score: number;
+}
+
+export interface CatalogSearchResult {
+  products: RankedProduct[];
+  // Sources that cover the category and were searched.
+  sources: string[];
+  // False when no enabled source carries the category (for the requested platforms).
+  covered: boolean;
+  availableCategories: string[];
+}
+
+const sources = new Map<string, ProductSource>();
+
+export function registerProductSource(source: ProductSource): void {
+  sources.set(source.id, source);
+}
+
+export function listProductSources(): ProductSource[] {
+  return [...sources.values()].filter((source) => source.isEnabled());
+}
+
+registerProductSource(createLocalFeedSource());
+registerProductSource(merchantCatalogSource);
+
+// The same product can come from several sources (or twice from one feed);
+// a GTIN identifies it reliably, otherwise fall back to the normalized name.
+function dedupeKey(product: CatalogProduct): string {
+  const identity =
+    product.gtin ??
+    product.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, " ")
+      .trim();
+  return `${product.platform}|${identity}`;
+}
+
+// Keyword relevance dominates; within equally relevant products, expected
+// earnings per sale (in USD) weighted by popularity decide the order, and
+// products that cannot be bought right now sink to the bottom.
+function score(
+  product: CatalogProduct,
+  priceUsd: number | null,
+  keyword?: string,
+): number {
+  const earnings =
+    product.commission && priceUsd !== null
+      ? expectedEarningsPerSale(
+          { amount: priceUsd, currency: "USD" },
+          product.commission,
+        ).amount
+      : 0;
+  const relevance = keywordScore(product, keyword) * 1000;
+  const stock = product.availability === "out_of_stock" ? 0.1 : 1;
+  return (relevance + earnings * (0.5 + product.popularity)) * stock;
+}
+
+export async function searchCatalog(
+  query: ProductQuery,
+  logger?: IMastraLogger,
+): Promise<CatalogSearchResult> {
+  const candidates: ProductSource[] = [];
+  const availableCategories = new Set<string>();
+  for (const source of listProductSources()) {
+    try {
+      const platforms = await source.platforms();
+      if (
+        query.platforms &&
+        !query.platforms.some((platform) => platforms.includes(platform))
+      ) {
+        continue;
+      }
+      const categories = await source.categories();
+      categories.forEach((category) => availableCategories.add(category));
+      if (
+        categories.some((category) => categoryMatches(category, query.category))
+      ) {
+        candidates.push(source);
+      }
+    } catch (error) {
+      logger?.warn("⚠️ [ProductCatalog] Product source unavailable", {
+        source: source.id,
+        error: String(error),
+      });
+    }
+  }
+
+  if (candidates.length === 0) {
+    return {
+      products: [],
+      sources: [],
+      covered: false,
+      availableCategories: [...availableCategories].sort(),
+    };
+  }
+
+  const results = await Promise.allSettled(
+    candidates.map((source) => source.search(query)),
+  );
+  const found: CatalogProduct[] = [];
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      found.push(...result.value);
+    } else {
+      logger?.warn("⚠️ [ProductCatalog] Product source search failed", {
+        source: candidates[index]!.id,
+        error: String(result.reason),
+      });
+    }
+  });
+
+  const band = query.priceBand ? PRICE_BANDS_USD[query.priceBand] : undefined;
+  const best = new Map<string, RankedProduct>();
+  for (const product of found) {
+    const priceUsd = (await convertMoney(product.price, "USD"))?.amount ?? null;
+    if (
+      band &&
+      (priceUsd === null || priceUsd < band.min || priceUsd >= band.max)
+    ) {
+      continue;
+    }
+    const ranked = {
+      ...product,
+      score: score(product, priceUsd, query.keyword),
+    };
+    const key = dedupeKey(product);
+    const existing = best.get(key);
+    if (!existing || ranked.score > existing.score) {
+      best.set(key, ranked);
+    }
+  }
+
+  const products = [...best.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(query.offset ?? 0, (query.offset ?? 0) + (query.limit ?? 5));
+
+  return {
+    products,
+    sources: candidates.map((source) => source.id),
+    covered: true,
+    availableCategories: [...availableCategories].sort(),
+  };
+}
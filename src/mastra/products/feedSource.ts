@@ -0,0 +1,167 @@
+import { existsSync } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+import { parseCsvRecords } from "../imports/csv";
+import { parseCommissionRange } from "../currency/commission";
+import {
+  type CatalogProduct,
+  type ProductQuery,
+  type ProductSource,
+  categoryMatches,
+  keywordScore,
+  normalizeAvailability,
+  regionMatches,
+} from "./source";
+
+export class ProductFeedFormatError extends Error {}
+
+// Sample catalog shipped with the bot; point PRODUCT_FEED_FILE at a real feed.
+const DEFAULT_PRODUCT_FEED_FILE = path.join(
+  process.cwd(),
+  "data",
+  "product-feed.json",
+);
+
+type FeedRecord = Record<string, unknown>;
+
+function text(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const trimmed = String(value).trim();
+  return trimmed === "" ? null : trimmed;
+}
+
+// Lists arrive as JSON arrays or as "a|b|c" / "a;b" cells in a CSV.
+function list(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((item) => String(item).trim()).filter(Boolean);
+  }
+  return (text(value) ?? "")
+    .split(/[|;]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toProduct(
+  record: FeedRecord,
+  index: number,
+  sourceId: string,
+): CatalogProduct {
+  const name = text(record.name) ?? text(record.title);
+  const category = text(record.category);
+  const platform = text(record.platform)?.toLowerCase();
+  const price = Number(text(record.price) ?? NaN);
+  if (!name || !category || !platform || !Number.isFinite(price) || price < 0) {
+    throw new ProductFeedFormatError(
+      `Product ${index + 1}: name, category, platform and a non-negative price are required`,
+    );
+  }
+  const commission = text(record.commission);
+  const popularity = Number(text(record.popularity) ?? 0.5);
+  return {
+    sourceId,
+    productId: text(record.id) ?? `${platform}:${name.toLowerCase()}`,
+    name,
+    category,
+    platform,
+    price: {
+      amount: price,
+      currency: (text(record.currency) ?? "USD").toUpperCase(),
+    },
+    commission: commission ? parseCommissionRange(commission) : null,
+    url: text(record.url) ?? text(record.link),
+    imageUrl: text(record.image) ?? text(record.image_url),
+    brand: text(record.brand),
+    gtin: text(record.gtin),
+    availability: text(record.availability)
+      ? normalizeAvailability(text(record.availability)!)
+      : "in_stock",
+    regions: list(record.regions),
+    keywords: list(record.keywords),
+    popularity: Number.isFinite(popularity)
+      ? Math.min(1, Math.max(0, popularity))
+      : 0.5,
+  };
+}
+
+// Accepts a JSON array (or { products: [...] }) or a CSV with a header row
+// using the same field names.
+export function parseProductFeed(
+  content: string,
+  sourceId: string,
+): CatalogProduct[] {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    const parsed = JSON.parse(trimmed);
+    const records: FeedRecord[] = Array.isArray(parsed)
+      ? parsed
+      : parsed.products;
+    if (!Array.isArray(records)) {
+      throw new ProductFeedFormatError(
+        "Expected an array of products or { products: [...] }",
+      );
+    }
+    return records.map((record, index) => toProduct(record, index, sourceId));
+  }
+  const { records } = parseCsvRecords(trimmed, 3);
+  return records.map((record, index) => toProduct(record, index, sourceId));
+}
+
+// Reads products from a local JSON or CSV file. The file is re-read when it
+// changes on disk, so a feed can be replaced without restarting the bot.
+export class LocalFeedProductSource implements ProductSource {
+  readonly id: string;
+  readonly description: string;
+  private cached: { mtimeMs: number; products: CatalogProduct[] } | undefined;
+
+  constructor(
+    private readonly filePath: string,
+    id = "local-feed",
+  ) {
+    this.id = id;
+    this.description = `Local product feed (${path.basename(filePath)})`;
+  }
+
+  isEnabled(): boolean {
+    return existsSync(this.filePath);
+  }
+
+  private async products(): Promise<CatalogProduct[]> {
+    const { mtimeMs } = await stat(this.filePath);
+    if (!this.cached || this.cached.mtimeMs !== mtimeMs) {
+      const content = await readFile(this.filePath, "utf8");
+      this.cached = { mtimeMs, products: parseProductFeed(content, this.id) };
+    }
+    return this.cached.products;
+  }
+
+  async platforms(): Promise<string[]> {
+    return [
+      ...new Set((await this.products()).map((product) => product.platform)),
+    ];
+  }
+
+  async categories(): Promise<string[]> {
+    return [
+      ...new Set((await this.products()).map((product) => product.category)),
+    ];
+  }
+
+  async search(query: ProductQuery): Promise<CatalogProduct[]> {
+    return (await this.products()).filter(
+      (product) =>
+        categoryMatches(product.category, query.category) &&
+        (!query.platforms || query.platforms.includes(product.platform)) &&
+        regionMatches(product.regions, query.region) &&
+        (!query.keyword || keywordScore(product, query.keyword) > 0),
+    );
+  }
+}
+
+export function createLocalFeedSource(): LocalFeedProductSource {
+  return new LocalFeedProductSource(
+    process.env.PRODUCT_FEED_FILE ?? DEFAULT_PRODUCT_FEED_FILE,
+  );
+}
@@ -0,0 +1,63 @@
+import {
+  listMerchantCategories,
+  listMerchantPlatforms,
+  searchMerchantProducts,
+} from "../storage/products";
+import {
+  type CatalogProduct,
+  type ProductQuery,
+  type ProductSource,
+  categoryMatches,
+  keywordScore,
+} from "./source";
+
+// Real SKUs from merchant datafeeds ingested into Postgres
+// (see src/mastra/imports/merchantFeed.ts).
+export const merchantCatalogSource: ProductSource = {
+  id: "merchant-feeds",
+  description: "Merchant datafeeds ingested into the product catalog",
+
+  isEnabled: () => true,
+
+  platforms: listMerchantPlatforms,
+
+  categories: listMerchantCategories,
+
+  async search(query: ProductQuery): Promise<CatalogProduct[]> {
+    const rows = await searchMerchantProducts({
+      category: query.category,
+      keyword: query.keyword,
+      platforms: query.platforms,
+    });
+    return rows
+      .map((row): CatalogProduct => ({
+        sourceId: this.id,
+        productId: `${row.merchant}:${row.sku}`,
+        name: row.title,
+        category: row.category ?? "",
+        platform: row.platform,
+        price: { amount: row.priceAmount, currency: row.priceCurrency },
+        commission:
+          row.commissionMinPercent !== null && row.commissionMaxPercent !== null
+            ? {
+                minPercent: row.commissionMinPercent,
+                maxPercent: row.commissionMaxPercent,
+              }
+            : null,
+        url: row.link,
+        imageUrl: row.imageUrl,
+        brand: row.brand,
+        gtin: row.gtin,
+        availability: row.availability,
+        // Feeds do not say where a merchant ships; treat them as global.
+        regions: [],
+        keywords: [],
+        popularity: 0.5,
+      }))
+      .filter(
+        (product) =>
+          categoryMatches(product.category, query.category) &&
+          (!query.keyword || keywordScore(product, query.keyword) > 0),
+      );
+  },
+};
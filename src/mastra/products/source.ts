@@ -0,0 +1,165 @@
+import type { Money } from "../currency/money";
+import type { CommissionRange } from "../currency/commission";
+import type { ProductAvailability } from "../storage/products";
+
+export type PriceBand = "budget" | "mid-range" | "premium";
+
+export interface ProductQuery {
+  category: string;
+  keyword?: string;
+  priceBand?: PriceBand;
+  region?: string;
+  platforms?: string[];
+  limit?: number;
+  // Number of top-ranked products to skip, for the next page of results.
+  offset?: number;
+}
+
+export interface CatalogProduct {
+  sourceId: string;
+  productId: string;
+  name: string;
+  category: string;
+  platform: string;
+  price: Money;
+  commission: CommissionRange | null;
+  url: string | null;
+  imageUrl: string | null;
+  brand: string | null;
+  gtin: string | null;
+  availability: ProductAvailability;
+  regions: string[];
+  keywords: string[];
+  // Relative popularity within the source (0-1), used as a ranking signal.
+  popularity: number;
+}
+
+// A catalog provider. Providers declare which platforms and categories they
+// can answer for so the catalog can tell "nothing matched" apart from
+// "nobody covers this"; search receives the query already narrowed to the
+// platforms this provider was picked for.
+export interface ProductSource {
+  id: string;
+  description: string;
+  isEnabled(): boolean;
+  platforms(): Promise<string[]>;
+  categories(): Promise<string[]>;
+  search(query: ProductQuery): Promise<CatalogProduct[]>;
+}
+
+// Price bands are defined in USD so they mean the same thing in every region.
+export const PRICE_BANDS_USD: Record<PriceBand, { min: number; max: number }> =
+  {
+    budget: { min: 0, max: 25 },
+    "mid-range": { min: 25, max: 75 },
+    premium: { min: 75, max: Number.POSITIVE_INFINITY },
+  };
+
+export function parsePriceBand(
+  value: string | undefined,
+): PriceBand | undefined {
+  const normalized = value
+    ?.trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-");
+  if (!normalized) {
+    return undefined;
+  }
+  if (normalized === "mid" || normalized === "midrange") {
+    return "mid-range";
+  }
+  return normalized in PRICE_BANDS_USD ? (normalized as PriceBand) : undefined;
+}
+
+// Google Shopping values ("in_stock", older "in stock", "backorder") and
+// the looser spellings hand-made feeds use.
+export function normalizeAvailability(value: string): ProductAvailability {
+  const normalized = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+  if (["in_stock", "instock", "available", "yes"].includes(normalized)) {
+    return "in_stock";
+  }
+  if (
+    ["out_of_stock", "outofstock", "sold_out", "unavailable", "no"].includes(
+      normalized,
+    )
+  ) {
+    return "out_of_stock";
+  }
+  if (
+    ["preorder", "pre_order", "backorder", "available_for_order"].includes(
+      normalized,
+    )
+  ) {
+    return "preorder";
+  }
+  return "unknown";
+}
+
+const REGION_ALIASES: Record<string, string> = {
+  in: "india",
+  usa: "us",
+  "united-states": "us",
+  gb: "uk",
+  "united-kingdom": "uk",
+  eu: "europe",
+};
+
+export function normalizeRegion(value: string): string {
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, "-");
+  return REGION_ALIASES[normalized] ?? normalized;
+}
+
+export function normalizeCategory(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Feeds use either flat names ("home") or taxonomy paths
+// ("Home & Garden > Kitchen"); a query matches any segment of the path.
+export function categoryMatches(
+  productCategory: string,
+  query: string,
+): boolean {
+  const wanted = normalizeCategory(query);
+  const path = normalizeCategory(productCategory);
+  return (
+    path === wanted ||
+    path.split(/\s*[>/]\s*/).some((segment) => segment === wanted)
+  );
+}
+
+export function regionMatches(
+  productRegions: string[],
+  region?: string,
+): boolean {
+  if (!region || normalizeRegion(region) === "global") {
+    return true;
+  }
+  const wanted = normalizeRegion(region);
+  return (
+    productRegions.length === 0 ||
+    productRegions.some((productRegion) => {
+      const normalized = normalizeRegion(productRegion);
+      return normalized === "global" || normalized === wanted;
+    })
+  );
+}
+
+// Number of query words found in the product's name, brand or keywords.
+export function keywordScore(
+  product: CatalogProduct,
+  keyword?: string,
+): number {
+  if (!keyword) {
+    return 0;
+  }
+  const haystack = [product.name, product.brand ?? "", ...product.keywords]
+    .join(" ")
+    .toLowerCase();
+  return keyword
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((word) => word && haystack.includes(word)).length;
+}
@@ -0,0 +1,50 @@
+import { VaultKeyError, signToken, verifyToken } from "./vault";
+
+// API keys are typed into a form served by us rather than into the chat, so
+// they never become part of the conversation the agent remembers. The link to
+// the form carries a signed token naming the account and expires quickly.
+export const CREDENTIALS_FORM_PATH = "/accounts/credentials";
+
+const FORM_LINK_TTL_MS = 30 * 60 * 1000;
+
+export interface CredentialsFormTarget {
+  resourceId: string;
+  network: string;
+  accountId: string;
+}
+
+function publicBaseUrl(): string {
+  if (process.env.PUBLIC_BASE_URL) {
+    return process.env.PUBLIC_BASE_URL.replace(/\/+$/, "");
+  }
+  if (process.env.REPLIT_DOMAINS) {
+    return `https://${process.env.REPLIT_DOMAINS.split(",")[0]}`;
+  }
+  return "http://localhost:5000";
+}
+
+export function credentialsFormUrl(target: CredentialsFormTarget): string {
+  const token = signToken(
+    {
+      resourceId: target.resourceId,
+      network: target.network,
+      accountId: target.accountId,
+    },
+    new Date(Date.now() + FORM_LINK_TTL_MS),
+  );
+  return `${publicBaseUrl()}${CREDENTIALS_FORM_PATH}?token=${encodeURIComponent(token)}`;
+}
+
+export function readCredentialsFormToken(
+  token: string | undefined,
+): CredentialsFormTarget | null {
+  try {
+    return token ? verifyToken<CredentialsFormTarget>(token) : null;
+  } catch (error) {
+    // Without a vault key no token was ever issued.
+    if (error instanceof VaultKeyError) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,21 @@
+import { timingSafeEqual } from "node:crypto";
+
+// Compares a credential from a request with the expected value in constant
+// time, so response timing does not reveal how much of it was right.
+export function tokensMatch(
+  given: string | undefined,
+  expected: string,
+): boolean {
+  if (!given) {
+    return false;
+  }
+  const left = Buffer.from(given);
+  const right = Buffer.from(expected);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// The token from an "Authorization: Bearer <token>" header.
+export function bearerToken(header: string | undefined): string | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header ?? "");
+  return match?.[1];
+}
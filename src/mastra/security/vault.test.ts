@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { before, describe, test } from "node:test";
+
+process.env.AFFILIATE_VAULT_KEY = randomBytes(32).toString("hex");
+
+const vault = await import("./vault");
+
+describe("vault", () => {
+  let sealed: string;
+
+  before(() => {
+    sealed = vault.encryptSecret("sk_live_0123456789abcdef", "account:1");
+  });
+
+  test("secrets only decrypt in the context they were sealed for", () => {
+    assert.equal(
+      vault.decryptSecret(sealed, "account:1"),
+      "sk_live_0123456789abcdef",
+    );
+    assert.throws(
+      () => vault.decryptSecret(sealed, "account:2"),
+      vault.VaultKeyError,
+    );
+  });
+
+  test("signed tokens round-trip until they expire", () => {
+    const token = vault.signToken(
+      { accountId: "mysite-21" },
+      new Date(Date.now() + 60_000),
+    );
+    assert.deepEqual(vault.verifyToken(token), { accountId: "mysite-21" });
+
+    const [body] = token.split(".");
+    assert.equal(vault.verifyToken(`${body}.forged`), null);
+    assert.equal(
+      vault.verifyToken(
+        vault.signToken({ accountId: "mysite-21" }, new Date(Date.now() - 1)),
+      ),
+      null,
+    );
+  });
+});
+
+describe("redactSecrets", () => {
+  test("masks fields named like secrets", () => {
+    assert.deepEqual(
+      vault.redactSecrets({
+        network: "impact",
+        apiKey: "IRabcdefgh12345678",
+        nested: { api_secret: "shh-shh-shh" },
+        hasApiKey: true,
+      }),
+      {
+        network: "impact",
+        apiKey: "••••5678",
+        nested: { api_secret: "••••" },
+        hasApiKey: true,
+      },
+    );
+  });
+
+  test("masks credentials in text", () => {
+    assert.equal(
+      vault.redactSecrets(
+        "GET /accounts/credentials?token=eyJhbGciOi.abc123 Authorization: Bearer abcdef123456",
+      ),
+      "GET /accounts/credentials?token=•••• Authorization: Bearer ••••",
+    );
+  });
+
+  test("masks secrets this process has sealed wherever they appear", () => {
+    assert.equal(
+      vault.redactSecrets("the key is sk_live_0123456789abcdef"),
+      "the key is ••••cdef",
+    );
+  });
+});
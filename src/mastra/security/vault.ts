@@ -0,0 +1,182 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+} from "node:crypto";
+
+import { tokensMatch } from "./tokens";
+
+// Raised when secrets cannot be stored or read because the vault key is
+// missing or wrong.
+export class VaultKeyError extends Error {}
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+if (!process.env.AFFILIATE_VAULT_KEY) {
+  console.warn(
+    "AFFILIATE_VAULT_KEY is not set, affiliate API keys cannot be stored until it is configured.",
+  );
+}
+
+// 32 bytes, given as 64 hex characters or base64.
+function vaultKey(): Buffer {
+  const raw = process.env.AFFILIATE_VAULT_KEY?.trim();
+  if (!raw) {
+    throw new VaultKeyError(
+      "Storing API keys is not enabled on this server (AFFILIATE_VAULT_KEY is not set)",
+    );
+  }
+  const key = /^[0-9a-f]{64}$/i.test(raw)
+    ? Buffer.from(raw, "hex")
+    : Buffer.from(raw, "base64");
+  if (key.length !== 32) {
+    throw new VaultKeyError(
+      "AFFILIATE_VAULT_KEY must be 32 bytes (hex or base64)",
+    );
+  }
+  return key;
+}
+
+// Secrets seen by this process, so they can be scrubbed from log lines.
+const knownSecrets = new Set<string>();
+
+function remember(secret: string) {
+  // Very short values would mask unrelated text.
+  if (secret.length >= 6) {
+    knownSecrets.add(secret);
+  }
+}
+
+// Encrypts `secret` bound to `context` (e.g. the owner and network), so a
+// ciphertext copied to another row does not decrypt. The result is
+// "v1:<iv>:<tag>:<ciphertext>" in base64.
+export function encryptSecret(secret: string, context: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, vaultKey(), iv);
+  cipher.setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([
+    cipher.update(secret, "utf8"),
+    cipher.final(),
+  ]);
+  remember(secret);
+  return [
+    VERSION,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+export function decryptSecret(sealed: string, context: string): string {
+  const [version, iv, tag, ciphertext] = sealed.split(":");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new VaultKeyError("Stored secret has an unknown format");
+  }
+  try {
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      vaultKey(),
+      Buffer.from(iv, "base64"),
+    );
+    decipher.setAAD(Buffer.from(context));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    const secret = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+    remember(secret);
+    return secret;
+  } catch (error) {
+    if (error instanceof VaultKeyError) {
+      throw error;
+    }
+    throw new VaultKeyError(
+      "Stored secret could not be decrypted, was AFFILIATE_VAULT_KEY changed?",
+    );
+  }
+}
+
+// Signs `payload` so it can be handed out in a link and trusted when it comes
+// back before `expiresAt`: "<payload>.<signature>" in base64url. The signing
+// key is derived from the vault key, so only this server can issue tokens.
+export function signToken(payload: object, expiresAt: Date): string {
+  const body = Buffer.from(
+    JSON.stringify({ ...payload, exp: expiresAt.getTime() }),
+  ).toString("base64url");
+  return `${body}.${tokenSignature(body)}`;
+}
+
+// The payload of a token from `signToken`, or null when it was tampered with
+// or has expired.
+export function verifyToken<T extends object>(token: string): T | null {
+  const [body, signature] = token.split(".");
+  if (!body || !tokensMatch(signature, tokenSignature(body))) {
+    return null;
+  }
+  const { exp, ...payload } = JSON.parse(
+    Buffer.from(body, "base64url").toString("utf8"),
+  );
+  return typeof exp === "number" && exp > Date.now() ? (payload as T) : null;
+}
+
+function tokenSignature(body: string): string {
+  const key = createHmac("sha256", vaultKey()).update("token").digest();
+  return createHmac("sha256", key).update(body).digest("base64url");
+}
+
+// Shows just enough to recognise a secret: "••••3f9a".
+export function maskSecret(secret: string): string {
+  return secret.length >= 12 ? `••••${secret.slice(-4)}` : "••••";
+}
+
+// Fields whose string values are never logged, whatever they contain.
+const SECRET_FIELD =
+  /(?:api_?key|api_?secret|secret|password|token|authorization)$/i;
+
+// Credentials recognisable by their shape anywhere in a text, e.g. a bearer
+// header or "token=..." in a URL; the label before the value is kept.
+const SECRET_PATTERNS = [
+  /(\bBearer\s+)[\w.~+/=-]{6,}/gi,
+  /(\b(?:api_?key|api_?secret|access_?token|token|secret|password)["']?\s*[:=]\s*["']?)[^\s"'&,;}]{6,}/gi,
+];
+
+function redactText(text: string): string {
+  for (const secret of knownSecrets) {
+    if (text.includes(secret)) {
+      text = text.split(secret).join(maskSecret(secret));
+    }
+  }
+  return SECRET_PATTERNS.reduce(
+    (redacted, pattern) => redacted.replace(pattern, "$1••••"),
+    text,
+  );
+}
+
+// Masks secrets inside strings, arrays and plain objects: values of fields
+// named like a secret, text shaped like a credential, and secrets this
+// process has encrypted or decrypted.
+export function redactSecrets<T>(value: T): T {
+  if (typeof value === "string") {
+    return redactText(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item)) as T;
+  }
+  if (
+    value &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        typeof item === "string" && SECRET_FIELD.test(key)
+          ? maskSecret(item)
+          : redactSecrets(item),
+      ]),
+    ) as T;
+  }
+  return value;
+}
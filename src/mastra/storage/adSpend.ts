@@ -0,0 +1,181 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+import { ensureFxRatesTable, usdRateSql } from "./fxRates";
+
+export type AdSpendSource = "manual" | "api" | "csv";
+
+export interface AdSpendInput {
+  campaignName: string;
+  // Where the money went: "facebook", "google", "instagram", ...
+  channel: string;
+  // Calendar day, "YYYY-MM-DD".
+  spendDate: string;
+  amount: number;
+  currency: string;
+}
+
+export interface AdSpendEntry extends AdSpendInput {
+  id: number;
+  source: AdSpendSource;
+  updatedAt: Date;
+}
+
+export interface AdSpendFilter {
+  resourceId: string;
+  from: Date;
+  to: Date;
+  // Reporting currency the spend is converted to.
+  currency: string;
+  campaignName?: string;
+}
+
+export interface AdSpendTotals {
+  spend: number;
+  // Entries left out of the total because no FX rate was available.
+  unconverted: number;
+}
+
+// Raised when one batch has the same campaign, channel and day in two
+// currencies, which cannot be added up.
+export class AdSpendCurrencyError extends Error {}
+
+export const ensureAdSpendTable = () =>
+  ensureSchema(
+    "ad_spend",
+    `CREATE TABLE IF NOT EXISTS ad_spend (
+      id SERIAL PRIMARY KEY,
+      resource_id TEXT NOT NULL,
+      campaign_name TEXT NOT NULL,
+      channel TEXT NOT NULL,
+      spend_date DATE NOT NULL,
+      amount NUMERIC(14, 2) NOT NULL CHECK (amount >= 0),
+      currency TEXT NOT NULL,
+      source TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS ad_spend_day_idx
+      ON ad_spend (resource_id, LOWER(campaign_name), channel, spend_date);`,
+  );
+
+function spendKey(entry: AdSpendInput): string {
+  return [
+    entry.campaignName.toLowerCase(),
+    entry.channel,
+    entry.spendDate,
+  ].join("\u0000");
+}
+
+// Stores the spend of each campaign, channel and day. Rows for the same day
+// within one batch are added up (exports often split a day by ad set), while
+// a later batch replaces the day's amount, so re-importing a report or
+// correcting a manual entry never counts spend twice.
+export async function recordAdSpend(
+  resourceId: string,
+  entries: AdSpendInput[],
+  source: AdSpendSource,
+): Promise<{ created: number; updated: number }> {
+  if (entries.length === 0) {
+    return { created: 0, updated: 0 };
+  }
+  await ensureAdSpendTable();
+
+  const byDay = new Map<string, AdSpendInput>();
+  for (const entry of entries) {
+    const normalized = { ...entry, channel: entry.channel.toLowerCase() };
+    const key = spendKey(normalized);
+    const existing = byDay.get(key);
+    if (existing && existing.currency !== normalized.currency) {
+      throw new AdSpendCurrencyError(
+        `Spend for ${entry.campaignName} on ${entry.channel} for ${entry.spendDate} is in both ${existing.currency} and ${entry.currency}`,
+      );
+    }
+    byDay.set(
+      key,
+      existing
+        ? { ...existing, amount: existing.amount + normalized.amount }
+        : normalized,
+    );
+  }
+
+  const { pgp, db } = sharedPostgresStorage;
+  const columns = new pgp.helpers.ColumnSet(
+    [
+      { name: "resource_id", prop: "resourceId" },
+      { name: "campaign_name", prop: "campaignName" },
+      "channel",
+      { name: "spend_date", prop: "spendDate" },
+      "amount",
+      "currency",
+      "source",
+    ],
+    { table: "ad_spend" },
+  );
+  const rows = [...byDay.values()].map((entry) => ({
+    ...entry,
+    amount: Math.round(entry.amount * 100) / 100,
+    resourceId,
+    source,
+  }));
+  const results = await db.many(
+    `${pgp.helpers.insert(rows, columns)}
+      ON CONFLICT (resource_id, LOWER(campaign_name), channel, spend_date) DO UPDATE SET
+        amount = EXCLUDED.amount,
+        currency = EXCLUDED.currency,
+        source = EXCLUDED.source,
+        updated_at = NOW()
+      RETURNING (xmax = 0) AS created`,
+  );
+  const created = results.filter((row) => row.created).length;
+  return { created, updated: results.length - created };
+}
+
+// A day counts towards a window when it starts inside it, so adjacent
+// windows never share a day.
+const DAY_IN_WINDOW = `(s.spend_date::timestamp AT TIME ZONE 'UTC') >= $<from>
+  AND (s.spend_date::timestamp AT TIME ZONE 'UTC') < $<to>`;
+
+export async function getAdSpendTotals(
+  filter: AdSpendFilter,
+): Promise<AdSpendTotals> {
+  await Promise.all([ensureAdSpendTable(), ensureFxRatesTable()]);
+  const row = await sharedPostgresStorage.db.one(
+    `SELECT
+        COALESCE(SUM(s.amount * fx.factor), 0)::float8 AS spend,
+        COUNT(*) FILTER (WHERE fx.factor IS NULL)::int AS unconverted
+      FROM ad_spend s
+      CROSS JOIN LATERAL (
+        SELECT (${usdRateSql("$<currency>::text", "s.spend_date")})
+          / NULLIF(${usdRateSql("s.currency", "s.spend_date")}, 0) AS factor
+      ) fx
+      WHERE s.resource_id = $<resourceId> AND ${DAY_IN_WINDOW}
+        ${filter.campaignName ? "AND LOWER(s.campaign_name) = LOWER($<campaignName>)" : ""}`,
+    filter,
+  );
+  return { spend: row.spend, unconverted: row.unconverted };
+}
+
+export async function listAdSpend(
+  resourceId: string,
+  filter: { campaignName?: string; limit?: number } = {},
+): Promise<AdSpendEntry[]> {
+  await ensureAdSpendTable();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT *, to_char(spend_date, 'YYYY-MM-DD') AS spend_date_text
+      FROM ad_spend
+      WHERE resource_id = $<resourceId>
+        ${filter.campaignName ? "AND LOWER(campaign_name) = LOWER($<campaignName>)" : ""}
+      ORDER BY spend_date DESC, campaign_name, channel
+      LIMIT $<limit>`,
+    { ...filter, resourceId, limit: filter.limit ?? 50 },
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    campaignName: row.campaign_name,
+    channel: row.channel,
+    spendDate: row.spend_date_text,
+    amount: Number(row.amount),
+    currency: row.currency,
+    source: row.source,
+    updatedAt: row.updated_at,
+  }));
+}
@@ -0,0 +1,176 @@
+import { encryptSecret, maskSecret } from "../security/vault";
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+// A creator's membership in an affiliate program. Secrets are never part of
+// this record; only a masked hint is kept next to the ciphertext.
+export interface AffiliateAccount {
+  id: number;
+  resourceId: string;
+  network: string;
+  // Associate tag, affid, publisher or campaign id, depending on the network.
+  accountId: string;
+  label: string | null;
+  subIdTemplate: string | null;
+  apiKeyHint: string | null;
+  apiSecretHint: string | null;
+  isDefault: boolean;
+  createdAt: Date;
+}
+
+export interface AffiliateAccountInput {
+  network: string;
+  accountId: string;
+  label?: string | null;
+  subIdTemplate?: string | null;
+  apiKey?: string | null;
+  apiSecret?: string | null;
+  makeDefault?: boolean;
+}
+
+export const ensureAffiliateAccountsTable = () =>
+  ensureSchema(
+    "affiliate_accounts",
+    `CREATE TABLE IF NOT EXISTS affiliate_accounts (
+      id SERIAL PRIMARY KEY,
+      resource_id TEXT NOT NULL,
+      network TEXT NOT NULL,
+      account_id TEXT NOT NULL,
+      label TEXT,
+      sub_id_template TEXT,
+      api_key_encrypted TEXT,
+      api_key_hint TEXT,
+      api_secret_encrypted TEXT,
+      api_secret_hint TEXT,
+      is_default BOOLEAN NOT NULL DEFAULT FALSE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (resource_id, network, account_id)
+    );`,
+  );
+
+// Ciphertexts only decrypt for the owner and network they were stored for.
+function secretContext(resourceId: string, network: string): string {
+  return `affiliate-account:${resourceId}:${network}`;
+}
+
+function toAccount(row: any): AffiliateAccount {
+  return {
+    id: row.id,
+    resourceId: row.resource_id,
+    network: row.network,
+    accountId: row.account_id,
+    label: row.label,
+    subIdTemplate: row.sub_id_template,
+    apiKeyHint: row.api_key_hint,
+    apiSecretHint: row.api_secret_hint,
+    isDefault: row.is_default,
+    createdAt: row.created_at,
+  };
+}
+
+// Adds the account, or updates it when the same ID is added again; secrets
+// and settings left out keep their stored values. The first account of a
+// network, or one added with `makeDefault`, is used for new links.
+export async function saveAffiliateAccount(
+  resourceId: string,
+  input: AffiliateAccountInput,
+): Promise<AffiliateAccount> {
+  await ensureAffiliateAccountsTable();
+  const context = secretContext(resourceId, input.network);
+  const seal = (secret: string | null | undefined) =>
+    secret ? encryptSecret(secret, context) : null;
+  const hint = (secret: string | null | undefined) =>
+    secret ? maskSecret(secret) : null;
+
+  return sharedPostgresStorage.db.tx(async (t) => {
+    if (input.makeDefault) {
+      await t.none(
+        `UPDATE affiliate_accounts SET is_default = FALSE, updated_at = NOW()
+          WHERE resource_id = $<resourceId> AND network = $<network> AND account_id <> $<accountId>`,
+        { resourceId, network: input.network, accountId: input.accountId },
+      );
+    }
+    const row = await t.one(
+      `INSERT INTO affiliate_accounts (
+        resource_id, network, account_id, label, sub_id_template,
+        api_key_encrypted, api_key_hint, api_secret_encrypted, api_secret_hint, is_default
+      ) VALUES (
+        $<resourceId>, $<network>, $<accountId>, $<label>, $<subIdTemplate>,
+        $<apiKey>, $<apiKeyHint>, $<apiSecret>, $<apiSecretHint>,
+        $<makeDefault> OR NOT EXISTS (
+          SELECT 1 FROM affiliate_accounts
+            WHERE resource_id = $<resourceId> AND network = $<network>
+        )
+      )
+      ON CONFLICT (resource_id, network, account_id) DO UPDATE SET
+        label = COALESCE(EXCLUDED.label, affiliate_accounts.label),
+        sub_id_template = COALESCE(EXCLUDED.sub_id_template, affiliate_accounts.sub_id_template),
+        api_key_encrypted = COALESCE(EXCLUDED.api_key_encrypted, affiliate_accounts.api_key_encrypted),
+        api_key_hint = COALESCE(EXCLUDED.api_key_hint, affiliate_accounts.api_key_hint),
+        api_secret_encrypted = COALESCE(EXCLUDED.api_secret_encrypted, affiliate_accounts.api_secret_encrypted),
+        api_secret_hint = COALESCE(EXCLUDED.api_secret_hint, affiliate_accounts.api_secret_hint),
+        is_default = affiliate_accounts.is_default OR $<makeDefault>,
+        updated_at = NOW()
+      RETURNING *`,
+      {
+        resourceId,
+        network: input.network,
+        accountId: input.accountId,
+        label: input.label ?? null,
+        subIdTemplate: input.subIdTemplate ?? null,
+        apiKey: seal(input.apiKey),
+        apiKeyHint: hint(input.apiKey),
+        apiSecret: seal(input.apiSecret),
+        apiSecretHint: hint(input.apiSecret),
+        makeDefault: input.makeDefault ?? false,
+      },
+    );
+    return toAccount(row);
+  });
+}
+
+export async function listAffiliateAccounts(
+  resourceId: string,
+  network?: string,
+): Promise<AffiliateAccount[]> {
+  await ensureAffiliateAccountsTable();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT * FROM affiliate_accounts
+      WHERE resource_id = $<resourceId>
+        ${network ? "AND network = $<network>" : ""}
+      ORDER BY network, is_default DESC, created_at`,
+    { resourceId, network },
+  );
+  return rows.map(toAccount);
+}
+
+// The account new links of a network are credited to: the default one, or
+// the most recently added when the default was removed.
+export async function findDefaultAccounts(
+  resourceId: string,
+): Promise<AffiliateAccount[]> {
+  await ensureAffiliateAccountsTable();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT DISTINCT ON (network) * FROM affiliate_accounts
+      WHERE resource_id = $<resourceId>
+      ORDER BY network, is_default DESC, created_at DESC`,
+    { resourceId },
+  );
+  return rows.map(toAccount);
+}
+
+// Removes one account, or every account of the network when no ID is given.
+export async function removeAffiliateAccount(
+  resourceId: string,
+  network: string,
+  accountId?: string,
+): Promise<number> {
+  await ensureAffiliateAccountsTable();
+  const result = await sharedPostgresStorage.db.result(
+    `DELETE FROM affiliate_accounts
+      WHERE resource_id = $<resourceId> AND network = $<network>
+        ${accountId ? "AND account_id = $<accountId>" : ""}`,
+    { resourceId, network, accountId },
+  );
+  return result.rowCount;
+}
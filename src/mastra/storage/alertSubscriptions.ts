@@ -0,0 +1,195 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+export type AlertChannel = "telegram" | "slack";
+
+export interface AlertSubscription {
+  id: number;
+  resourceId: string;
+  channel: AlertChannel;
+  // Telegram chat id or Slack channel id.
+  destination: string;
+  minUrgency: string;
+  // Local hours [quietStart, quietEnd) in `timezone` during which nothing is
+  // sent; the range may wrap past midnight (e.g. 22 to 7).
+  quietStart: number | null;
+  quietEnd: number | null;
+  timezone: string;
+  snoozedUntil: Date | null;
+  active: boolean;
+  createdAt: Date;
+}
+
+export interface SubscriptionSettings {
+  minUrgency?: string;
+  quietStart?: number | null;
+  quietEnd?: number | null;
+  timezone?: string;
+}
+
+export const ensureAlertSubscriptionTables = () =>
+  ensureSchema(
+    "alert_subscriptions",
+    `CREATE TABLE IF NOT EXISTS alert_subscriptions (
+      id SERIAL PRIMARY KEY,
+      resource_id TEXT NOT NULL,
+      channel TEXT NOT NULL,
+      destination TEXT NOT NULL,
+      min_urgency TEXT NOT NULL DEFAULT 'medium',
+      quiet_start SMALLINT,
+      quiet_end SMALLINT,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      snoozed_until TIMESTAMPTZ,
+      active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (resource_id, channel, destination)
+    );
+    CREATE TABLE IF NOT EXISTS sent_alerts (
+      subscription_id INTEGER NOT NULL REFERENCES alert_subscriptions (id) ON DELETE CASCADE,
+      alert_key TEXT NOT NULL,
+      sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (subscription_id, alert_key)
+    );`,
+  );
+
+function toSubscription(row: any): AlertSubscription {
+  return {
+    id: row.id,
+    resourceId: row.resource_id,
+    channel: row.channel,
+    destination: row.destination,
+    minUrgency: row.min_urgency,
+    quietStart: row.quiet_start,
+    quietEnd: row.quiet_end,
+    timezone: row.timezone,
+    snoozedUntil: row.snoozed_until,
+    active: row.active,
+    createdAt: row.created_at,
+  };
+}
+
+// Subscribing again reactivates the subscription, clears any snooze and
+// applies the given settings; settings left out keep their stored values.
+export async function subscribe(
+  resourceId: string,
+  channel: AlertChannel,
+  destination: string,
+  settings: SubscriptionSettings = {},
+): Promise<AlertSubscription> {
+  await ensureAlertSubscriptionTables();
+  const row = await sharedPostgresStorage.db.one(
+    `INSERT INTO alert_subscriptions (
+      resource_id, channel, destination, min_urgency, quiet_start, quiet_end, timezone
+    ) VALUES (
+      $<resourceId>, $<channel>, $<destination>, COALESCE($<minUrgency>, 'medium'),
+      $<quietStart>, $<quietEnd>, COALESCE($<timezone>, 'UTC')
+    )
+    ON CONFLICT (resource_id, channel, destination) DO UPDATE SET
+      min_urgency = COALESCE($<minUrgency>, alert_subscriptions.min_urgency),
+      quiet_start = CASE WHEN $<setQuiet> THEN $<quietStart> ELSE alert_subscriptions.quiet_start END,
+      quiet_end = CASE WHEN $<setQuiet> THEN $<quietEnd> ELSE alert_subscriptions.quiet_end END,
+      timezone = COALESCE($<timezone>, alert_subscriptions.timezone),
+      snoozed_until = NULL,
+      active = TRUE,
+      updated_at = NOW()
+    RETURNING *`,
+    {
+      resourceId,
+      channel,
+      destination,
+      minUrgency: settings.minUrgency ?? null,
+      setQuiet: settings.quietStart !== undefined,
+      quietStart: settings.quietStart ?? null,
+      quietEnd: settings.quietEnd ?? null,
+      timezone: settings.timezone ?? null,
+    },
+  );
+  return toSubscription(row);
+}
+
+export async function listSubscriptions(
+  resourceId: string,
+): Promise<AlertSubscription[]> {
+  await ensureAlertSubscriptionTables();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    "SELECT * FROM alert_subscriptions WHERE resource_id = $<resourceId> ORDER BY created_at",
+    { resourceId },
+  );
+  return rows.map(toSubscription);
+}
+
+export async function listActiveSubscriptions(): Promise<AlertSubscription[]> {
+  await ensureAlertSubscriptionTables();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    "SELECT * FROM alert_subscriptions WHERE active ORDER BY resource_id, id",
+  );
+  return rows.map(toSubscription);
+}
+
+// Applies to every subscription of the user when no destination is given.
+export async function unsubscribe(
+  resourceId: string,
+  channel?: AlertChannel,
+  destination?: string,
+): Promise<number> {
+  await ensureAlertSubscriptionTables();
+  const result = await sharedPostgresStorage.db.result(
+    `UPDATE alert_subscriptions SET active = FALSE, updated_at = NOW()
+      WHERE resource_id = $<resourceId> AND active
+        ${channel ? "AND channel = $<channel>" : ""}
+        ${destination ? "AND destination = $<destination>" : ""}`,
+    { resourceId, channel, destination },
+  );
+  return result.rowCount;
+}
+
+export async function snooze(
+  resourceId: string,
+  until: Date | null,
+): Promise<number> {
+  await ensureAlertSubscriptionTables();
+  const result = await sharedPostgresStorage.db.result(
+    `UPDATE alert_subscriptions SET snoozed_until = $<until>, updated_at = NOW()
+      WHERE resource_id = $<resourceId> AND active`,
+    { resourceId, until },
+  );
+  return result.rowCount;
+}
+
+// Keys from `alertKeys` that were already delivered to this subscription.
+export async function findSentAlertKeys(
+  subscriptionId: number,
+  alertKeys: string[],
+): Promise<Set<string>> {
+  if (alertKeys.length === 0) {
+    return new Set();
+  }
+  await ensureAlertSubscriptionTables();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT alert_key FROM sent_alerts
+      WHERE subscription_id = $<subscriptionId> AND alert_key IN ($<alertKeys:csv>)`,
+    { subscriptionId, alertKeys },
+  );
+  return new Set(rows.map((row) => row.alert_key));
+}
+
+export async function recordSentAlerts(
+  subscriptionId: number,
+  alertKeys: string[],
+): Promise<void> {
+  if (alertKeys.length === 0) {
+    return;
+  }
+  await ensureAlertSubscriptionTables();
+  const { pgp, db } = sharedPostgresStorage;
+  await db.none(
+    `${pgp.helpers.insert(
+      alertKeys.map((alertKey) => ({
+        subscription_id: subscriptionId,
+        alert_key: alertKey,
+      })),
+      ["subscription_id", "alert_key"],
+      "sent_alerts",
+    )} ON CONFLICT DO NOTHING`,
+  );
+}
@@ -0,0 +1,214 @@
+import { sharedPostgresStorage } from "./index";
+import { ensureClicksTable } from "./clicks";
+import { ensureConversionsTable } from "./conversions";
+import { ensureFxRatesTable, usdRateSql } from "./fxRates";
+import { ensureLinksTable } from "./links";
+
+export interface PerformanceFilter {
+  resourceId: string;
+  from: Date;
+  to: Date;
+  // Reporting currency every amount is converted to.
+  currency: string;
+  campaignName?: string;
+  platform?: string;
+}
+
+export interface PerformanceTotals {
+  clicks: number;
+  uniqueVisitors: number;
+  conversions: number;
+  sales: number;
+  revenue: number;
+  // Conversions left out of the amounts because no FX rate was available.
+  unconverted: number;
+}
+
+export interface PerformanceBreakdown extends PerformanceTotals {
+  key: string;
+}
+
+export type BreakdownDimension = "platform" | "campaign";
+
+export interface DailyPerformance {
+  // UTC calendar day, "YYYY-MM-DD".
+  day: string;
+  clicks: number;
+  conversions: number;
+  revenue: number;
+}
+
+const EMPTY_TOTALS: PerformanceTotals = {
+  clicks: 0,
+  uniqueVisitors: 0,
+  conversions: 0,
+  sales: 0,
+  revenue: 0,
+  unconverted: 0,
+};
+
+async function ensureAnalyticsTables() {
+  await ensureLinksTable();
+  await Promise.all([
+    ensureClicksTable(),
+    ensureConversionsTable(),
+    ensureFxRatesTable(),
+  ]);
+}
+
+// Optional campaign/platform filters, applied to a table alias that has
+// campaign_name and platform columns (links for clicks, conversions itself).
+function dimensionFilters(filter: PerformanceFilter, alias: string): string {
+  const conditions: string[] = [];
+  if (filter.campaignName) {
+    conditions.push(`LOWER(${alias}.campaign_name) = LOWER($<campaignName>)`);
+  }
+  if (filter.platform) {
+    conditions.push(`LOWER(${alias}.platform) = LOWER($<platform>)`);
+  }
+  return conditions.map((condition) => ` AND ${condition}`).join("");
+}
+
+function groupColumn(dimension: BreakdownDimension, alias: string): string {
+  return dimension === "platform"
+    ? `LOWER(${alias}.platform)`
+    : `COALESCE(${alias}.campaign_name, '(no campaign)')`;
+}
+
+function clicksQuery(filter: PerformanceFilter, groupBy?: string): string {
+  return `SELECT ${groupBy ? `${groupBy} AS key,` : ""}
+      COUNT(*)::int AS clicks,
+      COUNT(DISTINCT c.ip_hash)::int AS unique_visitors
+    FROM link_clicks c
+    JOIN affiliate_links l ON l.id = c.link_id
+    WHERE l.resource_id = $<resourceId>
+      AND c.clicked_at >= $<from> AND c.clicked_at < $<to>
+      ${dimensionFilters(filter, "l")}
+    ${groupBy ? `GROUP BY ${groupBy}` : ""}`;
+}
+
+function conversionsQuery(filter: PerformanceFilter, groupBy?: string): string {
+  // Reversed orders are kept for auditing but never count towards results.
+  // Negative adjustment lines (returns imported from reports) only net out
+  // the amounts, they are not orders of their own.
+  // Amounts are converted at the rate for the day of each conversion.
+  return `SELECT ${groupBy ? `${groupBy} AS key,` : ""}
+      COUNT(*) FILTER (WHERE v.status <> 'reversed' AND v.commission >= 0)::int AS conversions,
+      COALESCE(SUM(v.sale_amount * fx.factor) FILTER (WHERE v.status <> 'reversed'), 0)::float8 AS sales,
+      COALESCE(SUM(v.commission * fx.factor) FILTER (WHERE v.status <> 'reversed'), 0)::float8 AS revenue,
+      COUNT(*) FILTER (WHERE v.status <> 'reversed' AND fx.factor IS NULL)::int AS unconverted
+    FROM conversions v
+    CROSS JOIN LATERAL (
+      SELECT (${usdRateSql("$<currency>::text", "v.converted_at::date")})
+        / NULLIF(${usdRateSql("v.currency", "v.converted_at::date")}, 0) AS factor
+    ) fx
+    WHERE v.resource_id = $<resourceId>
+      AND v.converted_at >= $<from> AND v.converted_at < $<to>
+      ${dimensionFilters(filter, "v")}
+    ${groupBy ? `GROUP BY ${groupBy}` : ""}`;
+}
+
+export async function getPerformanceTotals(
+  filter: PerformanceFilter,
+): Promise<PerformanceTotals> {
+  await ensureAnalyticsTables();
+  const [clicks, conversions] = await Promise.all([
+    sharedPostgresStorage.db.one(clicksQuery(filter), filter),
+    sharedPostgresStorage.db.one(conversionsQuery(filter), filter),
+  ]);
+  return {
+    clicks: clicks.clicks,
+    uniqueVisitors: clicks.unique_visitors,
+    conversions: conversions.conversions,
+    sales: conversions.sales,
+    revenue: conversions.revenue,
+    unconverted: conversions.unconverted,
+  };
+}
+
+export async function getPerformanceBreakdown(
+  filter: PerformanceFilter,
+  dimension: BreakdownDimension,
+): Promise<PerformanceBreakdown[]> {
+  await ensureAnalyticsTables();
+  const [clickRows, conversionRows] = await Promise.all([
+    sharedPostgresStorage.db.manyOrNone(
+      clicksQuery(filter, groupColumn(dimension, "l")),
+      filter,
+    ),
+    sharedPostgresStorage.db.manyOrNone(
+      conversionsQuery(filter, groupColumn(dimension, "v")),
+      filter,
+    ),
+  ]);
+
+  const byKey = new Map<string, PerformanceBreakdown>();
+  const entry = (key: string) => {
+    let row = byKey.get(key);
+    if (!row) {
+      row = { key, ...EMPTY_TOTALS };
+      byKey.set(key, row);
+    }
+    return row;
+  };
+  for (const row of clickRows) {
+    Object.assign(entry(row.key ?? "unknown"), {
+      clicks: row.clicks,
+      uniqueVisitors: row.unique_visitors,
+    });
+  }
+  for (const row of conversionRows) {
+    Object.assign(entry(row.key ?? "unknown"), {
+      conversions: row.conversions,
+      sales: row.sales,
+      revenue: row.revenue,
+      unconverted: row.unconverted,
+    });
+  }
+
+  return [...byKey.values()].sort(
+    (a, b) => b.revenue - a.revenue || b.clicks - a.clicks,
+  );
+}
+
+const utcDay = (column: string) =>
+  `to_char((${column} AT TIME ZONE 'UTC')::date, 'YYYY-MM-DD')`;
+
+// Clicks, conversions and revenue per UTC day, for days with any activity,
+// oldest first.
+export async function getDailyPerformance(
+  filter: PerformanceFilter,
+): Promise<DailyPerformance[]> {
+  await ensureAnalyticsTables();
+  const [clickRows, conversionRows] = await Promise.all([
+    sharedPostgresStorage.db.manyOrNone(
+      clicksQuery(filter, utcDay("c.clicked_at")),
+      filter,
+    ),
+    sharedPostgresStorage.db.manyOrNone(
+      conversionsQuery(filter, utcDay("v.converted_at")),
+      filter,
+    ),
+  ]);
+
+  const byDay = new Map<string, DailyPerformance>();
+  const entry = (day: string) => {
+    let row = byDay.get(day);
+    if (!row) {
+      row = { day, clicks: 0, conversions: 0, revenue: 0 };
+      byDay.set(day, row);
+    }
+    return row;
+  };
+  for (const row of clickRows) {
+    entry(row.key).clicks = row.clicks;
+  }
+  for (const row of conversionRows) {
+    Object.assign(entry(row.key), {
+      conversions: row.conversions,
+      revenue: row.revenue,
+    });
+  }
+
+  return [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day));
+}
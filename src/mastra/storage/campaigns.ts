@@ -0,0 +1,314 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+import { ensureAdSpendTable } from "./adSpend";
+import { ensureConversionsTable } from "./conversions";
+import { ensureLinksTable } from "./links";
+
+export type CampaignStatus = "draft" | "active" | "paused" | "ended";
+
+// Links, conversions and ad spend belong to a campaign through their
+// campaign_name, which is what links were tagged with before campaigns were
+// records.
+export interface Campaign {
+  id: number;
+  resourceId: string;
+  name: string;
+  niche: string | null;
+  platforms: string[];
+  // Calendar dates, "YYYY-MM-DD"; the end date is inclusive.
+  startsOn: string | null;
+  endsOn: string | null;
+  // Budget and revenue goal are in `currency`.
+  currency: string;
+  budget: number | null;
+  revenueGoal: number | null;
+  // Alert when revenue per unit of ad spend falls below this, e.g. 1.5.
+  roasFloor: number | null;
+  status: CampaignStatus;
+  endedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NewCampaign {
+  resourceId: string;
+  name: string;
+  niche?: string | null;
+  platforms?: string[];
+  startsOn?: string | null;
+  endsOn?: string | null;
+  currency: string;
+  budget?: number | null;
+  revenueGoal?: number | null;
+  roasFloor?: number | null;
+  status?: CampaignStatus;
+}
+
+// Fields left undefined keep their value; null clears them.
+export interface CampaignUpdate {
+  name?: string;
+  niche?: string | null;
+  platforms?: string[];
+  startsOn?: string | null;
+  endsOn?: string | null;
+  currency?: string;
+  budget?: number | null;
+  revenueGoal?: number | null;
+  roasFloor?: number | null;
+  status?: CampaignStatus;
+}
+
+export interface CampaignProduct {
+  productName: string;
+  productUrl: string | null;
+  addedAt: Date;
+}
+
+export interface CampaignContent {
+  id: number;
+  contentType: string;
+  productName: string;
+  text: string;
+  createdAt: Date;
+}
+
+export const ensureCampaignTables = () =>
+  ensureSchema(
+    "campaigns",
+    `CREATE TABLE IF NOT EXISTS campaigns (
+      id SERIAL PRIMARY KEY,
+      resource_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      niche TEXT,
+      platforms TEXT[] NOT NULL DEFAULT '{}',
+      starts_on DATE,
+      ends_on DATE,
+      currency TEXT NOT NULL,
+      budget NUMERIC(14, 2),
+      revenue_goal NUMERIC(14, 2),
+      status TEXT NOT NULL DEFAULT 'draft',
+      ended_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS campaigns_resource_name_idx
+      ON campaigns (resource_id, LOWER(name));
+    CREATE TABLE IF NOT EXISTS campaign_products (
+      campaign_id INTEGER NOT NULL REFERENCES campaigns (id) ON DELETE CASCADE,
+      product_name TEXT NOT NULL,
+      product_url TEXT,
+      added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (campaign_id, product_name)
+    );
+    CREATE TABLE IF NOT EXISTS campaign_content (
+      id SERIAL PRIMARY KEY,
+      campaign_id INTEGER NOT NULL REFERENCES campaigns (id) ON DELETE CASCADE,
+      content_type TEXT NOT NULL,
+      product_name TEXT NOT NULL,
+      text TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS roas_floor NUMERIC(8, 2);`,
+  );
+
+// Dates are read as text so they do not shift with the server's time zone.
+const CAMPAIGN_COLUMNS = `*,
+  to_char(starts_on, 'YYYY-MM-DD') AS starts_on_text,
+  to_char(ends_on, 'YYYY-MM-DD') AS ends_on_text`;
+
+function toCampaign(row: any): Campaign {
+  return {
+    id: row.id,
+    resourceId: row.resource_id,
+    name: row.name,
+    niche: row.niche,
+    platforms: row.platforms ?? [],
+    startsOn: row.starts_on_text,
+    endsOn: row.ends_on_text,
+    currency: row.currency,
+    budget: row.budget === null ? null : Number(row.budget),
+    revenueGoal: row.revenue_goal === null ? null : Number(row.revenue_goal),
+    roasFloor: row.roas_floor === null ? null : Number(row.roas_floor),
+    status: row.status,
+    endedAt: row.ended_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function createCampaign(campaign: NewCampaign): Promise<Campaign> {
+  await ensureCampaignTables();
+  const row = await sharedPostgresStorage.db.one(
+    `INSERT INTO campaigns (
+      resource_id, name, niche, platforms, starts_on, ends_on,
+      currency, budget, revenue_goal, roas_floor, status
+    ) VALUES (
+      $<resourceId>, $<name>, $<niche>, $<platforms>, $<startsOn>, $<endsOn>,
+      $<currency>, $<budget>, $<revenueGoal>, $<roasFloor>, $<status>
+    ) RETURNING ${CAMPAIGN_COLUMNS}`,
+    {
+      ...campaign,
+      niche: campaign.niche ?? null,
+      platforms: campaign.platforms ?? [],
+      startsOn: campaign.startsOn ?? null,
+      endsOn: campaign.endsOn ?? null,
+      budget: campaign.budget ?? null,
+      revenueGoal: campaign.revenueGoal ?? null,
+      roasFloor: campaign.roasFloor ?? null,
+      status: campaign.status ?? "draft",
+    },
+  );
+  return toCampaign(row);
+}
+
+export async function findCampaign(
+  resourceId: string,
+  name: string,
+): Promise<Campaign | null> {
+  await ensureCampaignTables();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    `SELECT ${CAMPAIGN_COLUMNS} FROM campaigns
+      WHERE resource_id = $<resourceId> AND LOWER(name) = LOWER($<name>)`,
+    { resourceId, name },
+  );
+  return row ? toCampaign(row) : null;
+}
+
+export async function listCampaigns(
+  resourceId: string,
+  status?: CampaignStatus,
+): Promise<Campaign[]> {
+  await ensureCampaignTables();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT ${CAMPAIGN_COLUMNS} FROM campaigns
+      WHERE resource_id = $<resourceId>
+        ${status ? "AND status = $<status>" : ""}
+      ORDER BY (status = 'ended'), starts_on DESC NULLS LAST, created_at DESC`,
+    { resourceId, status },
+  );
+  return rows.map(toCampaign);
+}
+
+const UPDATABLE_COLUMNS: Record<keyof CampaignUpdate, string> = {
+  name: "name",
+  niche: "niche",
+  platforms: "platforms",
+  startsOn: "starts_on",
+  endsOn: "ends_on",
+  currency: "currency",
+  budget: "budget",
+  revenueGoal: "revenue_goal",
+  roasFloor: "roas_floor",
+  status: "status",
+};
+
+// A rename carries the campaign's links, conversions and ad spend along.
+export async function updateCampaign(
+  resourceId: string,
+  name: string,
+  update: CampaignUpdate,
+): Promise<Campaign | null> {
+  await Promise.all([
+    ensureCampaignTables(),
+    ensureLinksTable(),
+    ensureConversionsTable(),
+    ensureAdSpendTable(),
+  ]);
+  const assignments = (Object.keys(update) as (keyof CampaignUpdate)[])
+    .filter((key) => update[key] !== undefined)
+    .map((key) => `${UPDATABLE_COLUMNS[key]} = $<update.${key}>`);
+  if (update.status !== undefined) {
+    assignments.push(
+      "ended_at = CASE WHEN $<update.status> = 'ended' THEN COALESCE(ended_at, NOW()) ELSE NULL END",
+    );
+  }
+
+  return sharedPostgresStorage.db.tx(async (t) => {
+    const current = await t.oneOrNone(
+      `SELECT name FROM campaigns
+        WHERE resource_id = $<resourceId> AND LOWER(name) = LOWER($<name>)
+        FOR UPDATE`,
+      { resourceId, name },
+    );
+    if (!current) {
+      return null;
+    }
+    const row = await t.one(
+      `UPDATE campaigns SET ${[...assignments, "updated_at = NOW()"].join(", ")}
+        WHERE resource_id = $<resourceId> AND name = $<current>
+        RETURNING ${CAMPAIGN_COLUMNS}`,
+      { resourceId, current: current.name, update },
+    );
+    if (update.name !== undefined && update.name !== current.name) {
+      for (const table of ["affiliate_links", "conversions", "ad_spend"]) {
+        await t.none(
+          `UPDATE ${table} SET campaign_name = $<renamed>
+            WHERE resource_id = $<resourceId> AND LOWER(campaign_name) = LOWER($<current>)`,
+          { resourceId, current: current.name, renamed: update.name },
+        );
+      }
+    }
+    return toCampaign(row);
+  });
+}
+
+export async function addCampaignProduct(
+  campaignId: number,
+  productName: string,
+  productUrl: string | null = null,
+): Promise<void> {
+  await ensureCampaignTables();
+  await sharedPostgresStorage.db.none(
+    `INSERT INTO campaign_products (campaign_id, product_name, product_url)
+      VALUES ($<campaignId>, $<productName>, $<productUrl>)
+      ON CONFLICT (campaign_id, product_name) DO UPDATE SET
+        product_url = COALESCE(EXCLUDED.product_url, campaign_products.product_url)`,
+    { campaignId, productName, productUrl },
+  );
+}
+
+export async function listCampaignProducts(
+  campaignId: number,
+): Promise<CampaignProduct[]> {
+  await ensureCampaignTables();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    "SELECT * FROM campaign_products WHERE campaign_id = $<campaignId> ORDER BY added_at",
+    { campaignId },
+  );
+  return rows.map((row) => ({
+    productName: row.product_name,
+    productUrl: row.product_url,
+    addedAt: row.added_at,
+  }));
+}
+
+export async function saveCampaignContent(
+  campaignId: number,
+  content: { contentType: string; productName: string; text: string },
+): Promise<void> {
+  await ensureCampaignTables();
+  await sharedPostgresStorage.db.none(
+    `INSERT INTO campaign_content (campaign_id, content_type, product_name, text)
+      VALUES ($<campaignId>, $<contentType>, $<productName>, $<text>)`,
+    { campaignId, ...content },
+  );
+}
+
+export async function listCampaignContent(
+  campaignId: number,
+  limit = 20,
+): Promise<CampaignContent[]> {
+  await ensureCampaignTables();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT * FROM campaign_content WHERE campaign_id = $<campaignId>
+      ORDER BY created_at DESC
+      LIMIT $<limit>`,
+    { campaignId, limit },
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    contentType: row.content_type,
+    productName: row.product_name,
+    text: row.text,
+    createdAt: row.created_at,
+  }));
+}
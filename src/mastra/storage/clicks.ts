@@ -0,0 +1,43 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+export interface NewLinkClick {
+  linkId: number;
+  trackingId: string;
+  referrer?: string | null;
+  userAgent?: string | null;
+  country?: string | null;
+  ipHash?: string | null;
+}
+
+export const ensureClicksTable = () =>
+  ensureSchema(
+    "link_clicks",
+    `CREATE TABLE IF NOT EXISTS link_clicks (
+      id BIGSERIAL PRIMARY KEY,
+      link_id INTEGER NOT NULL,
+      tracking_id TEXT NOT NULL,
+      clicked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      referrer TEXT,
+      user_agent TEXT,
+      country TEXT,
+      ip_hash TEXT
+    );
+    CREATE INDEX IF NOT EXISTS link_clicks_link_time_idx
+      ON link_clicks (link_id, clicked_at);`,
+  );
+
+export async function recordClick(click: NewLinkClick): Promise<void> {
+  await ensureClicksTable();
+  await sharedPostgresStorage.db.none(
+    `INSERT INTO link_clicks (link_id, tracking_id, referrer, user_agent, country, ip_hash)
+      VALUES ($<linkId>, $<trackingId>, $<referrer>, $<userAgent>, $<country>, $<ipHash>)`,
+    {
+      linkId: click.linkId,
+      trackingId: click.trackingId,
+      referrer: click.referrer ?? null,
+      userAgent: click.userAgent ?? null,
+      country: click.country ?? null,
+      ipHash: click.ipHash ?? null,
+    },
+  );
+}
@@ -0,0 +1,169 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+export type ConversionStatus = "pending" | "approved" | "reversed";
+
+export interface Conversion {
+  id: number;
+  resourceId: string;
+  network: string;
+  orderId: string;
+  linkId: number | null;
+  trackingId: string | null;
+  campaignName: string | null;
+  platform: string | null;
+  saleAmount: number;
+  commission: number;
+  currency: string;
+  status: ConversionStatus;
+  convertedAt: Date;
+  reversedAt: Date | null;
+}
+
+export interface ConversionInput {
+  resourceId: string;
+  network: string;
+  orderId: string;
+  linkId?: number | null;
+  trackingId?: string | null;
+  campaignName?: string | null;
+  platform?: string | null;
+  saleAmount: number;
+  commission: number;
+  currency: string;
+  status: ConversionStatus;
+  convertedAt?: Date;
+}
+
+export type ConversionOutcome = "created" | "updated" | "unchanged";
+
+// Networks use many words for the same three states.
+const STATUS_ALIASES: Record<string, ConversionStatus> = {
+  pending: "pending",
+  open: "pending",
+  new: "pending",
+  approved: "approved",
+  confirmed: "approved",
+  paid: "approved",
+  locked: "approved",
+  shipped: "approved",
+  reversed: "reversed",
+  rejected: "reversed",
+  declined: "reversed",
+  cancelled: "reversed",
+  canceled: "reversed",
+  refunded: "reversed",
+  returned: "reversed",
+};
+
+export function normalizeConversionStatus(
+  value: string,
+): ConversionStatus | undefined {
+  return STATUS_ALIASES[value.trim().toLowerCase()];
+}
+
+export const ensureConversionsTable = () =>
+  ensureSchema(
+    "conversions",
+    `CREATE TABLE IF NOT EXISTS conversions (
+      id BIGSERIAL PRIMARY KEY,
+      resource_id TEXT NOT NULL,
+      network TEXT NOT NULL,
+      order_id TEXT NOT NULL,
+      link_id INTEGER,
+      tracking_id TEXT,
+      campaign_name TEXT,
+      platform TEXT,
+      sale_amount NUMERIC(14, 2) NOT NULL DEFAULT 0,
+      commission NUMERIC(14, 2) NOT NULL DEFAULT 0,
+      currency TEXT NOT NULL DEFAULT 'USD',
+      status TEXT NOT NULL DEFAULT 'pending',
+      converted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      reversed_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (resource_id, network, order_id)
+    );
+    CREATE INDEX IF NOT EXISTS conversions_resource_time_idx
+      ON conversions (resource_id, converted_at);`,
+  );
+
+// Orders only ever move forward: a late "pending" callback must not undo an
+// approval, and a reversal is final.
+const STATUS_ORDER: ConversionStatus[] = ["pending", "approved", "reversed"];
+
+function toConversion(row: any): Conversion {
+  return {
+    id: Number(row.id),
+    resourceId: row.resource_id,
+    network: row.network,
+    orderId: row.order_id,
+    linkId: row.link_id,
+    trackingId: row.tracking_id,
+    campaignName: row.campaign_name,
+    platform: row.platform,
+    saleAmount: Number(row.sale_amount),
+    commission: Number(row.commission),
+    currency: row.currency,
+    status: row.status,
+    convertedAt: row.converted_at,
+    reversedAt: row.reversed_at,
+  };
+}
+
+// Records a conversion idempotently on (user, network, order ID). Replays of the
+// same callback leave the row untouched; status changes update it in place so
+// a reversal removes the order from every report that counted it. It is a
+// single statement so concurrent deliveries of a new order cannot both insert.
+export async function upsertConversion(
+  input: ConversionInput,
+): Promise<{ conversion: Conversion; outcome: ConversionOutcome }> {
+  await ensureConversionsTable();
+  const params = {
+    ...input,
+    linkId: input.linkId ?? null,
+    trackingId: input.trackingId ?? null,
+    campaignName: input.campaignName ?? null,
+    platform: input.platform ?? null,
+    convertedAt: input.convertedAt ?? new Date(),
+    statusOrder: STATUS_ORDER,
+  };
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    `INSERT INTO conversions (
+      resource_id, network, order_id, link_id, tracking_id, campaign_name, platform,
+      sale_amount, commission, currency, status, converted_at, reversed_at
+    ) VALUES (
+      $<resourceId>, $<network>, $<orderId>, $<linkId>, $<trackingId>, $<campaignName>, $<platform>,
+      $<saleAmount>, $<commission>, $<currency>, $<status>, $<convertedAt>,
+      CASE WHEN $<status> = 'reversed' THEN NOW() END
+    )
+    ON CONFLICT (resource_id, network, order_id) DO UPDATE SET
+      status = EXCLUDED.status,
+      -- Reversal callbacks often zero the amounts; keep what was reported for auditing.
+      sale_amount = CASE WHEN EXCLUDED.status = 'reversed' THEN conversions.sale_amount ELSE EXCLUDED.sale_amount END,
+      commission = CASE WHEN EXCLUDED.status = 'reversed' THEN conversions.commission ELSE EXCLUDED.commission END,
+      currency = CASE WHEN EXCLUDED.status = 'reversed' THEN conversions.currency ELSE EXCLUDED.currency END,
+      reversed_at = CASE WHEN EXCLUDED.status = 'reversed' THEN COALESCE(conversions.reversed_at, NOW()) END,
+      updated_at = NOW()
+    WHERE conversions.status <> 'reversed'
+      AND array_position($<statusOrder>::text[], EXCLUDED.status)
+        >= array_position($<statusOrder>::text[], conversions.status)
+      AND (conversions.status, conversions.sale_amount, conversions.commission, conversions.currency)
+        IS DISTINCT FROM (EXCLUDED.status, EXCLUDED.sale_amount, EXCLUDED.commission, EXCLUDED.currency)
+    RETURNING *, (xmax = 0) AS created`,
+    params,
+  );
+  if (row) {
+    return {
+      conversion: toConversion(row),
+      outcome: row.created ? "created" : "updated",
+    };
+  }
+
+  // The order exists and the callback would not move it forward.
+  const existing = await sharedPostgresStorage.db.one(
+    `SELECT * FROM conversions
+      WHERE resource_id = $<resourceId> AND network = $<network> AND order_id = $<orderId>`,
+    input,
+  );
+  return { conversion: toConversion(existing), outcome: "unchanged" };
+}
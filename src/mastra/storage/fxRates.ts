@@ -0,0 +1,78 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+// Rates are stored against USD: units of `currency` per 1 USD on `rateDate`.
+export interface FxRate {
+  currency: string;
+  rateDate: string;
+  unitsPerUsd: number;
+  source?: string;
+}
+
+export const ensureFxRatesTable = () =>
+  ensureSchema(
+    "fx_rates",
+    `CREATE TABLE IF NOT EXISTS fx_rates (
+      currency TEXT NOT NULL,
+      rate_date DATE NOT NULL,
+      units_per_usd NUMERIC(20, 8) NOT NULL CHECK (units_per_usd > 0),
+      source TEXT,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (currency, rate_date)
+    );`,
+  );
+
+// SQL expression for the USD rate of `currencyExpr` closest to `dateExpr`,
+// preferring the latest rate on or before that date. USD itself is always 1.
+export function usdRateSql(currencyExpr: string, dateExpr: string): string {
+  return `CASE WHEN ${currencyExpr} = 'USD' THEN 1 ELSE (
+      SELECT f.units_per_usd FROM fx_rates f
+      WHERE f.currency = ${currencyExpr}
+      ORDER BY (f.rate_date > ${dateExpr}), ABS(f.rate_date - ${dateExpr})
+      LIMIT 1
+    ) END`;
+}
+
+// With `keepExisting`, rates already stored for a currency and date are left
+// alone, so seed data never overwrites rates an admin loaded.
+export async function upsertFxRates(
+  rates: FxRate[],
+  { keepExisting = false }: { keepExisting?: boolean } = {},
+): Promise<number> {
+  if (rates.length === 0) {
+    return 0;
+  }
+  await ensureFxRatesTable();
+  const { pgp, db } = sharedPostgresStorage;
+  const columns = new pgp.helpers.ColumnSet(
+    [
+      "currency",
+      { name: "rate_date", prop: "rateDate" },
+      { name: "units_per_usd", prop: "unitsPerUsd" },
+      { name: "source", def: null },
+    ],
+    { table: "fx_rates" },
+  );
+  const onConflict = keepExisting
+    ? "DO NOTHING"
+    : `DO UPDATE SET
+        units_per_usd = EXCLUDED.units_per_usd,
+        source = EXCLUDED.source,
+        updated_at = NOW()`;
+  await db.none(
+    `${pgp.helpers.insert(rates, columns)}
+      ON CONFLICT (currency, rate_date) ${onConflict}`,
+  );
+  return rates.length;
+}
+
+export async function getUsdRate(
+  currency: string,
+  on: Date,
+): Promise<number | null> {
+  await ensureFxRatesTable();
+  const row = await sharedPostgresStorage.db.one(
+    `SELECT (${usdRateSql("$<currency>::text", "$<date>::date")})::float8 AS rate`,
+    { currency, date: on.toISOString().slice(0, 10) },
+  );
+  return row.rate;
+}
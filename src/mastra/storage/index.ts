@@ -5,3 +5,23 @@ export const sharedPostgresStorage = new PostgresStore({
   connectionString:
     process.env.DATABASE_URL || "postgresql://localhost:5432/mastra",
 });
+
+const schemaReady = new Map<string, Promise<void>>();
+
+// Application tables live next to the Mastra tables in the same database.
+// Each module declares its own DDL and this makes sure it only runs once per
+// process; a failed attempt is forgotten so the next call retries it.
+export function ensureSchema(name: string, ddl: string): Promise<void> {
+  let ready = schemaReady.get(name);
+  if (!ready) {
+    ready = sharedPostgresStorage.db.none(ddl).then(
+      () => undefined,
+      (error: unknown) => {
+        schemaReady.delete(name);
+        throw error;
+      },
+    );
+    schemaReady.set(name, ready);
+  }
+  return ready;
+}
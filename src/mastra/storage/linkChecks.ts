@@ -0,0 +1,111 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+import { ensureLinksTable } from "./links";
+
+export type LinkCheckTarget = "destination" | "short_link" | "affiliate_url";
+
+export type LinkCheckOutcome =
+  | "ok"
+  | "http_error"
+  | "redirect_loop"
+  | "too_many_redirects"
+  | "unreachable"
+  | "out_of_stock"
+  | "tag_stripped"
+  | "redirected_to_homepage"
+  | "wrong_redirect";
+
+export interface LinkCheckResult {
+  target: LinkCheckTarget;
+  url: string;
+  outcome: LinkCheckOutcome;
+  httpStatus: number | null;
+  finalUrl: string | null;
+  redirects: string[];
+  detail: string | null;
+}
+
+export interface LinkCheckRecord extends LinkCheckResult {
+  id: number;
+  linkId: number;
+  checkedAt: Date;
+}
+
+export const ensureLinkChecksTable = async () => {
+  await ensureLinksTable();
+  await ensureSchema(
+    "link_checks",
+    `CREATE TABLE IF NOT EXISTS link_checks (
+      id BIGSERIAL PRIMARY KEY,
+      link_id INTEGER NOT NULL REFERENCES affiliate_links (id) ON DELETE CASCADE,
+      target TEXT NOT NULL,
+      url TEXT NOT NULL,
+      outcome TEXT NOT NULL,
+      http_status INTEGER,
+      final_url TEXT,
+      redirects JSONB NOT NULL DEFAULT '[]',
+      detail TEXT,
+      checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS link_checks_link_idx
+      ON link_checks (link_id, checked_at DESC);`,
+  );
+};
+
+function toRecord(row: any): LinkCheckRecord {
+  return {
+    id: Number(row.id),
+    linkId: row.link_id,
+    target: row.target,
+    url: row.url,
+    outcome: row.outcome,
+    httpStatus: row.http_status,
+    finalUrl: row.final_url,
+    redirects: row.redirects,
+    detail: row.detail,
+    checkedAt: row.checked_at,
+  };
+}
+
+export async function recordLinkChecks(
+  linkId: number,
+  results: LinkCheckResult[],
+): Promise<void> {
+  if (results.length === 0) {
+    return;
+  }
+  await ensureLinkChecksTable();
+  const { pgp, db } = sharedPostgresStorage;
+  const columns = new pgp.helpers.ColumnSet(
+    [
+      { name: "link_id", prop: "linkId" },
+      "target",
+      "url",
+      "outcome",
+      { name: "http_status", prop: "httpStatus" },
+      { name: "final_url", prop: "finalUrl" },
+      { name: "redirects", mod: ":json" },
+      "detail",
+    ],
+    { table: "link_checks" },
+  );
+  await db.none(
+    pgp.helpers.insert(
+      results.map((result) => ({ ...result, linkId })),
+      columns,
+    ),
+  );
+}
+
+// Most recent checks of a link, newest first.
+export async function listLinkChecks(
+  linkId: number,
+  limit = 20,
+): Promise<LinkCheckRecord[]> {
+  await ensureLinkChecksTable();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT * FROM link_checks WHERE link_id = $<linkId>
+      ORDER BY checked_at DESC, id DESC LIMIT $<limit>`,
+    { linkId, limit },
+  );
+  return rows.map(toRecord);
+}
@@ -0,0 +1,351 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+// "broken" is set by the link health checker, see src/mastra/links/linkChecker.ts.
+export type LinkStatus = "active" | "paused" | "archived" | "broken";
+
+export interface AffiliateLink {
+  id: number;
+  resourceId: string;
+  trackingId: string;
+  alias: string;
+  productName: string;
+  platform: string;
+  originalUrl: string | null;
+  destinationUrl: string;
+  affiliateUrl: string;
+  shortLink: string;
+  campaignName: string | null;
+  status: LinkStatus;
+  priceAmount: number | null;
+  priceCurrency: string | null;
+  commissionMinPercent: number | null;
+  commissionMaxPercent: number | null;
+  // Latest problem found by the link health checker, if any.
+  healthIssue: string | null;
+  healthCheckedAt: Date | null;
+  // Start of the current run of failed checks.
+  healthFailingSince: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NewAffiliateLink {
+  resourceId: string;
+  trackingId: string;
+  alias: string;
+  productName: string;
+  platform: string;
+  originalUrl?: string | null;
+  destinationUrl: string;
+  affiliateUrl: string;
+  shortLink: string;
+  campaignName?: string | null;
+  priceAmount?: number | null;
+  priceCurrency?: string | null;
+  commissionMinPercent?: number | null;
+  commissionMaxPercent?: number | null;
+}
+
+export interface LinkFilter {
+  campaignName?: string;
+  platform?: string;
+  status?: LinkStatus;
+  includeArchived?: boolean;
+  limit?: number;
+}
+
+export interface LinkUpdate {
+  status?: LinkStatus;
+  campaignName?: string | null;
+  destinationUrl?: string;
+  affiliateUrl?: string;
+}
+
+export const ensureLinksTable = () =>
+  ensureSchema(
+    "affiliate_links",
+    `CREATE TABLE IF NOT EXISTS affiliate_links (
+      id SERIAL PRIMARY KEY,
+      resource_id TEXT NOT NULL,
+      tracking_id TEXT NOT NULL UNIQUE,
+      alias TEXT NOT NULL UNIQUE,
+      product_name TEXT NOT NULL,
+      platform TEXT NOT NULL,
+      original_url TEXT,
+      destination_url TEXT NOT NULL,
+      affiliate_url TEXT NOT NULL,
+      short_link TEXT NOT NULL,
+      campaign_name TEXT,
+      status TEXT NOT NULL DEFAULT 'active',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS affiliate_links_resource_idx
+      ON affiliate_links (resource_id, campaign_name);
+    CREATE UNIQUE INDEX IF NOT EXISTS affiliate_links_alias_lower_idx
+      ON affiliate_links (LOWER(alias));
+    ALTER TABLE affiliate_links
+      ADD COLUMN IF NOT EXISTS price_amount NUMERIC(14, 2),
+      ADD COLUMN IF NOT EXISTS price_currency TEXT,
+      ADD COLUMN IF NOT EXISTS commission_min_percent NUMERIC(6, 2),
+      ADD COLUMN IF NOT EXISTS commission_max_percent NUMERIC(6, 2),
+      ADD COLUMN IF NOT EXISTS health_issue TEXT,
+      ADD COLUMN IF NOT EXISTS health_checked_at TIMESTAMPTZ,
+      ADD COLUMN IF NOT EXISTS health_failing_since TIMESTAMPTZ;`,
+  );
+
+function toLink(row: any): AffiliateLink {
+  return {
+    id: row.id,
+    resourceId: row.resource_id,
+    trackingId: row.tracking_id,
+    alias: row.alias,
+    productName: row.product_name,
+    platform: row.platform,
+    originalUrl: row.original_url,
+    destinationUrl: row.destination_url,
+    affiliateUrl: row.affiliate_url,
+    shortLink: row.short_link,
+    campaignName: row.campaign_name,
+    status: row.status,
+    priceAmount: row.price_amount === null ? null : Number(row.price_amount),
+    priceCurrency: row.price_currency,
+    commissionMinPercent:
+      row.commission_min_percent === null
+        ? null
+        : Number(row.commission_min_percent),
+    commissionMaxPercent:
+      row.commission_max_percent === null
+        ? null
+        : Number(row.commission_max_percent),
+    healthIssue: row.health_issue,
+    healthCheckedAt: row.health_checked_at,
+    healthFailingSince: row.health_failing_since,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function createLink(
+  link: NewAffiliateLink,
+): Promise<AffiliateLink> {
+  await ensureLinksTable();
+  const row = await sharedPostgresStorage.db.one(
+    `INSERT INTO affiliate_links (
+      resource_id, tracking_id, alias, product_name, platform, original_url,
+      destination_url, affiliate_url, short_link, campaign_name,
+      price_amount, price_currency, commission_min_percent, commission_max_percent
+    ) VALUES (
+      $<resourceId>, $<trackingId>, $<alias>, $<productName>, $<platform>, $<originalUrl>,
+      $<destinationUrl>, $<affiliateUrl>, $<shortLink>, $<campaignName>,
+      $<priceAmount>, $<priceCurrency>, $<commissionMinPercent>, $<commissionMaxPercent>
+    ) RETURNING *`,
+    {
+      ...link,
+      originalUrl: link.originalUrl ?? null,
+      campaignName: link.campaignName ?? null,
+      priceAmount: link.priceAmount ?? null,
+      priceCurrency: link.priceCurrency ?? null,
+      commissionMinPercent: link.commissionMinPercent ?? null,
+      commissionMaxPercent: link.commissionMaxPercent ?? null,
+    },
+  );
+  return toLink(row);
+}
+
+export async function listLinks(
+  resourceId: string,
+  filter: LinkFilter = {},
+): Promise<AffiliateLink[]> {
+  await ensureLinksTable();
+  const conditions = ["resource_id = $<resourceId>"];
+  if (filter.campaignName) {
+    conditions.push("LOWER(campaign_name) = LOWER($<campaignName>)");
+  }
+  if (filter.platform) {
+    conditions.push("LOWER(platform) = LOWER($<platform>)");
+  }
+  if (filter.status) {
+    conditions.push("status = $<status>");
+  } else if (!filter.includeArchived) {
+    conditions.push("status <> 'archived'");
+  }
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT * FROM affiliate_links
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY created_at DESC
+      LIMIT $<limit>`,
+    { ...filter, resourceId, limit: filter.limit ?? 50 },
+  );
+  return rows.map(toLink);
+}
+
+// Looks a link up by tracking ID or alias, scoped to its owner. Aliases match
+// regardless of case, as in the redirect route.
+export async function getLink(
+  resourceId: string,
+  trackingIdOrAlias: string,
+): Promise<AffiliateLink | null> {
+  await ensureLinksTable();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    `SELECT * FROM affiliate_links
+      WHERE resource_id = $<resourceId>
+        AND (LOWER(alias) = LOWER($<key>) OR tracking_id = $<key>)
+      ORDER BY (LOWER(alias) = LOWER($<key>)) DESC
+      LIMIT 1`,
+    { resourceId, key: trackingIdOrAlias },
+  );
+  return row ? toLink(row) : null;
+}
+
+export async function updateLink(
+  resourceId: string,
+  trackingIdOrAlias: string,
+  update: LinkUpdate,
+): Promise<AffiliateLink | null> {
+  await ensureLinksTable();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    `UPDATE affiliate_links SET
+        status = COALESCE($<status>, status),
+        campaign_name = CASE WHEN $<setCampaign> THEN $<campaignName> ELSE campaign_name END,
+        destination_url = COALESCE($<destinationUrl>, destination_url),
+        affiliate_url = COALESCE($<affiliateUrl>, affiliate_url),
+        updated_at = NOW()
+      WHERE id = (
+        SELECT id FROM affiliate_links
+          WHERE resource_id = $<resourceId>
+            AND (LOWER(alias) = LOWER($<key>) OR tracking_id = $<key>)
+          ORDER BY (LOWER(alias) = LOWER($<key>)) DESC
+          LIMIT 1
+      )
+      RETURNING *`,
+    {
+      resourceId,
+      key: trackingIdOrAlias,
+      status: update.status ?? null,
+      setCampaign: update.campaignName !== undefined,
+      campaignName: update.campaignName ?? null,
+      destinationUrl: update.destinationUrl ?? null,
+      affiliateUrl: update.affiliateUrl ?? null,
+    },
+  );
+  return row ? toLink(row) : null;
+}
+
+export function archiveLink(
+  resourceId: string,
+  trackingIdOrAlias: string,
+): Promise<AffiliateLink | null> {
+  return updateLink(resourceId, trackingIdOrAlias, { status: "archived" });
+}
+
+// Archived links no longer count towards the plan's link limit.
+export async function countLinks(resourceId: string): Promise<number> {
+  await ensureLinksTable();
+  const row = await sharedPostgresStorage.db.one(
+    "SELECT COUNT(*)::int AS count FROM affiliate_links WHERE resource_id = $<resourceId> AND status <> 'archived'",
+    { resourceId },
+  );
+  return row.count;
+}
+
+export async function isAliasTaken(alias: string): Promise<boolean> {
+  await ensureLinksTable();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    "SELECT 1 FROM affiliate_links WHERE LOWER(alias) = LOWER($<alias>)",
+    { alias },
+  );
+  return row !== null;
+}
+
+// Public lookup used by the redirect route: short links are shared with
+// anyone, so this is deliberately not scoped to a resource. Aliases are
+// unique regardless of case, so they match regardless of case too.
+export async function findLinkForRedirect(
+  aliasOrTrackingId: string,
+): Promise<AffiliateLink | null> {
+  await ensureLinksTable();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    `SELECT * FROM affiliate_links
+      WHERE LOWER(alias) = LOWER($<key>) OR tracking_id = $<key>
+      ORDER BY (LOWER(alias) = LOWER($<key>)) DESC
+      LIMIT 1`,
+    { key: aliasOrTrackingId },
+  );
+  return row ? toLink(row) : null;
+}
+
+// Unscoped lookup for server-to-server callbacks that only know the tracking ID.
+export async function findLinkByTrackingId(
+  trackingId: string,
+): Promise<AffiliateLink | null> {
+  await ensureLinksTable();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    "SELECT * FROM affiliate_links WHERE tracking_id = $<trackingId>",
+    { trackingId },
+  );
+  return row ? toLink(row) : null;
+}
+
+// Returns the stored spelling of a campaign name the user already tags links with.
+export async function findCampaignName(
+  resourceId: string,
+  campaignName: string,
+): Promise<string | null> {
+  await ensureLinksTable();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    `SELECT campaign_name FROM affiliate_links
+      WHERE resource_id = $<resourceId> AND LOWER(campaign_name) = LOWER($<campaignName>)
+      LIMIT 1`,
+    { resourceId, campaignName },
+  );
+  return row?.campaign_name ?? null;
+}
+
+// Links the health checker should look at, least recently checked first.
+export async function listLinksDueForCheck(
+  checkedBefore: Date,
+  limit: number,
+): Promise<AffiliateLink[]> {
+  await ensureLinksTable();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT * FROM affiliate_links
+      WHERE status IN ('active', 'broken')
+        AND (health_checked_at IS NULL OR health_checked_at < $<checkedBefore>)
+      ORDER BY health_checked_at NULLS FIRST
+      LIMIT $<limit>`,
+    { checkedBefore, limit },
+  );
+  return rows.map(toLink);
+}
+
+// Records the checker's verdict. Only active and broken links change status,
+// so a link the user paused or archived in the meantime stays that way.
+export async function setLinkHealth(
+  linkId: number,
+  issue: string | null,
+  broken: boolean,
+): Promise<AffiliateLink | null> {
+  await ensureLinksTable();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    `UPDATE affiliate_links SET
+        health_issue = $<issue>,
+        health_checked_at = NOW(),
+        health_failing_since = CASE
+          WHEN $<issue> IS NULL THEN NULL
+          ELSE COALESCE(health_failing_since, NOW())
+        END,
+        status = CASE
+          WHEN status IN ('active', 'broken') THEN $<status>
+          ELSE status
+        END,
+        updated_at = CASE
+          WHEN status IN ('active', 'broken') AND status <> $<status> THEN NOW()
+          ELSE updated_at
+        END
+      WHERE id = $<linkId>
+      RETURNING *`,
+    { linkId, issue, status: broken ? "broken" : "active" },
+  );
+  return row ? toLink(row) : null;
+}
@@ -0,0 +1,127 @@
+import type { SubscriptionEvent } from "../billing/paymentWebhooks";
+import { ensureSchema, sharedPostgresStorage } from "./index";
+import { type PlanStatus, ensurePlansTable } from "./plans";
+
+// "duplicate": the event was processed before (a provider or Inngest retry).
+// "stale": a newer event for the user was already applied, or the event is
+// about a subscription the user has since replaced.
+export type PaymentEventOutcome = "applied" | "duplicate" | "stale";
+
+export const ensurePaymentEventsTable = () =>
+  ensureSchema(
+    "payment_events",
+    `CREATE TABLE IF NOT EXISTS payment_events (
+      provider TEXT NOT NULL,
+      event_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      resource_id TEXT NOT NULL,
+      plan_id TEXT NOT NULL,
+      occurred_at TIMESTAMPTZ NOT NULL,
+      outcome TEXT NOT NULL,
+      received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (provider, event_id)
+    );
+    CREATE INDEX IF NOT EXISTS payment_events_resource_idx
+      ON payment_events (resource_id, occurred_at DESC);`,
+  );
+
+// Records the event and updates the user's plan in one transaction, so a
+// retry after a failure halfway through starts from scratch, and a retry
+// after success is recognised by its event id.
+export async function applyPaymentEvent(
+  event: SubscriptionEvent,
+): Promise<PaymentEventOutcome> {
+  await Promise.all([ensurePaymentEventsTable(), ensurePlansTable()]);
+  return sharedPostgresStorage.db.tx(async (t) => {
+    const inserted = await t.oneOrNone(
+      `INSERT INTO payment_events (
+        provider, event_id, event_type, resource_id, plan_id, occurred_at, outcome
+      ) VALUES (
+        $<provider>, $<eventId>, $<type>, $<resourceId>, $<planId>, $<occurredAt>, 'pending'
+      )
+      ON CONFLICT (provider, event_id) DO NOTHING
+      RETURNING event_id`,
+      event,
+    );
+    if (!inserted) {
+      return "duplicate";
+    }
+
+    // Locks the plan row so concurrent events for the user apply in turn.
+    const current = await t.oneOrNone(
+      "SELECT * FROM user_plans WHERE resource_id = $<resourceId> FOR UPDATE",
+      event,
+    );
+    const outcome: PaymentEventOutcome = isStale(event, current)
+      ? "stale"
+      : "applied";
+
+    if (outcome === "applied") {
+      await t.none(
+        `INSERT INTO user_plans (
+          resource_id, plan_id, status, current_period_end,
+          provider, customer_id, subscription_id, last_event_at
+        ) VALUES (
+          $<resourceId>, $<planId>, $<status>, $<currentPeriodEnd>,
+          $<provider>, $<customerId>, $<subscriptionId>, $<occurredAt>
+        )
+        ON CONFLICT (resource_id) DO UPDATE SET
+          plan_id = EXCLUDED.plan_id,
+          status = EXCLUDED.status,
+          current_period_end = COALESCE(EXCLUDED.current_period_end, user_plans.current_period_end),
+          provider = EXCLUDED.provider,
+          customer_id = COALESCE(EXCLUDED.customer_id, user_plans.customer_id),
+          subscription_id = COALESCE(EXCLUDED.subscription_id, user_plans.subscription_id),
+          last_event_at = EXCLUDED.last_event_at,
+          updated_at = NOW()`,
+        {
+          ...event,
+          status: planStatus(event),
+          // A failed renewal already reports the unpaid period; the user
+          // stays entitled to the paid one, plus the grace period.
+          currentPeriodEnd:
+            event.type === "past_due" ? null : event.currentPeriodEnd,
+        },
+      );
+    }
+
+    await t.none(
+      `UPDATE payment_events SET outcome = $<outcome>
+        WHERE provider = $<provider> AND event_id = $<eventId>`,
+      { ...event, outcome },
+    );
+    return outcome;
+  });
+}
+
+function planStatus(event: SubscriptionEvent): PlanStatus {
+  switch (event.type) {
+    case "created":
+    case "renewed":
+      return "active";
+    case "past_due":
+      return "past_due";
+    case "canceled":
+      return "canceled";
+  }
+}
+
+// Providers do not deliver events in order, so an event older than the one
+// the plan was last set from is kept for the record but not applied.
+function isStale(event: SubscriptionEvent, current: any): boolean {
+  if (!current?.last_event_at) {
+    return false;
+  }
+  if (event.occurredAt < current.last_event_at) {
+    return true;
+  }
+  // Cancelling a subscription the user already replaced with another one
+  // (e.g. after upgrading) must not end the new one.
+  return (
+    event.type !== "created" &&
+    current.provider === event.provider &&
+    current.subscription_id !== null &&
+    event.subscriptionId !== null &&
+    current.subscription_id !== event.subscriptionId
+  );
+}
@@ -0,0 +1,57 @@
+import type { PlanId } from "../billing/plans";
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+export type PlanStatus = "active" | "past_due" | "canceled";
+
+export interface UserPlan {
+  resourceId: string;
+  planId: PlanId;
+  status: PlanStatus;
+  // Paid plans are entitled until this date; null for the free plan.
+  currentPeriodEnd: Date | null;
+  updatedAt: Date | null;
+}
+
+export const ensurePlansTable = () =>
+  ensureSchema(
+    "user_plans",
+    `CREATE TABLE IF NOT EXISTS user_plans (
+      resource_id TEXT PRIMARY KEY,
+      plan_id TEXT NOT NULL DEFAULT 'free',
+      status TEXT NOT NULL DEFAULT 'active',
+      current_period_end TIMESTAMPTZ,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    ALTER TABLE user_plans ADD COLUMN IF NOT EXISTS provider TEXT;
+    ALTER TABLE user_plans ADD COLUMN IF NOT EXISTS customer_id TEXT;
+    ALTER TABLE user_plans ADD COLUMN IF NOT EXISTS subscription_id TEXT;
+    ALTER TABLE user_plans ADD COLUMN IF NOT EXISTS last_event_at TIMESTAMPTZ;`,
+  );
+
+function toUserPlan(row: any): UserPlan {
+  return {
+    resourceId: row.resource_id,
+    planId: row.plan_id,
+    status: row.status,
+    currentPeriodEnd: row.current_period_end,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Users without a row are on the free plan.
+export async function getUserPlan(resourceId: string): Promise<UserPlan> {
+  await ensurePlansTable();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    "SELECT * FROM user_plans WHERE resource_id = $<resourceId>",
+    { resourceId },
+  );
+  return row
+    ? toUserPlan(row)
+    : {
+        resourceId,
+        planId: "free",
+        status: "active",
+        currentPeriodEnd: null,
+        updatedAt: null,
+      };
+}
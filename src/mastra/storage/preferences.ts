@@ -0,0 +1,46 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+export interface UserPreferences {
+  reportingCurrency: string;
+}
+
+export const DEFAULT_REPORTING_CURRENCY = "USD";
+
+const ensurePreferencesTable = () =>
+  ensureSchema(
+    "user_preferences",
+    `CREATE TABLE IF NOT EXISTS user_preferences (
+      resource_id TEXT PRIMARY KEY,
+      reporting_currency TEXT NOT NULL DEFAULT '${DEFAULT_REPORTING_CURRENCY}',
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );`,
+  );
+
+export async function getPreferences(
+  resourceId: string,
+): Promise<UserPreferences> {
+  await ensurePreferencesTable();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    "SELECT * FROM user_preferences WHERE resource_id = $<resourceId>",
+    { resourceId },
+  );
+  return {
+    reportingCurrency: row?.reporting_currency ?? DEFAULT_REPORTING_CURRENCY,
+  };
+}
+
+export async function setReportingCurrency(
+  resourceId: string,
+  currency: string,
+): Promise<UserPreferences> {
+  await ensurePreferencesTable();
+  await sharedPostgresStorage.db.none(
+    `INSERT INTO user_preferences (resource_id, reporting_currency)
+      VALUES ($<resourceId>, $<currency>)
+      ON CONFLICT (resource_id) DO UPDATE SET
+        reporting_currency = EXCLUDED.reporting_currency,
+        updated_at = NOW()`,
+    { resourceId, currency },
+  );
+  return { reportingCurrency: currency };
+}
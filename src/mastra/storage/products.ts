@@ -0,0 +1,408 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+export type ProductAvailability =
+  "in_stock" | "out_of_stock" | "preorder" | "unknown";
+
+export interface MerchantProduct {
+  id: number;
+  merchant: string;
+  platform: string;
+  sku: string;
+  title: string;
+  link: string | null;
+  imageUrl: string | null;
+  priceAmount: number;
+  priceCurrency: string;
+  availability: ProductAvailability;
+  gtin: string | null;
+  brand: string | null;
+  category: string | null;
+  commissionMinPercent: number | null;
+  commissionMaxPercent: number | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+export interface MerchantProductInput {
+  sku: string;
+  title: string;
+  link: string | null;
+  imageUrl: string | null;
+  priceAmount: number;
+  priceCurrency: string;
+  availability: ProductAvailability;
+  gtin: string | null;
+  brand: string | null;
+  category: string | null;
+  commissionMinPercent: number | null;
+  commissionMaxPercent: number | null;
+}
+
+export interface ProductFeedIngestSummary {
+  merchant: string;
+  platform: string;
+  items: number;
+  created: number;
+  priceChanges: number;
+  stockChanges: number;
+  unchanged: number;
+  errors: string[];
+}
+
+export interface ProductObservation {
+  id: number;
+  observedAt: Date;
+  priceAmount: number;
+  priceCurrency: string;
+  availability: ProductAvailability;
+}
+
+export interface MerchantProductFilter {
+  category?: string;
+  keyword?: string;
+  platforms?: string[];
+  limit?: number;
+}
+
+export const ensureProductTables = () =>
+  ensureSchema(
+    "merchant_products",
+    `CREATE TABLE IF NOT EXISTS merchant_products (
+      id SERIAL PRIMARY KEY,
+      merchant TEXT NOT NULL,
+      platform TEXT NOT NULL,
+      sku TEXT NOT NULL,
+      title TEXT NOT NULL,
+      link TEXT,
+      image_url TEXT,
+      price_amount NUMERIC(14, 2) NOT NULL,
+      price_currency TEXT NOT NULL,
+      availability TEXT NOT NULL,
+      gtin TEXT,
+      brand TEXT,
+      category TEXT,
+      commission_min_percent NUMERIC(6, 2),
+      commission_max_percent NUMERIC(6, 2),
+      first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (merchant, sku)
+    );
+    CREATE INDEX IF NOT EXISTS merchant_products_platform_idx
+      ON merchant_products (platform, LOWER(category));
+    CREATE INDEX IF NOT EXISTS merchant_products_gtin_idx
+      ON merchant_products (gtin) WHERE gtin IS NOT NULL;
+    CREATE TABLE IF NOT EXISTS product_feed_ingests (
+      id SERIAL PRIMARY KEY,
+      merchant TEXT NOT NULL,
+      platform TEXT NOT NULL,
+      source TEXT NOT NULL,
+      file_hash TEXT NOT NULL,
+      summary JSONB,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE TABLE IF NOT EXISTS product_history (
+      id BIGSERIAL PRIMARY KEY,
+      product_id INTEGER NOT NULL REFERENCES merchant_products (id) ON DELETE CASCADE,
+      ingest_id INTEGER NOT NULL REFERENCES product_feed_ingests (id) ON DELETE CASCADE,
+      observed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      price_amount NUMERIC(14, 2) NOT NULL,
+      price_currency TEXT NOT NULL,
+      availability TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS product_history_product_idx
+      ON product_history (product_id, observed_at DESC);`,
+  );
+
+function optionalNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+export function toMerchantProduct(row: any): MerchantProduct {
+  return {
+    id: row.id,
+    merchant: row.merchant,
+    platform: row.platform,
+    sku: row.sku,
+    title: row.title,
+    link: row.link,
+    imageUrl: row.image_url,
+    priceAmount: Number(row.price_amount),
+    priceCurrency: row.price_currency,
+    availability: row.availability,
+    gtin: row.gtin,
+    brand: row.brand,
+    category: row.category,
+    commissionMinPercent: optionalNumber(row.commission_min_percent),
+    commissionMaxPercent: optionalNumber(row.commission_max_percent),
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at,
+  };
+}
+
+const BATCH_SIZE = 500;
+
+// Upserts one feed snapshot and appends a history row for every item, all in
+// one transaction so a failed ingest leaves neither products nor history
+// half-written. Products missing from the snapshot are left untouched.
+export async function saveProductFeed(params: {
+  merchant: string;
+  platform: string;
+  source: string;
+  fileHash: string;
+  items: MerchantProductInput[];
+  errors: string[];
+}): Promise<ProductFeedIngestSummary> {
+  await ensureProductTables();
+  const { pgp, db } = sharedPostgresStorage;
+  const { merchant, platform, items } = params;
+
+  const columns = new pgp.helpers.ColumnSet(
+    [
+      "merchant",
+      "platform",
+      "sku",
+      "title",
+      "link",
+      { name: "image_url", prop: "imageUrl" },
+      { name: "price_amount", prop: "priceAmount" },
+      { name: "price_currency", prop: "priceCurrency" },
+      "availability",
+      "gtin",
+      "brand",
+      "category",
+      { name: "commission_min_percent", prop: "commissionMinPercent" },
+      { name: "commission_max_percent", prop: "commissionMaxPercent" },
+    ],
+    { table: "merchant_products" },
+  );
+
+  const summary: ProductFeedIngestSummary = {
+    merchant,
+    platform,
+    items: items.length,
+    created: 0,
+    priceChanges: 0,
+    stockChanges: 0,
+    unchanged: 0,
+    errors: params.errors.slice(0, 20),
+  };
+
+  await db.tx(async (t) => {
+    const ingest = await t.one(
+      `INSERT INTO product_feed_ingests (merchant, platform, source, file_hash)
+        VALUES ($<merchant>, $<platform>, $<source>, $<fileHash>) RETURNING id`,
+      params,
+    );
+
+    for (let start = 0; start < items.length; start += BATCH_SIZE) {
+      const batch = items.slice(start, start + BATCH_SIZE);
+      const previous = new Map<
+        string,
+        { price: number; currency: string; availability: string }
+      >();
+      const existing = await t.manyOrNone(
+        `SELECT sku, price_amount, price_currency, availability FROM merchant_products
+          WHERE merchant = $<merchant> AND sku IN ($<skus:csv>)`,
+        { merchant, skus: batch.map((item) => item.sku) },
+      );
+      for (const row of existing) {
+        previous.set(row.sku, {
+          price: Number(row.price_amount),
+          currency: row.price_currency,
+          availability: row.availability,
+        });
+      }
+
+      const saved = await t.many(
+        `${pgp.helpers.insert(
+          batch.map((item) => ({ ...item, merchant, platform })),
+          columns,
+        )}
+          ON CONFLICT (merchant, sku) DO UPDATE SET
+            platform = EXCLUDED.platform,
+            title = EXCLUDED.title,
+            link = EXCLUDED.link,
+            image_url = EXCLUDED.image_url,
+            price_amount = EXCLUDED.price_amount,
+            price_currency = EXCLUDED.price_currency,
+            availability = EXCLUDED.availability,
+            gtin = EXCLUDED.gtin,
+            brand = EXCLUDED.brand,
+            category = EXCLUDED.category,
+            commission_min_percent = COALESCE(EXCLUDED.commission_min_percent, merchant_products.commission_min_percent),
+            commission_max_percent = COALESCE(EXCLUDED.commission_max_percent, merchant_products.commission_max_percent),
+            last_seen_at = NOW()
+          RETURNING id, sku, price_amount, price_currency, availability`,
+      );
+
+      await t.none(
+        pgp.helpers.insert(
+          saved.map((row) => ({
+            product_id: row.id,
+            ingest_id: ingest.id,
+            price_amount: row.price_amount,
+            price_currency: row.price_currency,
+            availability: row.availability,
+          })),
+          [
+            "product_id",
+            "ingest_id",
+            "price_amount",
+            "price_currency",
+            "availability",
+          ],
+          "product_history",
+        ),
+      );
+
+      for (const row of saved) {
+        const before = previous.get(row.sku);
+        if (!before) {
+          summary.created++;
+          continue;
+        }
+        const priceChanged =
+          before.price !== Number(row.price_amount) ||
+          before.currency !== row.price_currency;
+        const stockChanged = before.availability !== row.availability;
+        if (priceChanged) summary.priceChanges++;
+        if (stockChanged) summary.stockChanges++;
+        if (!priceChanged && !stockChanged) summary.unchanged++;
+      }
+    }
+
+    await t.none(
+      "UPDATE product_feed_ingests SET summary = $<summary:json> WHERE id = $<id>",
+      { id: ingest.id, summary },
+    );
+  });
+
+  return summary;
+}
+
+// Broad SQL prefilter for the catalog; callers apply exact category and
+// keyword matching on the result.
+export async function searchMerchantProducts(
+  filter: MerchantProductFilter,
+): Promise<MerchantProduct[]> {
+  await ensureProductTables();
+  const conditions = ["TRUE"];
+  if (filter.category) {
+    conditions.push("POSITION(LOWER($<category>) IN LOWER(category)) > 0");
+  }
+  if (filter.platforms) {
+    conditions.push("platform IN ($<platforms:csv>)");
+  }
+  if (filter.keyword) {
+    conditions.push(
+      "(title ILIKE ANY ($<patterns>) OR brand ILIKE ANY ($<patterns>))",
+    );
+  }
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT * FROM merchant_products
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY last_seen_at DESC
+      LIMIT $<limit>`,
+    {
+      ...filter,
+      patterns: (filter.keyword ?? "")
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((word) => `%${word.replace(/[\\%_]/g, "\\$&")}%`),
+      limit: filter.limit ?? 200,
+    },
+  );
+  return rows.map(toMerchantProduct);
+}
+
+export async function listMerchantPlatforms(): Promise<string[]> {
+  await ensureProductTables();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    "SELECT DISTINCT platform FROM merchant_products",
+  );
+  return rows.map((row) => row.platform);
+}
+
+export async function listMerchantCategories(): Promise<string[]> {
+  await ensureProductTables();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    "SELECT DISTINCT category FROM merchant_products WHERE category IS NOT NULL",
+  );
+  return rows.map((row) => row.category);
+}
+
+// Resolves what a user typed when asking to watch a product: an exact SKU,
+// GTIN or product URL first, then a title match. Returns every candidate so
+// the caller can ask the user to pick when the title is ambiguous.
+export async function findMerchantProducts(
+  query: string,
+  merchant?: string,
+): Promise<MerchantProduct[]> {
+  await ensureProductTables();
+  const scope = merchant ? "AND merchant = LOWER($<merchant>)" : "";
+  const exact = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT * FROM merchant_products
+      WHERE (sku = $<query> OR gtin = $<query> OR link = $<query>) ${scope}`,
+    { query, merchant },
+  );
+  if (exact.length > 0) {
+    return exact.map(toMerchantProduct);
+  }
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT * FROM merchant_products
+      WHERE title ILIKE $<pattern> ${scope}
+      ORDER BY (LOWER(title) = LOWER($<query>)) DESC, last_seen_at DESC
+      LIMIT 5`,
+    { query, merchant, pattern: `%${query.replace(/[\\%_]/g, "\\$&")}%` },
+  );
+  return rows.map(toMerchantProduct);
+}
+
+// Products whose link mentions `productId`, such as an ASIN, so a product
+// page URL can be matched whatever tracking parameters either link carries.
+// Callers compare the canonical links of the candidates.
+export async function findMerchantProductsByLinkId(
+  productId: string,
+  merchant?: string,
+): Promise<MerchantProduct[]> {
+  await ensureProductTables();
+  const scope = merchant ? "AND merchant = LOWER($<merchant>)" : "";
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT * FROM merchant_products
+      WHERE link ILIKE $<pattern> ${scope}
+      ORDER BY last_seen_at DESC
+      LIMIT 20`,
+    {
+      merchant,
+      pattern: `%${productId.replace(/[\\%_]/g, "\\$&")}%`,
+    },
+  );
+  return rows.map(toMerchantProduct);
+}
+
+// Observations of a product since `since`, oldest first, including the last
+// one before `since` so callers know the state the window started from.
+export async function getProductHistory(
+  productId: number,
+  since: Date,
+): Promise<ProductObservation[]> {
+  await ensureProductTables();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT id, observed_at, price_amount, price_currency, availability
+      FROM product_history
+      WHERE product_id = $<productId>
+        AND observed_at >= COALESCE(
+          (SELECT MAX(observed_at) FROM product_history
+            WHERE product_id = $<productId> AND observed_at <= $<since>),
+          $<since>)
+      ORDER BY observed_at, id`,
+    { productId, since },
+  );
+  return rows.map((row) => ({
+    id: Number(row.id),
+    observedAt: row.observed_at,
+    priceAmount: Number(row.price_amount),
+    priceCurrency: row.price_currency,
+    availability: row.availability,
+  }));
+}
@@ -0,0 +1,52 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+export interface ReportImportSummary {
+  network: string;
+  rows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  matchedLinks: number;
+  matchedCampaigns: number;
+  errors: string[];
+}
+
+const ensureReportImportsTable = () =>
+  ensureSchema(
+    "report_imports",
+    `CREATE TABLE IF NOT EXISTS report_imports (
+      id SERIAL PRIMARY KEY,
+      resource_id TEXT NOT NULL,
+      network TEXT NOT NULL,
+      file_hash TEXT NOT NULL,
+      summary JSONB NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (resource_id, file_hash)
+    );`,
+  );
+
+export async function findReportImport(
+  resourceId: string,
+  fileHash: string,
+): Promise<{ summary: ReportImportSummary; createdAt: Date } | null> {
+  await ensureReportImportsTable();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    "SELECT summary, created_at FROM report_imports WHERE resource_id = $<resourceId> AND file_hash = $<fileHash>",
+    { resourceId, fileHash },
+  );
+  return row ? { summary: row.summary, createdAt: row.created_at } : null;
+}
+
+export async function saveReportImport(
+  resourceId: string,
+  fileHash: string,
+  summary: ReportImportSummary,
+): Promise<void> {
+  await ensureReportImportsTable();
+  await sharedPostgresStorage.db.none(
+    `INSERT INTO report_imports (resource_id, network, file_hash, summary)
+      VALUES ($<resourceId>, $<network>, $<fileHash>, $<summary:json>)
+      ON CONFLICT (resource_id, file_hash) DO NOTHING`,
+    { resourceId, network: summary.network, fileHash, summary },
+  );
+}
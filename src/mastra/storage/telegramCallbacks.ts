@@ -0,0 +1,88 @@
+import { randomBytes } from "node:crypto";
+
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+// Telegram limits a button's callback_data to 64 bytes, so buttons carry a
+// short token and what the button does is stored here under it.
+export interface StoredCallback<T = unknown> {
+  token: string;
+  resourceId: string;
+  chatId: number;
+  payload: T;
+  createdAt: Date;
+}
+
+// Buttons on old messages stop working after this.
+const RETENTION = "30 days";
+const PRUNE_EVERY_MS = 60 * 60 * 1000;
+let lastPrunedAt = 0;
+
+export const ensureTelegramCallbacksTable = () =>
+  ensureSchema(
+    "telegram_callbacks",
+    `CREATE TABLE IF NOT EXISTS telegram_callbacks (
+      token TEXT PRIMARY KEY,
+      resource_id TEXT NOT NULL,
+      chat_id BIGINT NOT NULL,
+      payload JSONB NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );`,
+  );
+
+async function pruneExpiredCallbacks() {
+  if (Date.now() - lastPrunedAt < PRUNE_EVERY_MS) {
+    return;
+  }
+  lastPrunedAt = Date.now();
+  await sharedPostgresStorage.db.none(
+    "DELETE FROM telegram_callbacks WHERE created_at < NOW() - $<retention>::interval",
+    { retention: RETENTION },
+  );
+}
+
+// Stores one payload per button and returns their tokens in the same order.
+export async function saveCallbacks(
+  resourceId: string,
+  chatId: number,
+  payloads: unknown[],
+): Promise<string[]> {
+  if (payloads.length === 0) {
+    return [];
+  }
+  await ensureTelegramCallbacksTable();
+  await pruneExpiredCallbacks();
+
+  const { pgp, db } = sharedPostgresStorage;
+  const rows = payloads.map((payload) => ({
+    token: randomBytes(12).toString("base64url"),
+    resource_id: resourceId,
+    chat_id: chatId,
+    payload: JSON.stringify(payload),
+  }));
+  const columns = new pgp.helpers.ColumnSet(
+    ["token", "resource_id", "chat_id", { name: "payload", cast: "jsonb" }],
+    { table: "telegram_callbacks" },
+  );
+  await db.none(pgp.helpers.insert(rows, columns));
+  return rows.map((row) => row.token);
+}
+
+export async function findCallback<T>(
+  token: string,
+): Promise<StoredCallback<T> | null> {
+  await ensureTelegramCallbacksTable();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    `SELECT * FROM telegram_callbacks
+      WHERE token = $<token> AND created_at >= NOW() - $<retention>::interval`,
+    { token, retention: RETENTION },
+  );
+  return row
+    ? {
+        token: row.token,
+        resourceId: row.resource_id,
+        chatId: Number(row.chat_id),
+        payload: row.payload as T,
+        createdAt: row.created_at,
+      }
+    : null;
+}
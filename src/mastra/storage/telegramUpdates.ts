@@ -0,0 +1,130 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+// Every Telegram update the bot answers is recorded here before it is
+// processed. The row makes redeliveries of the same update_id no-ops, and the
+// queued and running rows of a chat decide whose turn it is, so one chat's
+// messages are answered one at a time and in the order they were sent.
+export type TelegramUpdateStatus = "queued" | "running" | "done" | "failed";
+
+// A running update started longer ago than this, or a queued one whose
+// waiter has not checked in for this long, is taken to belong to a process
+// that died; it no longer blocks the chat and may be claimed again.
+const STALE_AFTER = "10 minutes";
+
+// Finished updates only need to outlive Telegram's redelivery window.
+const RETENTION = "7 days";
+const PRUNE_EVERY_MS = 60 * 60 * 1000;
+let lastPrunedAt = 0;
+
+export const ensureTelegramUpdatesTable = () =>
+  ensureSchema(
+    "telegram_updates",
+    `CREATE TABLE IF NOT EXISTS telegram_updates (
+      update_id BIGINT PRIMARY KEY,
+      chat_id BIGINT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 1,
+      claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      started_at TIMESTAMPTZ,
+      finished_at TIMESTAMPTZ
+    );
+    CREATE INDEX IF NOT EXISTS telegram_updates_active_idx
+      ON telegram_updates (chat_id, update_id)
+      WHERE status IN ('queued', 'running');`,
+  );
+
+async function pruneFinishedUpdates() {
+  if (Date.now() - lastPrunedAt < PRUNE_EVERY_MS) {
+    return;
+  }
+  lastPrunedAt = Date.now();
+  await sharedPostgresStorage.db.none(
+    `DELETE FROM telegram_updates
+      WHERE status IN ('done', 'failed') AND claimed_at < NOW() - $<retention>::interval`,
+    { retention: RETENTION },
+  );
+}
+
+// Records the update as queued. False when it is already queued, running or
+// done, i.e. a redelivery; a failed or abandoned attempt is claimed again.
+export async function claimTelegramUpdate(
+  updateId: number,
+  chatId: number,
+): Promise<boolean> {
+  await ensureTelegramUpdatesTable();
+  await pruneFinishedUpdates();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    `INSERT INTO telegram_updates (update_id, chat_id, status)
+      VALUES ($<updateId>, $<chatId>, 'queued')
+      ON CONFLICT (update_id) DO UPDATE SET
+        status = 'queued',
+        attempts = telegram_updates.attempts + 1,
+        claimed_at = NOW(),
+        started_at = NULL,
+        finished_at = NULL
+      WHERE telegram_updates.status = 'failed'
+        OR (telegram_updates.status IN ('queued', 'running')
+          AND COALESCE(telegram_updates.started_at, telegram_updates.claimed_at)
+            < NOW() - $<stale>::interval)
+      RETURNING update_id`,
+    { updateId, chatId, stale: STALE_AFTER },
+  );
+  return row !== null;
+}
+
+export type TelegramUpdateTurn = "started" | "waiting" | "taken";
+
+// Starts the update when it is its chat's turn: nothing else of the chat is
+// running and no earlier update of the chat is still waiting. The check and
+// the status change run under a per-chat transaction lock, so two updates
+// arriving together cannot both see the chat as idle. While the update has
+// to wait, each call keeps its claim fresh; "taken" means another delivery
+// of the same update has started it in the meantime.
+export async function startTelegramUpdate(
+  updateId: number,
+  chatId: number,
+): Promise<TelegramUpdateTurn> {
+  await ensureTelegramUpdatesTable();
+  return sharedPostgresStorage.db.tx(async (t) => {
+    await t.none("SELECT pg_advisory_xact_lock(hashtext($<key>))", {
+      key: `telegram-chat:${chatId}`,
+    });
+    const started = await t.oneOrNone(
+      `UPDATE telegram_updates SET status = 'running', started_at = NOW()
+        WHERE update_id = $<updateId> AND status = 'queued'
+          AND NOT EXISTS (
+            SELECT 1 FROM telegram_updates other
+            WHERE other.chat_id = $<chatId>
+              AND other.update_id <> $<updateId>
+              AND COALESCE(other.started_at, other.claimed_at)
+                >= NOW() - $<stale>::interval
+              AND (other.status = 'running'
+                OR (other.status = 'queued' AND other.update_id < $<updateId>))
+          )
+        RETURNING update_id`,
+      { updateId, chatId, stale: STALE_AFTER },
+    );
+    if (started) {
+      return "started";
+    }
+    const waiting = await t.oneOrNone(
+      `UPDATE telegram_updates SET claimed_at = NOW()
+        WHERE update_id = $<updateId> AND status = 'queued'
+        RETURNING update_id`,
+      { updateId },
+    );
+    return waiting ? "waiting" : "taken";
+  });
+}
+
+export async function finishTelegramUpdate(
+  updateId: number,
+  status: Extract<TelegramUpdateStatus, "done" | "failed">,
+): Promise<void> {
+  await ensureTelegramUpdatesTable();
+  await sharedPostgresStorage.db.none(
+    `UPDATE telegram_updates SET status = $<status>, finished_at = NOW()
+      WHERE update_id = $<updateId>`,
+    { updateId, status },
+  );
+}
@@ -0,0 +1,56 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+// Daily counters per user: agent messages, content generations and every
+// tool call ("tool:<tool id>").
+export const ensureUsageTable = () =>
+  ensureSchema(
+    "usage_counters",
+    `CREATE TABLE IF NOT EXISTS usage_counters (
+      resource_id TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      day DATE NOT NULL,
+      count INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (resource_id, metric, day)
+    );`,
+  );
+
+export function usageDay(at: Date = new Date()): string {
+  return at.toISOString().split("T")[0]!;
+}
+
+// Adds one to today's counter unless that would go over `limit`, in one
+// statement so concurrent requests cannot both take the last unit. Returns
+// the new count, or null when the limit was already reached.
+export async function incrementUsage(
+  resourceId: string,
+  metric: string,
+  limit: number | null = null,
+  day: string = usageDay(),
+): Promise<number | null> {
+  await ensureUsageTable();
+  if (limit !== null && limit <= 0) {
+    return null;
+  }
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    `INSERT INTO usage_counters (resource_id, metric, day, count)
+      VALUES ($<resourceId>, $<metric>, $<day>, 1)
+      ON CONFLICT (resource_id, metric, day) DO UPDATE SET
+        count = usage_counters.count + 1
+        ${limit === null ? "" : "WHERE usage_counters.count < $<limit>"}
+      RETURNING count`,
+    { resourceId, metric, day, limit },
+  );
+  return row ? row.count : null;
+}
+
+export async function getDailyUsage(
+  resourceId: string,
+  day: string = usageDay(),
+): Promise<Record<string, number>> {
+  await ensureUsageTable();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    "SELECT metric, count FROM usage_counters WHERE resource_id = $<resourceId> AND day = $<day>",
+    { resourceId, day },
+  );
+  return Object.fromEntries(rows.map((row) => [row.metric, row.count]));
+}
@@ -0,0 +1,148 @@
+import { randomUUID } from "node:crypto";
+
+import { ensureSchema, sharedPostgresStorage } from "./index";
+
+// Chat platforms a person can talk to the bot from. Each account on them is
+// an identity of exactly one internal user.
+export type IdentityProvider = "telegram" | "slack";
+
+// Internal users key everything that belongs to a person: agent memory,
+// links, alerts, imports and analytics all use `id` as their resource id.
+export interface AppUser {
+  id: string;
+  displayName: string | null;
+  createdAt: Date;
+}
+
+export interface UserProfile {
+  displayName?: string | null;
+}
+
+// Raised when data would be read or written without knowing whose it is.
+export class MissingUserError extends Error {}
+
+export const ensureUserTables = () =>
+  ensureSchema(
+    "app_users",
+    `CREATE TABLE IF NOT EXISTS app_users (
+      id TEXT PRIMARY KEY,
+      display_name TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+    CREATE TABLE IF NOT EXISTS user_identities (
+      provider TEXT NOT NULL,
+      external_id TEXT NOT NULL,
+      user_id TEXT NOT NULL REFERENCES app_users (id) ON DELETE CASCADE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (provider, external_id)
+    );
+    CREATE INDEX IF NOT EXISTS user_identities_user_idx
+      ON user_identities (user_id);`,
+  );
+
+function toUser(row: any): AppUser {
+  return {
+    id: row.id,
+    displayName: row.display_name,
+    createdAt: row.created_at,
+  };
+}
+
+// Everything was stored under the resource "bot" before users existed. The
+// identity named in LEGACY_DATA_OWNER (e.g. "telegram:123456789") becomes
+// that user the first time it talks to the bot, and so keeps its data.
+function newUserId(provider: IdentityProvider, externalId: string): string {
+  return process.env.LEGACY_DATA_OWNER === `${provider}:${externalId}`
+    ? "bot"
+    : `usr_${randomUUID().replace(/-/g, "")}`;
+}
+
+// Returns the user behind a chat identity, creating one on first contact.
+export async function resolveUser(
+  provider: IdentityProvider,
+  externalId: string,
+  profile: UserProfile = {},
+): Promise<AppUser> {
+  await ensureUserTables();
+  return sharedPostgresStorage.db.tx(async (t) => {
+    const existing = await t.oneOrNone(
+      `UPDATE app_users u SET
+          display_name = COALESCE($<displayName>, u.display_name),
+          last_seen_at = NOW()
+        FROM user_identities i
+        WHERE i.provider = $<provider> AND i.external_id = $<externalId>
+          AND u.id = i.user_id
+        RETURNING u.*`,
+      { provider, externalId, displayName: profile.displayName ?? null },
+    );
+    if (existing) {
+      return toUser(existing);
+    }
+
+    const id = newUserId(provider, externalId);
+    await t.none(
+      `INSERT INTO app_users (id, display_name) VALUES ($<id>, $<displayName>)
+        ON CONFLICT (id) DO NOTHING`,
+      { id, displayName: profile.displayName ?? null },
+    );
+    // A concurrent first message may have created the identity meanwhile;
+    // whichever insert won decides the user.
+    const identity = await t.one(
+      `WITH inserted AS (
+        INSERT INTO user_identities (provider, external_id, user_id)
+          VALUES ($<provider>, $<externalId>, $<id>)
+          ON CONFLICT (provider, external_id) DO NOTHING
+          RETURNING user_id
+      )
+      SELECT user_id FROM inserted
+      UNION ALL
+      SELECT user_id FROM user_identities
+        WHERE provider = $<provider> AND external_id = $<externalId>
+      LIMIT 1`,
+      { provider, externalId, id },
+    );
+    if (identity.user_id !== id) {
+      await t.none("DELETE FROM app_users WHERE id = $<id>", { id });
+    }
+    return toUser(
+      await t.one("SELECT * FROM app_users WHERE id = $<id>", {
+        id: identity.user_id,
+      }),
+    );
+  });
+}
+
+export async function findUser(id: string): Promise<AppUser | null> {
+  await ensureUserTables();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    "SELECT * FROM app_users WHERE id = $<id>",
+    { id },
+  );
+  return row ? toUser(row) : null;
+}
+
+export async function findUserByIdentity(
+  provider: IdentityProvider,
+  externalId: string,
+): Promise<AppUser | null> {
+  await ensureUserTables();
+  const row = await sharedPostgresStorage.db.oneOrNone(
+    `SELECT u.* FROM app_users u
+      JOIN user_identities i ON i.user_id = u.id
+      WHERE i.provider = $<provider> AND i.external_id = $<externalId>`,
+    { provider, externalId },
+  );
+  return row ? toUser(row) : null;
+}
+
+// Tools receive the user as the agent's resource id. There is deliberately
+// no fallback: without a user there is no data the tool may touch.
+export function requireUserId(resourceId: string | undefined): string {
+  if (!resourceId) {
+    throw new MissingUserError(
+      "This request is not linked to a user, so there is no account data to work with",
+    );
+  }
+  return resourceId;
+}
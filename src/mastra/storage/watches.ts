@@ -0,0 +1,121 @@
+import { ensureSchema, sharedPostgresStorage } from "./index";
+import {
+  type MerchantProduct,
+  ensureProductTables,
+  toMerchantProduct,
+} from "./products";
+
+export interface ProductWatch {
+  id: number;
+  resourceId: string;
+  // Alert when the price falls this many percent below the highest price
+  // seen since the watch started.
+  percentDrop: number | null;
+  // Alert when the price reaches this amount (in the product's currency).
+  targetPrice: number | null;
+  notifyRestock: boolean;
+  createdAt: Date;
+  product: MerchantProduct;
+}
+
+export interface WatchThresholds {
+  percentDrop?: number | null;
+  targetPrice?: number | null;
+  notifyRestock?: boolean;
+}
+
+export const ensureWatchesTable = async () => {
+  await ensureProductTables();
+  await ensureSchema(
+    "product_watches",
+    `CREATE TABLE IF NOT EXISTS product_watches (
+      id SERIAL PRIMARY KEY,
+      resource_id TEXT NOT NULL,
+      product_id INTEGER NOT NULL REFERENCES merchant_products (id) ON DELETE CASCADE,
+      percent_drop NUMERIC(5, 2),
+      target_price NUMERIC(14, 2),
+      notify_restock BOOLEAN NOT NULL DEFAULT FALSE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (resource_id, product_id)
+    );`,
+  );
+};
+
+const WATCH_COLUMNS = `w.id AS watch_id, w.resource_id, w.percent_drop, w.target_price,
+  w.notify_restock, w.created_at AS watch_created_at, p.*`;
+
+function toWatch(row: any): ProductWatch {
+  return {
+    id: row.watch_id,
+    resourceId: row.resource_id,
+    percentDrop: row.percent_drop === null ? null : Number(row.percent_drop),
+    targetPrice: row.target_price === null ? null : Number(row.target_price),
+    notifyRestock: row.notify_restock,
+    createdAt: row.watch_created_at,
+    product: toMerchantProduct(row),
+  };
+}
+
+// Creates the watch, or replaces the thresholds of an existing one. The
+// start date is kept so history before a threshold change still counts.
+export async function upsertWatch(
+  resourceId: string,
+  productId: number,
+  thresholds: WatchThresholds,
+): Promise<ProductWatch> {
+  await ensureWatchesTable();
+  const { db } = sharedPostgresStorage;
+  const { id } = await db.one(
+    `INSERT INTO product_watches (resource_id, product_id, percent_drop, target_price, notify_restock)
+      VALUES ($<resourceId>, $<productId>, $<percentDrop>, $<targetPrice>, $<notifyRestock>)
+      ON CONFLICT (resource_id, product_id) DO UPDATE SET
+        percent_drop = EXCLUDED.percent_drop,
+        target_price = EXCLUDED.target_price,
+        notify_restock = EXCLUDED.notify_restock,
+        updated_at = NOW()
+      RETURNING id`,
+    {
+      resourceId,
+      productId,
+      percentDrop: thresholds.percentDrop ?? null,
+      targetPrice: thresholds.targetPrice ?? null,
+      notifyRestock: thresholds.notifyRestock ?? false,
+    },
+  );
+  const row = await db.one(
+    `SELECT ${WATCH_COLUMNS} FROM product_watches w
+      JOIN merchant_products p ON p.id = w.product_id
+      WHERE w.id = $<id>`,
+    { id },
+  );
+  return toWatch(row);
+}
+
+export async function listWatches(
+  resourceId: string,
+  filter: { platforms?: string[] } = {},
+): Promise<ProductWatch[]> {
+  await ensureWatchesTable();
+  const rows = await sharedPostgresStorage.db.manyOrNone(
+    `SELECT ${WATCH_COLUMNS} FROM product_watches w
+      JOIN merchant_products p ON p.id = w.product_id
+      WHERE w.resource_id = $<resourceId>
+        ${filter.platforms ? "AND p.platform IN ($<platforms:csv>)" : ""}
+      ORDER BY w.created_at`,
+    { resourceId, platforms: filter.platforms },
+  );
+  return rows.map(toWatch);
+}
+
+export async function deleteWatch(
+  resourceId: string,
+  productId: number,
+): Promise<boolean> {
+  await ensureWatchesTable();
+  const result = await sharedPostgresStorage.db.result(
+    "DELETE FROM product_watches WHERE resource_id = $<resourceId> AND product_id = $<productId>",
+    { resourceId, productId },
+  );
+  return result.rowCount > 0;
+}
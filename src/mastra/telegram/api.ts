@@ -0,0 +1,117 @@
+import { renderTelegramMessages } from "./format";
+
+const TELEGRAM_API_BASE = "https://api.telegram.org";
+
+export class TelegramApiError extends Error {
+  constructor(
+    readonly method: string,
+    readonly status: number,
+    readonly description: string,
+  ) {
+    super(`Telegram ${method} failed (${status}): ${description}`);
+  }
+}
+
+function botToken(): string {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) {
+    throw new Error("TELEGRAM_BOT_TOKEN is not configured");
+  }
+  return token;
+}
+
+export async function callTelegram<T = unknown>(
+  method: string,
+  body: Record<string, unknown>,
+): Promise<T> {
+  const response = await fetch(
+    `${TELEGRAM_API_BASE}/bot${botToken()}/${method}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+  );
+  const json: any = await response.json().catch(() => ({}));
+  if (!response.ok || !json.ok) {
+    throw new TelegramApiError(
+      method,
+      response.status,
+      json.description ?? response.statusText,
+    );
+  }
+  return json.result as T;
+}
+
+export function sendTelegramMessage(
+  chatId: string | number,
+  text: string,
+  options: Record<string, unknown> = {},
+) {
+  return callTelegram("sendMessage", { chat_id: chatId, text, ...options });
+}
+
+// Telegram answers "Bad Request: can't parse entities: ..." for markup it
+// does not accept.
+function isFormattingError(error: unknown): boolean {
+  return (
+    error instanceof TelegramApiError &&
+    error.status === 400 &&
+    /can't parse entities/i.test(error.description)
+  );
+}
+
+// Sends Markdown from the agent as one or more formatted messages. The first
+// message replies to `replyTo` and the last carries `replyMarkup`, so buttons
+// sit under the end of the answer. A message whose formatting Telegram still
+// rejects is sent again as plain text rather than dropped.
+export async function sendTelegramReply(
+  chatId: string | number,
+  markdown: string,
+  { replyTo, replyMarkup }: { replyTo?: number; replyMarkup?: unknown } = {},
+): Promise<void> {
+  const chunks = renderTelegramMessages(markdown);
+  for (const [index, chunk] of chunks.entries()) {
+    const options = {
+      reply_to_message_id: index === 0 ? replyTo : undefined,
+      reply_markup: index === chunks.length - 1 ? replyMarkup : undefined,
+    };
+    try {
+      await sendTelegramMessage(chatId, chunk.html, {
+        ...options,
+        parse_mode: "HTML",
+      });
+    } catch (error) {
+      if (!isFormattingError(error)) {
+        throw error;
+      }
+      await sendTelegramMessage(chatId, chunk.text, options);
+    }
+  }
+}
+
+// Downloads a file the user sent to the bot. Bots may only fetch files up to 20 MB.
+export async function downloadTelegramFile(
+  fileId: string,
+  maxBytes = 20 * 1024 * 1024,
+): Promise<Buffer> {
+  const file = await callTelegram<{ file_path?: string; file_size?: number }>(
+    "getFile",
+    { file_id: fileId },
+  );
+  if (!file.file_path) {
+    throw new Error("Telegram did not return a path for this file");
+  }
+  if (file.file_size && file.file_size > maxBytes) {
+    throw new Error(
+      `File is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`,
+    );
+  }
+  const response = await fetch(
+    `${TELEGRAM_API_BASE}/file/bot${botToken()}/${file.file_path}`,
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to download Telegram file: ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
@@ -0,0 +1,247 @@
+import { findMerchantProducts } from "../storage/products";
+import { productDiscoveryTool } from "../tools/productDiscoveryTool";
+import { linkManagementTool } from "../tools/linkManagementTool";
+import { analyticsSimulationTool } from "../tools/analyticsSimulationTool";
+import { alertsTool } from "../tools/alertsTool";
+import { campaignTool } from "../tools/campaignTool";
+import { planTool } from "../tools/planTool";
+import { sendTelegramReply } from "./api";
+import { TELEGRAM_COMMANDS, type TelegramCommand } from "./commands";
+import {
+  type ActionContext,
+  type ProductContext,
+  QUICK_WATCH_PERCENT_DROP,
+  describeProducts,
+  errorReply,
+  productKeyboard,
+  runTool,
+  toProductContext,
+} from "./productActions";
+import type { InlineKeyboardMarkup } from "./updates";
+
+interface CommandReply {
+  text: string;
+  replyMarkup?: InlineKeyboardMarkup;
+}
+
+// A readable product name from a product page URL when the catalog does not
+// know the page, e.g. ".../Sony-WH-1000XM5-Headphones/dp/B09XS7JWHH" gives
+// "Sony WH 1000XM5 Headphones".
+function nameFromUrl(url: string): string {
+  const { hostname, pathname } = new URL(url);
+  const slug = pathname
+    .split("/")
+    .map((segment) => decodeURIComponent(segment).replace(/\.\w+$/, ""))
+    .filter((segment) => /[a-z]/i.test(segment) && /[-_]/.test(segment))
+    .sort((a, b) => b.length - a.length)[0];
+  return slug
+    ? slug.replace(/[-_]+/g, " ").trim()
+    : `Product on ${hostname.replace(/^www\./, "")}`;
+}
+
+async function products(
+  category: string,
+  context: ActionContext,
+): Promise<CommandReply> {
+  const result = await runTool(productDiscoveryTool, { category }, context);
+  const found: ProductContext[] = result.products.map(toProductContext);
+  if (found.length === 0) {
+    return { text: result.notice ?? `I found no ${category} products.` };
+  }
+  return {
+    text: `Top ${category} products to promote:\n\n${describeProducts(found)}`,
+    replyMarkup: await productKeyboard(
+      context.resourceId,
+      context.chatId,
+      found,
+      {
+        category,
+        region: "global",
+        offset: 0,
+        count: found.length,
+      },
+    ),
+  };
+}
+
+async function link(
+  url: string,
+  productName: string | undefined,
+  context: ActionContext,
+): Promise<CommandReply> {
+  const known = productName
+    ? undefined
+    : (await findMerchantProducts(url)).find((product) => product.link === url);
+  const { links } = await runTool(
+    linkManagementTool,
+    {
+      action: "create",
+      productName: productName ?? known?.title ?? nameFromUrl(url),
+      originalUrl: url,
+      price: known?.priceAmount,
+      priceCurrency: known?.priceCurrency,
+    },
+    context,
+  );
+  const created = links[0]!;
+  return {
+    text: `🔗 Your link for ${created.product_name}:\n${created.short_link}\n\nClicks and sales through it show up in /stats.`,
+  };
+}
+
+async function stats(
+  period: "week" | "month",
+  context: ActionContext,
+): Promise<CommandReply> {
+  const { analytics } = await runTool(
+    analyticsSimulationTool,
+    { timeframe: period === "week" ? "weekly" : "monthly" },
+    context,
+  );
+  const lines = analytics.map(
+    (metric) =>
+      `• **${metric.metric_name}:** ${metric.current_value} (${metric.trend})`,
+  );
+  return {
+    text: `📊 Your stats for the last ${period}:\n\n${lines.join("\n")}`,
+  };
+}
+
+async function alerts(context: ActionContext): Promise<CommandReply> {
+  const result = await runTool(alertsTool, { action: "check" }, context);
+  const found = result.alerts;
+  if (found.length === 0) {
+    return { text: result.notice ?? "✅ No alerts right now." };
+  }
+  const lines = found.map(
+    (alert) =>
+      `**${alert.title}** [${alert.priority}]\n${alert.message}\n➡️ ${alert.action_required}`,
+  );
+  return { text: `🔔 Your alerts:\n\n${lines.join("\n\n")}` };
+}
+
+async function watch(
+  product: string,
+  targetPrice: number | undefined,
+  context: ActionContext,
+): Promise<CommandReply> {
+  const { watches = [] } = await runTool(
+    alertsTool,
+    targetPrice === undefined
+      ? {
+          action: "watch",
+          product,
+          percentDrop: QUICK_WATCH_PERCENT_DROP,
+          notifyRestock: true,
+        }
+      : { action: "watch", product, targetPrice },
+    context,
+  );
+  const watched = watches[0]!;
+  const condition = watched.target_price
+    ? `reaches ${watched.target_price}`
+    : `drops ${QUICK_WATCH_PERCENT_DROP}% or comes back in stock`;
+  return {
+    text: `👀 Watching ${watched.product} (now ${watched.current_price}). I'll alert you when it ${condition}.`,
+  };
+}
+
+async function campaigns(context: ActionContext): Promise<CommandReply> {
+  const result = await runTool(campaignTool, { action: "list" }, context);
+  const lines = result.campaigns.map(({ name, status, performance }) => {
+    const figures = performance
+      ? [
+          `${performance.clicks} clicks`,
+          `${performance.conversions} sales`,
+          `${performance.revenue} revenue`,
+          `${performance.spend} spent`,
+          ...(performance.roas === undefined
+            ? []
+            : [`ROAS ${performance.roas.toFixed(2)}`]),
+        ].join(" · ")
+      : "no activity yet";
+    return `• **${name}** (${status}): ${figures}`;
+  });
+  return {
+    text:
+      lines.length > 0
+        ? `📁 Your campaigns:\n\n${lines.join("\n")}`
+        : result.message,
+  };
+}
+
+async function plan(context: ActionContext): Promise<CommandReply> {
+  const result = await runTool(planTool, {}, context);
+  const usage = result.usage.map(
+    (item) => `• ${item.limit_name}: ${item.used} of ${item.limit}`,
+  );
+  return {
+    text: `💳 ${result.message}${result.renews_or_ends ? ` Renews or ends on ${result.renews_or_ends}.` : ""}\n\n${usage.join("\n")}`,
+  };
+}
+
+function help(): CommandReply {
+  const lines = TELEGRAM_COMMANDS.map(
+    ({ usage, description }) => `\`${usage}\` – ${description}`,
+  );
+  return {
+    text: `Here's what I can do right away:\n\n${lines.join("\n")}\n\nOr just ask me anything in your own words, like "write an Instagram post for my headphones link".`,
+  };
+}
+
+function runCommand(
+  command: TelegramCommand,
+  context: ActionContext,
+): Promise<CommandReply> | CommandReply {
+  switch (command.name) {
+    case "products":
+      return products(command.category, context);
+    case "link":
+      return link(command.url, command.productName, context);
+    case "stats":
+      return stats(command.period, context);
+    case "alerts":
+      return alerts(context);
+    case "watch":
+      return watch(command.product, command.targetPrice, context);
+    case "campaigns":
+      return campaigns(context);
+    case "plan":
+      return plan(context);
+    case "help":
+      return help();
+    case "invalid":
+      return { text: `Usage: \`${command.usage}\`` };
+  }
+}
+
+// Answers a slash command with the tool behind it, without the agent.
+export async function handleTelegramCommand({
+  mastra,
+  resourceId,
+  chatId,
+  messageId,
+  command,
+}: ActionContext & {
+  messageId: number;
+  command: TelegramCommand;
+}): Promise<void> {
+  const logger = mastra.getLogger();
+  logger?.info("📱 [Telegram] Command received", { command: command.name });
+
+  let reply: CommandReply;
+  try {
+    reply = await runCommand(command, { mastra, resourceId, chatId });
+  } catch (error) {
+    logger?.error("❌ [Telegram] Command failed", {
+      command: command.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    reply = { text: errorReply(error) };
+  }
+
+  await sendTelegramReply(chatId, reply.text, {
+    replyTo: messageId,
+    replyMarkup: reply.replyMarkup,
+  });
+}
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { isCommandForOtherBot, parseTelegramCommand } from "./commands";
+
+describe("parseTelegramCommand", () => {
+  test("parses every usage form", () => {
+    for (const [text, command] of [
+      ["/start", { name: "help" }],
+      ["/help", { name: "help" }],
+      [
+        "/products fitness trackers",
+        { name: "products", category: "fitness trackers" },
+      ],
+      [
+        "/link https://www.amazon.in/dp/B0CHX3QBCH",
+        {
+          name: "link",
+          url: "https://www.amazon.in/dp/B0CHX3QBCH",
+          productName: undefined,
+        },
+      ],
+      [
+        "/link https://www.amazon.in/dp/B0CHX3QBCH Sony WH-1000XM5",
+        {
+          name: "link",
+          url: "https://www.amazon.in/dp/B0CHX3QBCH",
+          productName: "Sony WH-1000XM5",
+        },
+      ],
+      ["/stats", { name: "stats", period: "week" }],
+      ["/stats weekly", { name: "stats", period: "week" }],
+      ["/stats Month", { name: "stats", period: "month" }],
+      ["/alerts", { name: "alerts" }],
+      ["/campaigns", { name: "campaigns" }],
+      ["/plan", { name: "plan" }],
+    ] as const) {
+      assert.deepEqual(parseTelegramCommand(text), command, text);
+    }
+  });
+
+  test("ignores the bot name and letter case of the command", () => {
+    assert.deepEqual(parseTelegramCommand("/stats@AffiliateOSBot month"), {
+      name: "stats",
+      period: "month",
+    });
+    assert.deepEqual(parseTelegramCommand("  /PLAN@affiliateosbot  "), {
+      name: "plan",
+    });
+  });
+
+  test("reads an optional target price at the end of /watch", () => {
+    for (const [text, command] of [
+      [
+        "/watch https://www.amazon.in/dp/B0CHX3QBCH",
+        { name: "watch", product: "https://www.amazon.in/dp/B0CHX3QBCH" },
+      ],
+      [
+        "/watch https://www.amazon.in/dp/B0CHX3QBCH ₹1,299",
+        {
+          name: "watch",
+          product: "https://www.amazon.in/dp/B0CHX3QBCH",
+          targetPrice: 1299,
+        },
+      ],
+      [
+        "/watch Sony WH-1000XM5 $249.99",
+        { name: "watch", product: "Sony WH-1000XM5", targetPrice: 249.99 },
+      ],
+      // A lone number is the product, and a zero price is part of the name.
+      ["/watch 42", { name: "watch", product: "42" }],
+      ["/watch Pixel 0", { name: "watch", product: "Pixel 0" }],
+    ] as const) {
+      assert.deepEqual(parseTelegramCommand(text), command, text);
+    }
+  });
+
+  test("answers known commands with unusable arguments with their usage", () => {
+    for (const [text, command, usage] of [
+      ["/products", "products", "/products <category>"],
+      ["/link", "link", "/link <product url> [product name]"],
+      [
+        "/link amazon.in/dp/B0CHX3QBCH",
+        "link",
+        "/link <product url> [product name]",
+      ],
+      ["/stats yesterday", "stats", "/stats [week|month]"],
+      ["/watch", "watch", "/watch <product url> [target price]"],
+    ] as const) {
+      assert.deepEqual(
+        parseTelegramCommand(text),
+        { name: "invalid", command, usage },
+        text,
+      );
+    }
+  });
+
+  test("leaves other text and unknown commands to the agent", () => {
+    for (const text of ["hello", "what about /stats?", "/unknown", "/", ""]) {
+      assert.equal(parseTelegramCommand(text), null, text);
+    }
+  });
+});
+
+describe("isCommandForOtherBot", () => {
+  test("only matches commands named after another bot", () => {
+    assert.equal(
+      isCommandForOtherBot("/stats@OtherBot", "AffiliateOSBot"),
+      true,
+    );
+    assert.equal(
+      isCommandForOtherBot("/stats@affiliateosbot", "AffiliateOSBot"),
+      false,
+    );
+    assert.equal(isCommandForOtherBot("/stats", "AffiliateOSBot"), false);
+    assert.equal(
+      isCommandForOtherBot("mail me@OtherBot", "AffiliateOSBot"),
+      false,
+    );
+  });
+
+  test("takes every command for the bot while its name is unknown", () => {
+    assert.equal(isCommandForOtherBot("/stats@OtherBot", undefined), false);
+  });
+});
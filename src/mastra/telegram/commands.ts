@@ -0,0 +1,175 @@
+import { callTelegram } from "./api";
+
+// Slash commands for routine requests. They are parsed here without the
+// agent and run the tools directly (see commandActions.ts); any other text,
+// including unknown commands, still goes to the agent.
+export const TELEGRAM_COMMANDS = [
+  {
+    command: "products",
+    usage: "/products <category>",
+    description: "Top products to promote in a category",
+  },
+  {
+    command: "link",
+    usage: "/link <product url> [product name]",
+    description: "Create a tracked affiliate link",
+  },
+  {
+    command: "stats",
+    usage: "/stats [week|month]",
+    description: "Clicks, conversions and revenue",
+  },
+  {
+    command: "alerts",
+    usage: "/alerts",
+    description: "Price drops, broken links and other alerts",
+  },
+  {
+    command: "watch",
+    usage: "/watch <product url> [target price]",
+    description: "Get alerted when a product's price drops",
+  },
+  {
+    command: "campaigns",
+    usage: "/campaigns",
+    description: "Your campaigns and how they perform",
+  },
+  {
+    command: "plan",
+    usage: "/plan",
+    description: "Your plan and what you have used",
+  },
+  {
+    command: "help",
+    usage: "/help",
+    description: "What the bot can do",
+  },
+] as const;
+
+export type TelegramCommandName = (typeof TELEGRAM_COMMANDS)[number]["command"];
+
+export type TelegramCommand =
+  | { name: "products"; category: string }
+  | { name: "link"; url: string; productName?: string }
+  | { name: "stats"; period: "week" | "month" }
+  | { name: "watch"; product: string; targetPrice?: number }
+  | { name: "alerts" | "campaigns" | "plan" | "help" }
+  // A known command with arguments it cannot use.
+  | { name: "invalid"; command: TelegramCommandName; usage: string };
+
+function invalid(command: TelegramCommandName): TelegramCommand {
+  const { usage } = TELEGRAM_COMMANDS.find((item) => item.command === command)!;
+  return { name: "invalid", command, usage };
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// "49.99", "$49.99" or "₹1,299"; null for anything else.
+function parsePrice(value: string): number | null {
+  const match = /^[^\d\s]{0,3}(\d[\d,]*(?:\.\d+)?)$/.exec(value);
+  const price = match ? Number(match[1]!.replace(/,/g, "")) : NaN;
+  return price > 0 ? price : null;
+}
+
+// True for "/stats@OtherBot" when the bot is not OtherBot: in groups with
+// several bots, Telegram can deliver commands meant for the others too.
+// Unknown usernames count as the bot's own.
+export function isCommandForOtherBot(
+  text: string,
+  botUsername: string | undefined,
+): boolean {
+  const addressee = /^\/[a-z_]+@(\w+)/i.exec(text.trim())?.[1];
+  return Boolean(
+    addressee &&
+    botUsername &&
+    addressee.toLowerCase() !== botUsername.toLowerCase(),
+  );
+}
+
+// Null when the text is not one of the bot's commands. "/stats@ThisBot" is
+// treated like "/stats"; see isCommandForOtherBot for other bots' commands.
+export function parseTelegramCommand(text: string): TelegramCommand | null {
+  const match = /^\/([a-z_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/i.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const args = (match[2] ?? "").trim();
+  const words = args.split(/\s+/).filter(Boolean);
+
+  switch (match[1]!.toLowerCase()) {
+    // Sent when someone opens the bot for the first time.
+    case "start":
+    case "help":
+      return { name: "help" };
+    case "products":
+      return args ? { name: "products", category: args } : invalid("products");
+    case "link": {
+      const [url, ...name] = words;
+      if (!url || !isHttpUrl(url)) {
+        return invalid("link");
+      }
+      return {
+        name: "link",
+        url,
+        productName: name.length > 0 ? name.join(" ") : undefined,
+      };
+    }
+    case "stats":
+      if (!args || /^week(ly)?$/i.test(args)) {
+        return { name: "stats", period: "week" };
+      }
+      if (/^month(ly)?$/i.test(args)) {
+        return { name: "stats", period: "month" };
+      }
+      return invalid("stats");
+    case "watch": {
+      const price = words.length > 1 ? parsePrice(words.at(-1)!) : null;
+      const product = (price === null ? words : words.slice(0, -1)).join(" ");
+      if (!product) {
+        return invalid("watch");
+      }
+      return price === null
+        ? { name: "watch", product }
+        : { name: "watch", product, targetPrice: price };
+    }
+    case "alerts":
+      return { name: "alerts" };
+    case "campaigns":
+      return { name: "campaigns" };
+    case "plan":
+      return { name: "plan" };
+    default:
+      return null;
+  }
+}
+
+let botUsername: Promise<string | undefined> | undefined;
+
+// The bot's own username, looked up once. Undefined while Telegram cannot be
+// reached, and looked up again on the next call.
+export function telegramBotUsername(): Promise<string | undefined> {
+  botUsername ??= callTelegram<{ username?: string }>("getMe", {}).then(
+    (bot) => bot.username,
+    () => {
+      botUsername = undefined;
+      return undefined;
+    },
+  );
+  return botUsername;
+}
+
+// Publishes the command menu Telegram shows when a user types "/".
+export function registerTelegramCommands(): Promise<unknown> {
+  return callTelegram("setMyCommands", {
+    commands: TELEGRAM_COMMANDS.map(({ command, description }) => ({
+      command,
+      description,
+    })),
+  });
+}
@@ -0,0 +1,118 @@
+import type { Mastra } from "@mastra/core";
+
+import {
+  AdSpendImportError,
+  describeAdSpendImport,
+  importAdSpendCsv,
+  isAdSpendReport,
+} from "../imports/adSpendImport";
+import { parseCsvRecords } from "../imports/csv";
+import {
+  ReportImportError,
+  describeImportResult,
+  importEarningsReport,
+} from "../imports/earningsImport";
+import { NETWORK_REPORT_MAPPINGS } from "../imports/networkReports";
+import { getPreferences } from "../storage/preferences";
+import { downloadTelegramFile, sendTelegramMessage } from "./api";
+
+const MAX_REPORT_BYTES = 5 * 1024 * 1024;
+
+export function isCsvDocument(document: {
+  file_name?: string;
+  mime_type?: string;
+}): boolean {
+  return (
+    /\.(csv|tsv|txt)$/i.test(document.file_name ?? "") ||
+    ["text/csv", "text/comma-separated-values", "application/csv"].includes(
+      document.mime_type ?? "",
+    )
+  );
+}
+
+// The caption may name the network ("amazon", "flipkart report", ...);
+// otherwise the importer detects it from the report columns.
+function networkFromCaption(caption: string | undefined): string | undefined {
+  const words = (caption ?? "").toLowerCase().split(/[^a-z0-9_-]+/);
+  const known = NETWORK_REPORT_MAPPINGS.map((mapping) => mapping.network);
+  return words.find((word) => known.includes(word));
+}
+
+// Ads exports rarely have a channel column, so the caption names it
+// ("facebook spend", "google ads", ...).
+const AD_CHANNELS = [
+  "facebook",
+  "meta",
+  "instagram",
+  "google",
+  "youtube",
+  "tiktok",
+  "pinterest",
+  "snapchat",
+  "bing",
+  "reddit",
+  "twitter",
+];
+
+function channelFromCaption(caption: string | undefined): string | undefined {
+  const words = (caption ?? "").toLowerCase().split(/[^a-z0-9_-]+/);
+  return words.find((word) => AD_CHANNELS.includes(word));
+}
+
+export async function handleTelegramReportUpload({
+  mastra,
+  resourceId,
+  chatId,
+  messageId,
+  document,
+  caption,
+}: {
+  mastra: Mastra;
+  resourceId: string;
+  chatId: number;
+  messageId: number;
+  document: { file_id: string; file_name?: string; file_size?: number };
+  caption?: string;
+}): Promise<void> {
+  const logger = mastra.getLogger();
+  logger?.info("📥 [Telegram] Report upload received", {
+    fileName: document.file_name,
+    fileSize: document.file_size,
+  });
+
+  let reply: string;
+  try {
+    const file = await downloadTelegramFile(document.file_id, MAX_REPORT_BYTES);
+    const csv = file.toString("utf8");
+    if (isAdSpendReport(parseCsvRecords(csv).headers)) {
+      const result = await importAdSpendCsv({
+        resourceId,
+        csv,
+        defaultCurrency: (await getPreferences(resourceId)).reportingCurrency,
+        defaultChannel: channelFromCaption(caption),
+        logger,
+      });
+      reply = describeAdSpendImport(result);
+    } else {
+      const result = await importEarningsReport({
+        resourceId,
+        csv,
+        network: networkFromCaption(caption),
+        logger,
+      });
+      reply = describeImportResult(result);
+    }
+  } catch (error) {
+    logger?.error("❌ [Telegram] Report import failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    reply =
+      error instanceof ReportImportError || error instanceof AdSpendImportError
+        ? error.message
+        : "Sorry, I could not import that report. Please send the CSV export from your affiliate dashboard.";
+  }
+
+  await sendTelegramMessage(chatId, reply, {
+    reply_to_message_id: messageId,
+  });
+}
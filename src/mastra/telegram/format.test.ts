@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import {
+  EMPTY_REPLY,
+  TELEGRAM_MESSAGE_LIMIT,
+  renderTelegramMessages,
+} from "./format";
+
+const htmlOf = (markdown: string) =>
+  renderTelegramMessages(markdown).map((chunk) => chunk.html);
+
+describe("renderTelegramMessages", () => {
+  test("escapes HTML in text, code and links", () => {
+    assert.deepEqual(htmlOf("Tom & Jerry <b>not bold</b>"), [
+      "Tom &amp; Jerry &lt;b&gt;not bold&lt;/b&gt;",
+    ]);
+    assert.deepEqual(htmlOf("Run `a < b && c`"), [
+      "Run <code>a &lt; b &amp;&amp; c</code>",
+    ]);
+    assert.deepEqual(htmlOf('[Deal](https://example.com/?a=1&b="2")'), [
+      '<a href="https://example.com/?a=1&amp;b=&quot;2&quot;">Deal</a>',
+    ]);
+    assert.deepEqual(htmlOf("```html\n<div>\n```"), [
+      '<pre><code class="language-html">&lt;div&gt;</code></pre>',
+    ]);
+  });
+
+  test("formats balanced Markdown", () => {
+    assert.deepEqual(
+      htmlOf("## Top picks\n- **Sony** _WH-1000XM5_ ~~$399~~\n> Best seller"),
+      [
+        "<b>Top picks</b>\n• <b>Sony</b> <i>WH-1000XM5</i> <s>$399</s>\n<blockquote>Best seller</blockquote>",
+      ],
+    );
+  });
+
+  test("leaves unbalanced markers as typed", () => {
+    for (const markdown of [
+      "**Half bold",
+      "2 * 3 * 4",
+      "snake_case_name and _open",
+      "`unclosed code",
+      "~~strike",
+      "[link](not a url)",
+    ]) {
+      assert.deepEqual(htmlOf(markdown), [markdown], markdown);
+    }
+    assert.deepEqual(htmlOf("```\nno closing fence"), [
+      "```\nno closing fence",
+    ]);
+  });
+
+  test("splits between paragraphs at the message limit", () => {
+    const paragraph = "word ".repeat(300).trim();
+    const chunks = renderTelegramMessages(
+      Array(5).fill(paragraph).join("\n\n"),
+    );
+    assert.deepEqual(
+      chunks.map((chunk) => chunk.text),
+      [
+        `${paragraph}\n\n${paragraph}`,
+        `${paragraph}\n\n${paragraph}`,
+        paragraph,
+      ],
+    );
+  });
+
+  test("splits a paragraph longer than a message without breaking tags", () => {
+    const line = `**${"a".repeat(100)}**`;
+    const chunks = renderTelegramMessages(Array(80).fill(line).join("\n"));
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunk.html.length <= TELEGRAM_MESSAGE_LIMIT);
+      assert.ok(chunk.text.length <= TELEGRAM_MESSAGE_LIMIT);
+      assert.match(chunk.html, /^(<b>a+<\/b>\n)*<b>a+<\/b>$/);
+    }
+    assert.equal(
+      chunks.map((chunk) => chunk.text).join("\n"),
+      Array(80).fill(line).join("\n"),
+    );
+  });
+
+  test("slices a line longer than a message, counting escaped characters", () => {
+    const chunks = renderTelegramMessages("<&>".repeat(3000));
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunk.html.length <= TELEGRAM_MESSAGE_LIMIT);
+    }
+    assert.equal(
+      chunks.map((chunk) => chunk.text).join(""),
+      "<&>".repeat(3000),
+    );
+  });
+
+  test("sends a fallback instead of an empty reply", () => {
+    for (const markdown of ["", "  \n\n \n"]) {
+      assert.deepEqual(renderTelegramMessages(markdown), [
+        { html: EMPTY_REPLY, text: EMPTY_REPLY },
+      ]);
+    }
+  });
+});
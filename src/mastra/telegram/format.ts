@@ -0,0 +1,234 @@
+// Renders the agent's Markdown as Telegram HTML. Telegram rejects a whole
+// message when its formatting does not parse, so only complete, balanced
+// Markdown constructs become tags and everything else is escaped and shown as
+// typed: a stray "*" or "_" in a product name stays a literal character.
+// https://core.telegram.org/bots/api#html-style
+
+// Telegram's limit for the text of one message.
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+// Sent when a reply has no text to show, e.g. an empty agent answer.
+export const EMPTY_REPLY =
+  "Sorry, I don't have an answer to that. Please try rephrasing your question.";
+
+// One message of a reply: the HTML to send and the plain text to send
+// instead if Telegram still cannot parse it.
+export interface TelegramChunk {
+  html: string;
+  text: string;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replace(/"/g, "&quot;");
+}
+
+// Inline constructs, tried in this order at each position. Emphasis markers
+// must hug their text and "_" must not touch a letter on the outside, so
+// snake_case words and 2 * 3 * 4 stay as they are.
+const INLINE =
+  /`([^`\n]+)`|\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)|\*\*(?=\S)(.+?)(?<=\S)\*\*|__(?=\S)(.+?)(?<=\S)__(?!\w)|~~(?=\S)(.+?)(?<=\S)~~|(?<![\w*])\*(?=[^\s*])(.+?)(?<=[^\s*])\*(?![\w*])|(?<![\w_])_(?=[^\s_])(.+?)(?<=[^\s_])_(?![\w_])/g;
+
+function renderInline(text: string): string {
+  let html = "";
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    html += escapeHtml(text.slice(last, match.index));
+    last = match.index! + match[0].length;
+    const [
+      ,
+      code,
+      linkText,
+      url,
+      bold,
+      boldUnderscore,
+      strike,
+      italic,
+      italicUnderscore,
+    ] = match;
+    if (code !== undefined) {
+      html += `<code>${escapeHtml(code)}</code>`;
+    } else if (linkText !== undefined) {
+      html += `<a href="${escapeAttribute(url!)}">${renderInline(linkText)}</a>`;
+    } else if (bold !== undefined || boldUnderscore !== undefined) {
+      html += `<b>${renderInline(bold ?? boldUnderscore!)}</b>`;
+    } else if (strike !== undefined) {
+      html += `<s>${renderInline(strike)}</s>`;
+    } else {
+      html += `<i>${renderInline(italic ?? italicUnderscore!)}</i>`;
+    }
+  }
+  return html + escapeHtml(text.slice(last));
+}
+
+function renderLine(line: string): string {
+  const heading = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/.exec(line);
+  if (heading) {
+    return `<b>${renderInline(heading[1]!)}</b>`;
+  }
+  const bullet = /^(\s*)[-*+]\s+(.*)$/.exec(line);
+  if (bullet) {
+    return `${bullet[1]}• ${renderInline(bullet[2]!)}`;
+  }
+  if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+    return "──────────";
+  }
+  const quote = /^\s*>\s?(.*)$/.exec(line);
+  if (quote) {
+    return `<blockquote>${renderInline(quote[1]!)}</blockquote>`;
+  }
+  return renderInline(line);
+}
+
+// A paragraph or a fenced code block of the source.
+interface Block {
+  source: string;
+  code?: { language: string; lines: string[] };
+}
+
+function splitBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    if (paragraph.some((line) => line.trim())) {
+      blocks.push({ source: paragraph.join("\n") });
+    }
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = /^\s*```\s*([\w+-]*)\s*$/.exec(lines[i]!);
+    const close = fence
+      ? lines.findIndex((line, j) => j > i && /^\s*```\s*$/.test(line))
+      : -1;
+    if (fence && close !== -1) {
+      endParagraph();
+      const code = lines.slice(i + 1, close);
+      blocks.push({
+        source: code.join("\n"),
+        code: { language: fence[1]!, lines: code },
+      });
+      i = close;
+    } else if (!lines[i]!.trim()) {
+      endParagraph();
+    } else {
+      paragraph.push(lines[i]!);
+    }
+  }
+  endParagraph();
+  return blocks;
+}
+
+function renderCode(language: string, lines: string[]): string {
+  const body = escapeHtml(lines.join("\n"));
+  return language
+    ? `<pre><code class="language-${language}">${body}</code></pre>`
+    : `<pre>${body}</pre>`;
+}
+
+function renderBlock(block: Block): TelegramChunk {
+  return block.code
+    ? {
+        html: renderCode(block.code.language, block.code.lines),
+        text: block.source,
+      }
+    : {
+        html: block.source.split("\n").map(renderLine).join("\n"),
+        text: block.source,
+      };
+}
+
+const fits = (chunk: TelegramChunk, limit: number) =>
+  chunk.html.length <= limit && chunk.text.length <= limit;
+
+// Pieces of a block too long for one message: whole lines where possible,
+// and unformatted slices of a line longer than a message.
+function splitBlock(block: Block, limit: number): TelegramChunk[] {
+  const lines = block.code?.lines ?? block.source.split("\n");
+  const render = (part: string[]) =>
+    renderBlock(
+      block.code
+        ? { source: part.join("\n"), code: { ...block.code, lines: part } }
+        : { source: part.join("\n") },
+    );
+
+  const pieces: TelegramChunk[] = [];
+  let part: string[] = [];
+  for (const line of lines) {
+    if (fits(render([...part, line]), limit)) {
+      part.push(line);
+      continue;
+    }
+    if (part.length > 0) {
+      pieces.push(render(part));
+      part = [];
+    }
+    if (fits(render([line]), limit)) {
+      part.push(line);
+      continue;
+    }
+    const plain = (slice: string): TelegramChunk => ({
+      html: block.code ? renderCode("", [slice]) : escapeHtml(slice),
+      text: slice,
+    });
+    let rest = line;
+    while (rest) {
+      // Escaping lengthens the HTML, so shrink until the slice fits.
+      let size = Math.min(rest.length, limit);
+      while (!fits(plain(rest.slice(0, size)), limit)) {
+        size = Math.floor(size * 0.9);
+      }
+      pieces.push(plain(rest.slice(0, size)));
+      rest = rest.slice(size);
+    }
+  }
+  if (part.length > 0) {
+    pieces.push(render(part));
+  }
+  return pieces;
+}
+
+// Splits a reply into messages Telegram accepts, breaking between paragraphs
+// where possible and never inside a formatted span. A blank reply becomes
+// EMPTY_REPLY, so there is always a message to send.
+export function renderTelegramMessages(
+  markdown: string,
+  limit = TELEGRAM_MESSAGE_LIMIT,
+): TelegramChunk[] {
+  const chunks: TelegramChunk[] = [];
+  let current: TelegramChunk | undefined;
+  for (const block of splitBlocks(markdown)) {
+    const rendered = renderBlock(block);
+    const pieces = fits(rendered, limit)
+      ? [rendered]
+      : splitBlock(block, limit);
+    for (const piece of pieces) {
+      const joined = current && {
+        html: `${current.html}\n\n${piece.html}`,
+        text: `${current.text}\n\n${piece.text}`,
+      };
+      if (joined && fits(joined, limit)) {
+        current = joined;
+      } else {
+        if (current) {
+          chunks.push(current);
+        }
+        current = piece;
+      }
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  if (chunks.length === 0) {
+    chunks.push({ html: escapeHtml(EMPTY_REPLY), text: EMPTY_REPLY });
+  }
+  return chunks;
+}
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { QuotaExceededError } from "../billing/entitlements";
+import { PLANS } from "../billing/plans";
+import { MerchantUrlError } from "../links/merchantUrls";
+import { ToolInputError } from "../tools/errors";
+import { errorReply } from "./productActions";
+
+describe("errorReply", () => {
+  test("passes on errors written for the user", () => {
+    assert.equal(
+      errorReply(new ToolInputError('No campaign called "Diwali"')),
+      '⚠️ No campaign called "Diwali"',
+    );
+    assert.equal(
+      errorReply(
+        new QuotaExceededError("links", PLANS.free, "Upgrade for more links"),
+      ),
+      "⚠️ Upgrade for more links",
+    );
+    assert.equal(
+      errorReply(new MerchantUrlError('"x" is not a valid URL')),
+      '⚠️ "x" is not a valid URL',
+    );
+  });
+
+  test("hides the message of anything else", () => {
+    for (const error of [
+      new Error('relation "affiliate_links" does not exist'),
+      new TypeError("Cannot read properties of undefined"),
+      "connection refused",
+    ]) {
+      assert.equal(
+        errorReply(error),
+        "⚠️ Something went wrong, please try again.",
+      );
+    }
+  });
+});
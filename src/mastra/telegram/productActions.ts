@@ -0,0 +1,381 @@
+import type { Mastra } from "@mastra/core";
+import { RuntimeContext } from "@mastra/core/runtime-context";
+import type { Tool } from "@mastra/core/tools";
+import type { z } from "zod";
+
+import { formatMoney, type Money } from "../currency/money";
+import { QuotaExceededError } from "../billing/entitlements";
+import { MerchantUrlError } from "../links/merchantUrls";
+import { findCallback, saveCallbacks } from "../storage/telegramCallbacks";
+import { listLinks } from "../storage/links";
+import { productDiscoveryTool } from "../tools/productDiscoveryTool";
+import { linkManagementTool } from "../tools/linkManagementTool";
+import { contentGenerationTool } from "../tools/contentGenerationTool";
+import { alertsTool } from "../tools/alertsTool";
+import { ToolInputError } from "../tools/errors";
+import { callTelegram, sendTelegramReply } from "./api";
+import type {
+  InlineKeyboardButton,
+  InlineKeyboardMarkup,
+  TelegramCallbackQuery,
+} from "./updates";
+
+// What a button needs to know about a recommended product, taken from the
+// product discovery tool's output.
+export interface ProductContext {
+  name: string;
+  platform: string;
+  category: string;
+  url?: string;
+  price?: Money;
+  commission?: string;
+}
+
+// The product discovery query a list of products came from, so "Show more"
+// can fetch the next page.
+export interface ProductSearch {
+  category: string;
+  keyword?: string;
+  platform?: string;
+  priceRange?: string;
+  region?: string;
+  currency?: string;
+  offset: number;
+  count: number;
+}
+
+type ProductAction =
+  | { action: "create_link"; product: ProductContext }
+  | { action: "write_blog"; product: ProductContext }
+  | { action: "watch_price"; product: ProductContext }
+  | { action: "show_more"; search: ProductSearch };
+
+// Threshold for a watch started from a button or /watch without a price; the
+// user can change it by asking the agent.
+export const QUICK_WATCH_PERCENT_DROP = 10;
+
+function shorten(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// Two rows per product (its link button, then blog and watch) and a final
+// "Show more" row when the list came from a search.
+export async function productKeyboard(
+  resourceId: string,
+  chatId: number,
+  products: ProductContext[],
+  search?: ProductSearch,
+): Promise<InlineKeyboardMarkup | undefined> {
+  const rows: { text: string; action: ProductAction }[][] = [];
+  for (const product of products) {
+    if (product.url) {
+      rows.push([
+        {
+          text: `🔗 Create link · ${shorten(product.name, 40)}`,
+          action: { action: "create_link", product },
+        },
+      ]);
+    }
+    rows.push([
+      {
+        text: "📝 Write a blog post",
+        action: { action: "write_blog", product },
+      },
+      { text: "👀 Watch price", action: { action: "watch_price", product } },
+    ]);
+  }
+  if (search && products.length >= search.count) {
+    rows.push([
+      { text: "➕ Show more", action: { action: "show_more", search } },
+    ]);
+  }
+  if (rows.length === 0) {
+    return undefined;
+  }
+
+  const tokens = await saveCallbacks(
+    resourceId,
+    chatId,
+    rows.flat().map((button) => button.action),
+  );
+  let next = 0;
+  return {
+    inline_keyboard: rows.map((row) =>
+      row.map((button): InlineKeyboardButton => ({
+        text: button.text,
+        callback_data: tokens[next++]!,
+      })),
+    ),
+  };
+}
+
+export function describeProducts(products: ProductContext[]): string {
+  return products
+    .map((product, index) => {
+      const details = [product.platform];
+      if (product.commission) {
+        details.push(`${product.commission} commission`);
+      }
+      const price = product.price ? ` – ${formatMoney(product.price)}` : "";
+      return `${index + 1}. ${product.name}${price} (${details.join(", ")})`;
+    })
+    .join("\n");
+}
+
+export interface ActionContext {
+  mastra: Mastra;
+  resourceId: string;
+  chatId: number;
+}
+
+type RunnableTool<
+  TInput extends z.ZodTypeAny,
+  TOutput extends z.ZodTypeAny,
+> = Tool<TInput, TOutput> & { inputSchema: TInput; outputSchema: TOutput };
+
+// The reply when a command or button fails. Errors written for the user (a
+// request the tool can't carry out, a plan limit, an unsupported merchant)
+// are passed on; anything else may expose internals and is only logged.
+export function errorReply(error: unknown): string {
+  return error instanceof ToolInputError ||
+    error instanceof QuotaExceededError ||
+    error instanceof MerchantUrlError
+    ? `⚠️ ${error.message}`
+    : "⚠️ Something went wrong, please try again.";
+}
+
+// Calls a tool the way the agent would, applying its input defaults. The
+// result is checked against the tool's output schema, which gives its type.
+export async function runTool<
+  TInput extends z.ZodTypeAny,
+  TOutput extends z.ZodTypeAny,
+>(
+  tool: RunnableTool<TInput, TOutput>,
+  input: z.input<TInput>,
+  context: ActionContext,
+): Promise<z.infer<TOutput>> {
+  const result = await tool.execute!({
+    context: tool.inputSchema.parse(input),
+    resourceId: context.resourceId,
+    mastra: context.mastra,
+    runtimeContext: new RuntimeContext(),
+    tracingContext: {},
+  });
+  return tool.outputSchema.parse(result);
+}
+
+async function createLink(product: ProductContext, context: ActionContext) {
+  const { links } = await runTool(
+    linkManagementTool,
+    {
+      action: "create",
+      productName: product.name,
+      platform: product.platform,
+      originalUrl: product.url,
+      price: product.price?.amount,
+      priceCurrency: product.price?.currency,
+      commissionEstimate: product.commission,
+    },
+    context,
+  );
+  return links[0]!;
+}
+
+// A blog post links to the product through an existing active link for the
+// same page when there is one.
+async function linkForBlog(product: ProductContext, context: ActionContext) {
+  const existing = (
+    await listLinks(context.resourceId, { status: "active" })
+  ).find((link) => link.originalUrl === product.url);
+  return existing
+    ? existing.shortLink
+    : (await createLink(product, context)).short_link;
+}
+
+async function runAction(
+  action: ProductAction,
+  context: ActionContext,
+): Promise<{ text: string; replyMarkup?: InlineKeyboardMarkup }> {
+  switch (action.action) {
+    case "create_link": {
+      const link = await createLink(action.product, context);
+      return {
+        text: `🔗 Your link for ${action.product.name}:\n${link.short_link}\n\nClicks and sales through it show up in your stats.`,
+        replyMarkup: await productKeyboard(context.resourceId, context.chatId, [
+          { ...action.product, url: undefined },
+        ]),
+      };
+    }
+    case "write_blog": {
+      if (!action.product.url) {
+        return {
+          text: `${action.product.name} has no product page to link to, so I can't write a post with an affiliate link for it.`,
+        };
+      }
+      const affiliateLink = await linkForBlog(action.product, context);
+      const { content } = await runTool(
+        contentGenerationTool,
+        {
+          contentType: "blog",
+          product: action.product.name,
+          affiliateLink,
+        },
+        context,
+      );
+      return {
+        text: content.map((piece) => piece.text).join("\n\n"),
+      };
+    }
+    case "watch_price": {
+      const { watches = [] } = await runTool(
+        alertsTool,
+        {
+          action: "watch",
+          product: action.product.url ?? action.product.name,
+          percentDrop: QUICK_WATCH_PERCENT_DROP,
+          notifyRestock: true,
+        },
+        context,
+      );
+      const watch = watches[0]!;
+      return {
+        text: `👀 Watching ${watch.product} (now ${watch.current_price}). I'll alert you when it drops ${QUICK_WATCH_PERCENT_DROP}% or comes back in stock. Ask me to change the threshold, e.g. "alert me when it's under 50".`,
+      };
+    }
+    case "show_more": {
+      const { search } = action;
+      const offset = search.offset + search.count;
+      const { products, notice } = await runTool(
+        productDiscoveryTool,
+        {
+          category: search.category,
+          keyword: search.keyword,
+          platform: search.platform,
+          priceRange: search.priceRange,
+          region: search.region,
+          currency: search.currency,
+          offset,
+        },
+        context,
+      );
+      const more: ProductContext[] = products.map(toProductContext);
+      if (more.length === 0) {
+        return { text: notice ?? "Those were all the products I found." };
+      }
+      return {
+        text: `Here are more ${search.category} picks:\n\n${describeProducts(more)}`,
+        replyMarkup: await productKeyboard(
+          context.resourceId,
+          context.chatId,
+          more,
+          {
+            ...search,
+            offset,
+            count: more.length,
+          },
+        ),
+      };
+    }
+  }
+}
+
+export function toProductContext(product: {
+  name: string;
+  platform: string;
+  category: string;
+  product_url?: string;
+  price_money?: Money;
+  commission_estimate?: string;
+}): ProductContext {
+  return {
+    name: product.name,
+    platform: product.platform,
+    category: product.category,
+    url: product.product_url,
+    price: product.price_money,
+    // The discovery tool says "Not published" when there is no rate.
+    commission: product.commission_estimate?.includes("%")
+      ? product.commission_estimate
+      : undefined,
+  };
+}
+
+// The products of the agent's last product discovery call in a reply, with
+// the query that found them.
+export function recommendedProducts(
+  steps: {
+    toolResults?: { toolName: string; args: unknown; result: unknown }[];
+  }[],
+): { products: ProductContext[]; search: ProductSearch } | undefined {
+  const call = steps
+    .flatMap((step) => step.toolResults ?? [])
+    .filter((toolResult) => toolResult.toolName === "productDiscoveryTool")
+    .at(-1);
+  const args = productDiscoveryTool.inputSchema.safeParse(call?.args);
+  const result = productDiscoveryTool.outputSchema.safeParse(call?.result);
+  if (!args.success || !result.success || result.data.products.length === 0) {
+    return undefined;
+  }
+  const products: ProductContext[] = result.data.products.map(toProductContext);
+  const { category, keyword, platform, priceRange, region, currency, offset } =
+    args.data;
+  return {
+    products,
+    search: {
+      category,
+      keyword,
+      platform,
+      priceRange,
+      region,
+      currency,
+      offset: offset ?? 0,
+      count: products.length,
+    },
+  };
+}
+
+// Runs the action behind a pressed button for the person who pressed it and
+// replies in the chat.
+export async function handleTelegramCallback({
+  mastra,
+  resourceId,
+  chatId,
+  callbackQuery,
+}: ActionContext & {
+  callbackQuery: TelegramCallbackQuery & { data: string };
+}): Promise<void> {
+  const logger = mastra.getLogger();
+  const stored = await findCallback<ProductAction>(callbackQuery.data);
+
+  // Stops the button's loading spinner; the result follows as a message.
+  await callTelegram("answerCallbackQuery", {
+    callback_query_id: callbackQuery.id,
+    text: stored ? "Working on it…" : "This button has expired.",
+  }).catch((error) =>
+    logger?.warn("📱 [Telegram] Could not answer callback query", {
+      error: error instanceof Error ? error.message : String(error),
+    }),
+  );
+  if (!stored || stored.chatId !== chatId) {
+    return;
+  }
+
+  logger?.info("📱 [Telegram] Button pressed", {
+    action: stored.payload.action,
+  });
+  let reply: { text: string; replyMarkup?: InlineKeyboardMarkup };
+  try {
+    reply = await runAction(stored.payload, { mastra, resourceId, chatId });
+  } catch (error) {
+    logger?.error("❌ [Telegram] Button action failed", {
+      action: stored.payload.action,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    reply = { text: errorReply(error) };
+  }
+
+  await sendTelegramReply(chatId, reply.text, {
+    replyTo: callbackQuery.message?.message_id,
+    replyMarkup: reply.replyMarkup,
+  });
+}
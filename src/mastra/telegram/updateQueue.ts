@@ -0,0 +1,68 @@
+import { type EventJobSteps, inngest } from "../inngest";
+import {
+  claimTelegramUpdate,
+  finishTelegramUpdate,
+  startTelegramUpdate,
+} from "../storage/telegramUpdates";
+import type { TelegramUpdate } from "./updates";
+
+// Sent for every claimed update; the job registered by the Telegram trigger
+// answers it.
+export const TELEGRAM_UPDATE_EVENT = "telegram/update.received";
+
+const TURN_POLL_MS = 1000;
+
+export interface QueuedTelegramUpdate {
+  updateId: number;
+  chatId: number;
+  payload: TelegramUpdate;
+}
+
+export type TelegramUpdateOutcome = "queued" | "processed" | "duplicate";
+
+// Claims the update and hands it to the background job, so the webhook can
+// answer Telegram straight away. Telegram redelivers updates it did not get a
+// quick 200 for, and those redeliveries come back as "duplicate". When the
+// event cannot be sent the update is marked failed, so the retry of the
+// webhook can claim it again.
+export async function enqueueTelegramUpdate(
+  update: QueuedTelegramUpdate,
+): Promise<TelegramUpdateOutcome> {
+  if (!(await claimTelegramUpdate(update.updateId, update.chatId))) {
+    return "duplicate";
+  }
+  try {
+    await inngest.send({ name: TELEGRAM_UPDATE_EVENT, data: update });
+  } catch (error) {
+    await finishTelegramUpdate(update.updateId, "failed");
+    throw error;
+  }
+  return "queued";
+}
+
+// Runs `work` for a queued update once the chat's earlier updates have been
+// answered. The update stays running while the job retries `work`; the
+// trigger marks it failed when the retries are used up.
+export async function processTelegramUpdate(
+  { updateId, chatId }: QueuedTelegramUpdate,
+  step: EventJobSteps,
+  work: () => Promise<void>,
+): Promise<TelegramUpdateOutcome> {
+  for (;;) {
+    const turn = await step.run("start-turn", () =>
+      startTelegramUpdate(updateId, chatId),
+    );
+    if (turn === "started") {
+      break;
+    }
+    if (turn === "taken") {
+      return "duplicate";
+    }
+    await step.sleep("wait-for-turn", TURN_POLL_MS);
+  }
+  await step.run("answer", async () => {
+    await work();
+    await finishTelegramUpdate(updateId, "done");
+  });
+  return "processed";
+}
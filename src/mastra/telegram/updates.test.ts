@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { readFileSync, readdirSync } from "node:fs";
+import { describe, test } from "node:test";
+
+import {
+  type RoutedUpdate,
+  type TelegramUpdate,
+  routeTelegramUpdate,
+  threadIdFor,
+  verifyWebhookSecret,
+} from "./updates";
+
+const FIXTURES = new URL("../../../data/telegram-fixtures/", import.meta.url);
+
+function fixture(name: string): TelegramUpdate {
+  return JSON.parse(readFileSync(new URL(`${name}.json`, FIXTURES), "utf8"));
+}
+
+// What each fixture is routed to, and the reason when it is ignored.
+const EXPECTED: Record<string, RoutedUpdate["kind"] | `ignored: ${string}`> = {
+  "text-message": "text",
+  "group-text-message": "text",
+  "command-message": "command",
+  "csv-document": "document",
+  "callback-query": "callback",
+  "photo-message": "ignored: message without text",
+  "edited-message": "ignored: edited message",
+  "channel-post": "ignored: channel post",
+  "my-chat-member": "ignored: unsupported update (my_chat_member)",
+};
+
+describe("routeTelegramUpdate", () => {
+  test("every fixture has an expected route", () => {
+    const names = readdirSync(FIXTURES)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.replace(/\.json$/, ""));
+    assert.deepEqual(names.sort(), Object.keys(EXPECTED).sort());
+  });
+
+  for (const [name, expected] of Object.entries(EXPECTED)) {
+    test(`routes ${name} to ${expected}`, () => {
+      const routed = routeTelegramUpdate(fixture(name));
+      assert.equal(
+        routed.kind === "ignored" ? `ignored: ${routed.reason}` : routed.kind,
+        expected,
+      );
+    });
+  }
+
+  test("parses the command of a command message", () => {
+    const routed = routeTelegramUpdate(fixture("command-message"));
+    assert.equal(routed.kind, "command");
+    assert.deepEqual(routed.command, { name: "products", category: "fitness" });
+  });
+
+  test("drops commands addressed to another bot in the group", () => {
+    const update = fixture("group-text-message");
+    const withText = (text: string) =>
+      routeTelegramUpdate(
+        { ...update, message: { ...update.message!, text } },
+        "AffiliateOSBot",
+      );
+    assert.deepEqual(withText("/stats@OtherBot"), {
+      kind: "ignored",
+      reason: "command for another bot",
+    });
+    assert.equal(withText("/stats@AffiliateOSBot").kind, "command");
+  });
+
+  test("answers a group message in the group, in the sender's thread", () => {
+    const routed = routeTelegramUpdate(fixture("group-text-message"));
+    assert.equal(routed.kind, "text");
+    assert.equal(routed.chatId, -1001234567890);
+    assert.equal(routed.from.id, 5550002);
+    assert.notEqual(
+      threadIdFor(routed.chatId, routed.from),
+      threadIdFor(routed.chatId, { ...routed.from, id: 5550001 }),
+    );
+  });
+
+  test("answers a button press in the chat of the message it was on", () => {
+    const routed = routeTelegramUpdate(fixture("callback-query"));
+    assert.equal(routed.kind, "callback");
+    assert.equal(routed.chatId, 5550001);
+    assert.equal(routed.from.is_bot, false);
+  });
+});
+
+describe("verifyWebhookSecret", () => {
+  const secret = "fixture-webhook-secret_123";
+
+  test("accepts the configured secret", () => {
+    assert.equal(verifyWebhookSecret(secret, secret), true);
+  });
+
+  test("rejects a missing, wrong or truncated secret", () => {
+    assert.equal(verifyWebhookSecret(undefined, secret), false);
+    assert.equal(verifyWebhookSecret("", secret), false);
+    assert.equal(
+      verifyWebhookSecret("fixture-webhook-secret_124", secret),
+      false,
+    );
+    assert.equal(verifyWebhookSecret(secret.slice(0, -1), secret), false);
+  });
+});
@@ -0,0 +1,206 @@
+import { tokensMatch } from "../security/tokens";
+import {
+  type TelegramCommand,
+  isCommandForOtherBot,
+  parseTelegramCommand,
+} from "./commands";
+
+// The parts of the Telegram Bot API update objects the bot reads.
+// https://core.telegram.org/bots/api#update
+
+export interface TelegramUser {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+}
+
+export interface TelegramChat {
+  id: number;
+  type: "private" | "group" | "supergroup" | "channel";
+  title?: string;
+  username?: string;
+}
+
+export interface TelegramDocument {
+  file_id: string;
+  file_unique_id: string;
+  file_name?: string;
+  mime_type?: string;
+  file_size?: number;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  date: number;
+  chat: TelegramChat;
+  // Missing for channel posts and for messages sent on behalf of a chat.
+  from?: TelegramUser;
+  sender_chat?: TelegramChat;
+  text?: string;
+  caption?: string;
+  document?: TelegramDocument;
+  photo?: unknown[];
+  sticker?: unknown;
+  voice?: unknown;
+  video?: unknown;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  // The bot message with the button; missing for inline-mode messages.
+  message?: TelegramMessage;
+  data?: string;
+}
+
+// https://core.telegram.org/bots/api#inlinekeyboardmarkup
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data?: string;
+  url?: string;
+}
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  edited_message?: TelegramMessage;
+  channel_post?: TelegramMessage;
+  edited_channel_post?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+  // Inline queries, polls, membership changes, ...
+  [other: string]: unknown;
+}
+
+// A message from a person, which is what the bot answers.
+export type UserMessage = TelegramMessage & { from: TelegramUser };
+
+// Updates the bot answers carry the chat to answer in and the person to
+// answer for.
+interface AnsweredUpdate {
+  chatId: number;
+  from: TelegramUser;
+}
+
+export type RoutedUpdate =
+  | (AnsweredUpdate & {
+      kind: "text";
+      message: UserMessage & { text: string };
+    })
+  | (AnsweredUpdate & {
+      kind: "command";
+      message: UserMessage & { text: string };
+      command: TelegramCommand;
+    })
+  | (AnsweredUpdate & {
+      kind: "document";
+      message: UserMessage & { document: TelegramDocument };
+    })
+  | (AnsweredUpdate & {
+      kind: "callback";
+      callbackQuery: TelegramCallbackQuery & {
+        message: TelegramMessage;
+        data: string;
+      };
+    })
+  | { kind: "ignored"; reason: string };
+
+// Decides what the bot does with an update. New messages from people with
+// text, one of the bot's commands or a document, and presses of the bot's own
+// buttons, are answered; everything else is acknowledged and dropped so
+// Telegram does not redeliver it. `botUsername` tells the bot's commands from
+// those addressed to other bots in the same group.
+export function routeTelegramUpdate(
+  update: TelegramUpdate,
+  botUsername?: string,
+): RoutedUpdate {
+  if (update.edited_message) {
+    return { kind: "ignored", reason: "edited message" };
+  }
+  if (update.channel_post || update.edited_channel_post) {
+    return { kind: "ignored", reason: "channel post" };
+  }
+  const callbackQuery = update.callback_query;
+  if (callbackQuery) {
+    if (!callbackQuery.message || !callbackQuery.data) {
+      return { kind: "ignored", reason: "callback query without message" };
+    }
+    return {
+      kind: "callback",
+      chatId: callbackQuery.message.chat.id,
+      from: callbackQuery.from,
+      callbackQuery: {
+        ...callbackQuery,
+        message: callbackQuery.message,
+        data: callbackQuery.data,
+      },
+    };
+  }
+
+  const message = update.message;
+  if (!message) {
+    const kind = Object.keys(update).find((key) => key !== "update_id");
+    return {
+      kind: "ignored",
+      reason: `unsupported update (${kind ?? "empty"})`,
+    };
+  }
+  if (!message.from || message.from.is_bot) {
+    return { kind: "ignored", reason: "message not sent by a person" };
+  }
+  const from = message.from;
+
+  if (message.document) {
+    return {
+      kind: "document",
+      chatId: message.chat.id,
+      from,
+      message: { ...message, from, document: message.document },
+    };
+  }
+  if (message.text && isCommandForOtherBot(message.text, botUsername)) {
+    return { kind: "ignored", reason: "command for another bot" };
+  }
+  const command = message.text && parseTelegramCommand(message.text);
+  if (command) {
+    return {
+      kind: "command",
+      chatId: message.chat.id,
+      from,
+      message: { ...message, from, text: message.text! },
+      command,
+    };
+  }
+  if (message.text?.trim()) {
+    return {
+      kind: "text",
+      chatId: message.chat.id,
+      from,
+      message: { ...message, from, text: message.text },
+    };
+  }
+  return { kind: "ignored", reason: "message without text" };
+}
+
+// Telegram echoes the secret_token given to setWebhook in the
+// X-Telegram-Bot-Api-Secret-Token header of every update.
+export function verifyWebhookSecret(
+  header: string | undefined,
+  secret: string,
+): boolean {
+  return tokensMatch(header, secret);
+}
+
+// Thread of the conversation with a person in a chat: group chats get a
+// conversation per member.
+export function threadIdFor(chatId: number, from: TelegramUser): string {
+  return chatId === from.id
+    ? `telegram/${chatId}`
+    : `telegram/${chatId}/${from.id}`;
+}
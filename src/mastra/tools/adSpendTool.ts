@@ -0,0 +1,147 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { ToolInputError } from "./errors";
+import { requireUserId } from "../storage/users";
+import { meterToolCall } from "../billing/entitlements";
+import { listAdSpend } from "../storage/adSpend";
+import { findCampaign } from "../storage/campaigns";
+import { getPreferences } from "../storage/preferences";
+import { importAdSpend } from "../imports/adSpendImport";
+import {
+  currencyCodeSchema,
+  formatMoney,
+  moneySchema,
+} from "../currency/money";
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date");
+
+export const adSpendTool = createTool({
+  id: "ad-spend-tool",
+  description: `Record and review the money the user spends on ads for a campaign, per channel and day, so analytics and campaign summaries can report true ROI, ROAS, EPC, CPA and break-even CPC. Actions: record (one day's spend on one channel; recording the same day again replaces it) and list (recent spend entries).`,
+  inputSchema: z.object({
+    action: z
+      .enum(["record", "list"])
+      .default("list")
+      .describe("Record spend or list recent entries"),
+    campaignName: z
+      .string()
+      .optional()
+      .describe(
+        "Campaign the spend was for (required to record; filters the list)",
+      ),
+    channel: z
+      .string()
+      .optional()
+      .describe(
+        "Where the money was spent, e.g. 'facebook', 'google', 'instagram'",
+      ),
+    date: dateSchema
+      .optional()
+      .describe("Day of the spend, YYYY-MM-DD; defaults to today"),
+    amount: z
+      .number()
+      .nonnegative()
+      .optional()
+      .describe("Amount spent that day on that channel"),
+    currency: currencyCodeSchema
+      .optional()
+      .describe(
+        "ISO currency code of the amount; defaults to the user's reporting currency",
+      ),
+  }),
+  outputSchema: z.object({
+    entries: z.array(
+      z.object({
+        campaign: z.string(),
+        channel: z.string(),
+        date: z.string(),
+        amount: z.string(),
+        amount_money: moneySchema,
+        source: z.string(),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { action, campaignName, channel, date, amount, currency },
+    resourceId,
+    mastra,
+  }) => {
+    const logger = mastra?.getLogger();
+    const owner = requireUserId(resourceId);
+    await meterToolCall(owner, "ad-spend-tool");
+    logger?.info("🔧 [AdSpend] Starting ad spend management with params:", {
+      action,
+      campaignName,
+      channel,
+      date,
+      amount,
+    });
+
+    if (action === "record") {
+      if (!campaignName?.trim() || !channel?.trim() || amount === undefined) {
+        throw new ToolInputError(
+          "Recording spend needs the campaign, the channel and the amount spent",
+        );
+      }
+      const campaign = await findCampaign(owner, campaignName.trim());
+      if (campaign?.status === "ended") {
+        throw new ToolInputError(
+          `The ${campaign.name} campaign has ended; its spend can't be changed`,
+        );
+      }
+      const entry = {
+        campaignName: campaignName.trim(),
+        channel: channel.trim().toLowerCase(),
+        spendDate: date ?? new Date().toISOString().slice(0, 10),
+        amount,
+        currency:
+          currency ??
+          campaign?.currency ??
+          (await getPreferences(owner)).reportingCurrency,
+      };
+      const result = await importAdSpend({
+        resourceId: owner,
+        entries: [entry],
+        source: "manual",
+        logger,
+      });
+      const recorded = { ...entry, campaignName: result.campaigns[0] };
+      return {
+        entries: [
+          {
+            campaign: recorded.campaignName,
+            channel: recorded.channel,
+            date: recorded.spendDate,
+            amount: formatMoney({ amount, currency: entry.currency }),
+            amount_money: { amount, currency: entry.currency },
+            source: "manual",
+          },
+        ],
+        message: `${result.updated > 0 ? "Updated" : "Recorded"} ${formatMoney({ amount, currency: entry.currency })} spent on ${recorded.channel} for ${recorded.campaignName} on ${recorded.spendDate}.${campaign ? "" : " There is no campaign record with this name yet; the spend still counts towards links tagged with it."}`,
+      };
+    }
+
+    const entries = await listAdSpend(owner, {
+      campaignName: campaignName?.trim() || undefined,
+      limit: 30,
+    });
+    logger?.info("✅ [AdSpend] Spend listed", { count: entries.length });
+    return {
+      entries: entries.map((entry) => ({
+        campaign: entry.campaignName,
+        channel: entry.channel,
+        date: entry.spendDate,
+        amount: formatMoney({ amount: entry.amount, currency: entry.currency }),
+        amount_money: { amount: entry.amount, currency: entry.currency },
+        source: entry.source,
+      })),
+      message:
+        entries.length > 0
+          ? `Showing the ${entries.length} most recent spend entries.`
+          : "No ad spend recorded yet. Tell me what you spent, or send your ads manager export as a CSV.",
+    };
+  },
+});
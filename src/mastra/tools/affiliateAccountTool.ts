@@ -0,0 +1,221 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { ToolInputError } from "./errors";
+import { requireUserId } from "../storage/users";
+import { meterToolCall } from "../billing/entitlements";
+import {
+  type AffiliateAccount,
+  listAffiliateAccounts,
+  removeAffiliateAccount,
+  saveAffiliateAccount,
+} from "../storage/affiliateAccounts";
+import {
+  DEFAULT_SUB_ID_TEMPLATE,
+  SUPPORTED_MERCHANTS,
+  affiliateIdLabel,
+  normalizeMerchant,
+  validateAffiliateId,
+  validateSubIdTemplate,
+} from "../links/merchantUrls";
+import { credentialsFormUrl } from "../security/credentialsForm";
+
+const NETWORK_PATTERN = /^[a-z0-9_-]{2,32}$/;
+
+// Merchants we build links for use their own id ("amazon"); other programs
+// (impact, cj, rakuten, ...) are stored for reporting and API access.
+function normalizeNetwork(network: string): string {
+  return (
+    normalizeMerchant(network) ??
+    network.trim().toLowerCase().replace(/\s+/g, "_")
+  );
+}
+
+function toAccountOutput(account: AffiliateAccount) {
+  return {
+    network: account.network,
+    account_id: account.accountId,
+    label: account.label ?? undefined,
+    sub_id_template: account.subIdTemplate ?? DEFAULT_SUB_ID_TEMPLATE,
+    api_key: account.apiKeyHint ?? undefined,
+    api_secret: account.apiSecretHint ?? undefined,
+    is_default: account.isDefault,
+    used_for_links: normalizeMerchant(account.network) !== null,
+  };
+}
+
+export const affiliateAccountTool = createTool({
+  id: "affiliate-account-tool",
+  description: `Manage the user's affiliate program memberships: add an account (network plus associate tag / affiliate / publisher ID and optional sub-ID template), list accounts, make one the default for its network, or remove one. Links for ${SUPPORTED_MERCHANTS.join(", ")} are tagged with the default account of that network. API keys are never taken in the chat: "api_credentials" returns a link to a form where the user enters them; they are encrypted and only ever shown masked.`,
+  inputSchema: z.object({
+    action: z
+      .enum(["add", "list", "set_default", "remove", "api_credentials"])
+      .default("list")
+      .describe(
+        "What to do with the user's affiliate accounts; api_credentials gives a link to a form for an account's API key",
+      ),
+    network: z
+      .string()
+      .optional()
+      .describe(
+        "Affiliate program or merchant, e.g. amazon, flipkart, ebay, walmart, aliexpress, impact, cj (required except to list)",
+      ),
+    accountId: z
+      .string()
+      .optional()
+      .describe(
+        "The ID the network credits sales to: Amazon associate tag, Flipkart affid, eBay campaign ID, Impact publisher ID, ...",
+      ),
+    label: z
+      .string()
+      .optional()
+      .describe("Name to tell accounts apart, e.g. 'YouTube channel'"),
+    subIdTemplate: z
+      .string()
+      .optional()
+      .describe(
+        `How sub-IDs are built; only ${DEFAULT_SUB_ID_TEMPLATE} is supported, since conversion postbacks and report imports match sales on the exact tracking ID`,
+      ),
+    makeDefault: z
+      .boolean()
+      .optional()
+      .describe("Use this account for new links of the network"),
+  }),
+  outputSchema: z.object({
+    accounts: z.array(
+      z.object({
+        network: z.string(),
+        account_id: z.string(),
+        label: z.string().optional(),
+        sub_id_template: z.string(),
+        api_key: z.string().optional(),
+        api_secret: z.string().optional(),
+        is_default: z.boolean(),
+        used_for_links: z.boolean(),
+      }),
+    ),
+    credentials_url: z.string().optional(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { action, network, accountId, label, subIdTemplate, makeDefault },
+    resourceId,
+    mastra,
+  }) => {
+    const logger = mastra?.getLogger();
+    const owner = requireUserId(resourceId);
+    await meterToolCall(owner, "affiliate-account-tool");
+    logger?.info("🔧 [AffiliateAccount] Starting account update with params:", {
+      action,
+      network,
+      accountId,
+    });
+
+    if (action === "list") {
+      const accounts = await listAffiliateAccounts(owner);
+      return {
+        accounts: accounts.map(toAccountOutput),
+        message:
+          accounts.length > 0
+            ? `You have ${accounts.length} affiliate account${accounts.length === 1 ? "" : "s"}.`
+            : `No affiliate accounts yet. Add one with your network and ID, e.g. your Amazon ${affiliateIdLabel("amazon")}.`,
+      };
+    }
+
+    if (!network) {
+      throw new ToolInputError(
+        `network is required to ${action.replace("_", " ")} an account`,
+      );
+    }
+    const key = normalizeNetwork(network);
+    if (!NETWORK_PATTERN.test(key)) {
+      throw new ToolInputError(`"${network}" is not a valid network name`);
+    }
+
+    if (action === "remove") {
+      const count = await removeAffiliateAccount(owner, key, accountId?.trim());
+      logger?.info("✅ [AffiliateAccount] Accounts removed", {
+        network: key,
+        count,
+      });
+      return {
+        accounts: (await listAffiliateAccounts(owner)).map(toAccountOutput),
+        message:
+          count > 0
+            ? `Removed ${count} ${key} account${count === 1 ? "" : "s"}.`
+            : `There was no matching ${key} account.`,
+      };
+    }
+
+    const id = accountId?.trim();
+    if (!id) {
+      const merchant = normalizeMerchant(key);
+      throw new ToolInputError(
+        `accountId is required${merchant ? `, your ${affiliateIdLabel(merchant)}` : ""}`,
+      );
+    }
+
+    if (action === "set_default" || action === "api_credentials") {
+      const existing = await listAffiliateAccounts(owner, key);
+      if (!existing.some((account) => account.accountId === id)) {
+        throw new ToolInputError(
+          `No ${key} account with ID "${id}", add it first`,
+        );
+      }
+    }
+
+    if (action === "api_credentials") {
+      return {
+        accounts: (await listAffiliateAccounts(owner, key))
+          .filter((account) => account.accountId === id)
+          .map(toAccountOutput),
+        credentials_url: credentialsFormUrl({
+          resourceId: owner,
+          network: key,
+          accountId: id,
+        }),
+        message:
+          "Open this link to enter the API key and secret. It is valid for 30 minutes. Please don't paste keys into the chat.",
+      };
+    }
+
+    if (action === "set_default") {
+      await saveAffiliateAccount(owner, {
+        network: key,
+        accountId: id,
+        makeDefault: true,
+      });
+      return {
+        accounts: (await listAffiliateAccounts(owner)).map(toAccountOutput),
+        message: `New ${key} links will now use ${id}.`,
+      };
+    }
+
+    const merchant = normalizeMerchant(key);
+    const problem =
+      (merchant ? validateAffiliateId(merchant, id) : null) ??
+      (subIdTemplate ? validateSubIdTemplate(subIdTemplate) : null);
+    if (problem) {
+      throw new ToolInputError(problem);
+    }
+
+    const account = await saveAffiliateAccount(owner, {
+      network: key,
+      accountId: id,
+      label,
+      subIdTemplate,
+      makeDefault,
+    });
+    logger?.info("✅ [AffiliateAccount] Account saved", {
+      network: account.network,
+      accountId: account.accountId,
+      isDefault: account.isDefault,
+    });
+
+    return {
+      accounts: [toAccountOutput(account)],
+      message: merchant
+        ? `Saved! ${account.isDefault ? `New ${key} links will be tagged with ${id}.` : `Make it the default to use it for new ${key} links.`}`
+        : `Saved your ${key} account. Links aren't built for ${key} yet, but it's stored for reporting.`,
+    };
+  },
+});
@@ -0,0 +1,233 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { ToolInputError } from "./errors";
+import { requireUserId } from "../storage/users";
+import { assertCanAdd, meterToolCall } from "../billing/entitlements";
+import {
+  type AlertChannel,
+  type AlertSubscription,
+  listSubscriptions,
+  snooze,
+  subscribe,
+  unsubscribe,
+} from "../storage/alertSubscriptions";
+
+const channelSchema = z.enum(["telegram", "slack"]);
+const urgencySchema = z.enum(["low", "medium", "high", "critical"]);
+
+// Conversations are threaded as "telegram/<chatId>" or "slack/<channelId>/...",
+// which tells us where the user wants the digest delivered. Digests only go to
+// the chat the user subscribed from, so nobody can point them at someone
+// else's chat.
+function destinationFromThread(
+  threadId: string | undefined,
+): { channel: AlertChannel; destination: string } | null {
+  const match = threadId?.match(/^(telegram|slack)\/([^/]+)/);
+  return match
+    ? { channel: match[1] as AlertChannel, destination: match[2]! }
+    : null;
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toSubscriptionOutput(subscription: AlertSubscription) {
+  return {
+    channel: subscription.channel,
+    destination: subscription.destination,
+    active: subscription.active,
+    min_urgency: subscription.minUrgency,
+    quiet_hours:
+      subscription.quietStart !== null && subscription.quietEnd !== null
+        ? `${subscription.quietStart}:00-${subscription.quietEnd}:00 ${subscription.timezone}`
+        : undefined,
+    snoozed_until:
+      subscription.snoozedUntil && subscription.snoozedUntil > new Date()
+        ? subscription.snoozedUntil.toISOString()
+        : undefined,
+  };
+}
+
+export const alertSubscriptionTool = createTool({
+  id: "alert-subscription-tool",
+  description: `Subscribe the user to a scheduled alert digest (price drops, restocks and other alerts) delivered to the Telegram chat or Slack channel of this conversation, unsubscribe, snooze it for a while, or show the current subscription settings (minimum urgency, quiet hours).`,
+  inputSchema: z.object({
+    action: z
+      .enum(["subscribe", "unsubscribe", "snooze", "status"])
+      .default("status")
+      .describe("What to do with the alert digest subscription"),
+    channel: channelSchema
+      .optional()
+      .describe(
+        "Which subscription to unsubscribe from; subscribing always uses the chat this conversation happens in",
+      ),
+    destination: z
+      .string()
+      .optional()
+      .describe(
+        "Telegram chat id or Slack channel id of the subscription to unsubscribe from",
+      ),
+    minUrgency: urgencySchema
+      .optional()
+      .describe("Only deliver alerts at or above this urgency"),
+    quietStartHour: z
+      .number()
+      .int()
+      .min(0)
+      .max(23)
+      .optional()
+      .describe("Start of quiet hours (local hour, 0-23), e.g. 22"),
+    quietEndHour: z
+      .number()
+      .int()
+      .min(0)
+      .max(23)
+      .optional()
+      .describe("End of quiet hours (local hour, 0-23), e.g. 7"),
+    timezone: z
+      .string()
+      .optional()
+      .describe("IANA timezone for quiet hours, e.g. Asia/Kolkata"),
+    snoozeHours: z
+      .number()
+      .min(0)
+      .max(24 * 30)
+      .optional()
+      .describe("How long to pause deliveries, in hours; 0 ends a snooze"),
+  }),
+  outputSchema: z.object({
+    subscriptions: z.array(
+      z.object({
+        channel: z.string(),
+        destination: z.string(),
+        active: z.boolean(),
+        min_urgency: z.string(),
+        quiet_hours: z.string().optional(),
+        snoozed_until: z.string().optional(),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: {
+      action,
+      channel,
+      destination,
+      minUrgency,
+      quietStartHour,
+      quietEndHour,
+      timezone,
+      snoozeHours,
+    },
+    resourceId,
+    threadId,
+    mastra,
+  }) => {
+    const logger = mastra?.getLogger();
+    const owner = requireUserId(resourceId);
+    await meterToolCall(owner, "alert-subscription-tool");
+    logger?.info(
+      "🔧 [AlertSubscription] Starting subscription update with params:",
+      { action, channel, minUrgency, snoozeHours },
+    );
+
+    if (action === "subscribe") {
+      const target = destinationFromThread(threadId);
+      if (!target) {
+        throw new ToolInputError(
+          "Alerts can only be subscribed to from the Telegram chat or Slack channel they should be sent to",
+        );
+      }
+      if ((quietStartHour === undefined) !== (quietEndHour === undefined)) {
+        throw new ToolInputError(
+          "Quiet hours need both a start and an end hour",
+        );
+      }
+      if (timezone && !isValidTimezone(timezone)) {
+        throw new ToolInputError(
+          `Unknown timezone "${timezone}", use an IANA name such as Asia/Kolkata or America/New_York`,
+        );
+      }
+      const existing = await listSubscriptions(owner);
+      if (
+        !existing.some(
+          (subscription) =>
+            subscription.active &&
+            subscription.channel === target.channel &&
+            subscription.destination === target.destination,
+        )
+      ) {
+        await assertCanAdd(owner, "alertSubscriptions");
+      }
+      const subscription = await subscribe(
+        owner,
+        target.channel,
+        target.destination,
+        {
+          minUrgency,
+          quietStart: quietStartHour,
+          quietEnd: quietEndHour,
+          timezone,
+        },
+      );
+      logger?.info("✅ [AlertSubscription] Subscribed", {
+        channel: subscription.channel,
+      });
+      return {
+        subscriptions: [toSubscriptionOutput(subscription)],
+        message: `Subscribed! New ${subscription.minUrgency}+ alerts will be sent to this ${subscription.channel} chat.`,
+      };
+    }
+
+    if (action === "unsubscribe") {
+      const count = await unsubscribe(owner, channel, destination);
+      return {
+        subscriptions: (await listSubscriptions(owner)).map(
+          toSubscriptionOutput,
+        ),
+        message:
+          count > 0
+            ? "Unsubscribed from the alert digest."
+            : "There was no active alert subscription.",
+      };
+    }
+
+    if (action === "snooze") {
+      if (snoozeHours === undefined) {
+        throw new ToolInputError("snoozeHours is required to snooze alerts");
+      }
+      const until =
+        snoozeHours > 0
+          ? new Date(Date.now() + snoozeHours * 60 * 60 * 1000)
+          : null;
+      const count = await snooze(owner, until);
+      if (count === 0) {
+        throw new ToolInputError(
+          "There is no active alert subscription to snooze",
+        );
+      }
+      return {
+        subscriptions: (await listSubscriptions(owner)).map(
+          toSubscriptionOutput,
+        ),
+        message: until
+          ? `Alerts are snoozed until ${until.toISOString()}. Anything new will be sent after that.`
+          : "Snooze cleared, alerts will be delivered again.",
+      };
+    }
+
+    const subscriptions = await listSubscriptions(owner);
+    return {
+      subscriptions: subscriptions.map(toSubscriptionOutput),
+      message: subscriptions.some((subscription) => subscription.active)
+        ? "Alert digest subscription is active."
+        : "Not subscribed to the alert digest.",
+    };
+  },
+});
@@ -1,115 +1,191 @@
 import { createTool } from "@mastra/core/tools";
 import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
+import { ToolInputError } from "./errors";
+import { requireUserId } from "../storage/users";
+import { assertCanAdd, meterToolCall } from "../billing/entitlements";
+import { type MerchantProduct, findMerchantProducts, findMerchantProductsByLinkId } from "../storage/products";
+import { canonicalizeProductUrl } from "../links/merchantUrls";
+import { type ProductWatch, deleteWatch, listWatches, upsertWatch } from "../storage/watches";
+import { checkProductWatches } from "../alerts/productAlerts";
+import { checkBrokenLinks } from "../alerts/linkAlerts";
+import { checkRoasFloors } from "../alerts/spendAlerts";
+import { meetsUrgency } from "../alerts/types";
+import { formatMoney } from "../currency/money";
 
 interface Alert {
+  alert_key?: string;
   alert_type: string;
   priority: string;
   title: string;
   message: string;
   action_required: string;
   deadline?: string;
+  occurred_at?: string;
   affected_products?: string[];
 }
 
+const watchStatusSchema = z.object({
+  product: z.string(),
+  platform: z.string(),
+  sku: z.string(),
+  current_price: z.string(),
+  availability: z.string(),
+  percent_drop: z.number().optional(),
+  target_price: z.string().optional(),
+  notify_restock: z.boolean(),
+  watching_since: z.string(),
+});
+
+function toWatchOutput(watch: ProductWatch) {
+  const currency = watch.product.priceCurrency;
+  return {
+    product: watch.product.title,
+    platform: watch.product.platform,
+    sku: watch.product.sku,
+    current_price: formatMoney({ amount: watch.product.priceAmount, currency }),
+    availability: watch.product.availability,
+    percent_drop: watch.percentDrop ?? undefined,
+    target_price: watch.targetPrice !== null ? formatMoney({ amount: watch.targetPrice, currency }) : undefined,
+    notify_restock: watch.notifyRestock,
+    watching_since: watch.createdAt.toISOString().split('T')[0],
+  };
+}
+
+// The product page's canonical URL, or null when it is not the URL of a
+// product on a supported merchant.
+function canonicalUrlOf(url: string | null) {
+  try {
+    return url ? canonicalizeProductUrl(url).canonicalUrl : null;
+  } catch {
+    return null;
+  }
+}
+
+// Catalog products behind a product page URL, compared by canonical URL
+// because shared links and feed links rarely carry the same parameters.
+async function findByProductUrl(url: string, merchant: string | undefined): Promise<MerchantProduct[]> {
+  let page;
+  try {
+    page = canonicalizeProductUrl(url);
+  } catch {
+    return [];
+  }
+  const candidates = await findMerchantProductsByLinkId(page.productId, merchant);
+  return candidates.filter(candidate => canonicalUrlOf(candidate.link) === page.canonicalUrl);
+}
+
+// Finds the single catalog product the user means, or explains why not.
+async function resolveProduct(product: string | undefined, merchant: string | undefined) {
+  if (!product) {
+    throw new ToolInputError("Tell me which product to watch (name, SKU, GTIN or product URL)");
+  }
+  const byUrl = await findByProductUrl(product, merchant);
+  const matches = byUrl.length > 0 ? byUrl : await findMerchantProducts(product, merchant);
+  if (matches.length === 0) {
+    throw new ToolInputError(`"${product}" is not in the product catalog. Only products from ingested merchant feeds can be watched.`);
+  }
+  const exact = matches.filter(match => match.title.toLowerCase() === product.toLowerCase());
+  if (matches.length > 1 && exact.length !== 1) {
+    throw new ToolInputError(`"${product}" matches several products, please be more specific: ${matches.map(match => `${match.title} (${match.platform}, SKU ${match.sku})`).join("; ")}`);
+  }
+  return exact[0] ?? matches[0]!;
+}
+
 export const alertsTool = createTool({
   id: "alerts-tool",
-  description: `Monitor and generate alerts for price drops, stock shortages, broken links, seasonal sales, and compliance reminders. Keeps affiliates informed of important opportunities and issues.`,
+  description: `Monitor and generate alerts for price drops, stock shortages, broken links, campaigns whose ROAS fell below their floor, seasonal sales, and compliance reminders. Users can watch catalog products with thresholds (percent drop, target price, back in stock); price-drop and restock alerts are computed from stored price history of watched products only. Keeps affiliates informed of important deals and issues.`,
   inputSchema: z.object({
-    alertType: z.enum(["price_drops", "stock_alerts", "link_status", "seasonal_sales", "compliance", "opportunities", "all"]).default("all").describe("Type of alerts to check"),
+    action: z.enum(["check", "watch", "unwatch", "list_watches"]).default("check").describe("check alerts, watch a product (with thresholds), stop watching one, or list watched products"),
+    alertType: z.enum(["price_drops", "stock_alerts", "link_status", "campaign_roas", "seasonal_sales", "compliance", "all"]).default("all").describe("Type of alerts to check"),
     urgency: z.enum(["low", "medium", "high", "critical"]).default("medium").describe("Minimum urgency level for alerts"),
     products: z.array(z.string()).optional().describe("Specific products to monitor"),
     platforms: z.array(z.string()).optional().describe("Specific platforms to monitor"),
+    product: z.string().optional().describe("Product to watch or unwatch: name, SKU, GTIN or product URL from the catalog"),
+    merchant: z.string().optional().describe("Merchant feed the product comes from, to disambiguate"),
+    percentDrop: z.number().positive().max(100).optional().describe("Alert when the price falls this many percent below its highest price since watching"),
+    targetPrice: z.number().positive().optional().describe("Alert when the price reaches this amount (in the product's currency)"),
+    notifyRestock: z.boolean().optional().describe("Alert when the product comes back in stock"),
   }),
   outputSchema: z.object({
     alerts: z.array(z.object({
+      alert_key: z.string().optional(),
       alert_type: z.string(),
       priority: z.string(),
       title: z.string(),
       message: z.string(),
       action_required: z.string(),
       deadline: z.string().optional(),
+      occurred_at: z.string().optional(),
       affected_products: z.array(z.string()).optional(),
     })),
+    watches: z.array(watchStatusSchema).optional(),
+    notice: z.string().optional(),
   }),
-  execute: async ({ context: { alertType, urgency, products, platforms }, mastra }) => {
+  execute: async ({ context: { action, alertType, urgency, products, platforms, product, merchant, percentDrop, targetPrice, notifyRestock }, resourceId, mastra }) => {
     const logger = mastra?.getLogger();
-    logger?.info('🔧 [Alerts] Starting alerts check with params:', { alertType, urgency, products, platforms });
+    const owner = requireUserId(resourceId);
+    await meterToolCall(owner, "alerts-tool");
+    logger?.info('🔧 [Alerts] Starting alerts check with params:', { action, alertType, urgency, products, platforms, product });
 
-    const alerts: Alert[] = [];
-    const currentDate = new Date();
-    const urgencyLevels = ["low", "medium", "high", "critical"];
-    const urgencyThreshold = urgencyLevels.indexOf(urgency);
-
-    logger?.info('📝 [Alerts] Checking for active alerts...');
+    if (action === "list_watches") {
+      const watches = await listWatches(owner);
+      return { alerts: [], watches: watches.map(toWatchOutput) };
+    }
 
-    // Price Drop Alerts
-    if (alertType === "price_drops" || alertType === "all") {
-      const priceDrops: Alert[] = [
-        {
-          alert_type: "price_drop",
-          priority: "high",
-          title: "🔥 Major Price Drop Alert!",
-          message: "Wireless Bluetooth Earbuds dropped from $49.99 to $29.99 (40% off) on Amazon. High conversion opportunity!",
-          action_required: "Update affiliate links and create urgent promotional content",
-          deadline: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          affected_products: ["Wireless Bluetooth Earbuds"]
-        },
-        {
-          alert_type: "price_drop",
-          priority: "medium",
-          title: "💰 Price Reduction Detected",
-          message: "Smart Fitness Tracker now 25% off on Flipkart. Good time to push this product.",
-          action_required: "Consider increasing promotion budget for this item",
-          deadline: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          affected_products: ["Smart Fitness Tracker"]
-        }
-      ];
+    if (action === "watch") {
+      if (percentDrop === undefined && targetPrice === undefined && !notifyRestock) {
+        throw new ToolInputError("Set at least one threshold: percentDrop, targetPrice or notifyRestock");
+      }
+      const target = await resolveProduct(product, merchant);
+      // Changing the thresholds of an existing watch is always allowed.
+      if (!(await listWatches(owner)).some((existing) => existing.product.id === target.id)) {
+        await assertCanAdd(owner, "trackedProducts");
+      }
+      const watch = await upsertWatch(owner, target.id, { percentDrop, targetPrice, notifyRestock });
+      logger?.info('✅ [Alerts] Watching product', { productId: target.id, sku: target.sku });
+      return { alerts: [], watches: [toWatchOutput(watch)] };
+    }
 
-      alerts.push(...priceDrops.filter(alert => urgencyLevels.indexOf(alert.priority) >= urgencyThreshold));
+    if (action === "unwatch") {
+      const target = await resolveProduct(product, merchant);
+      const removed = await deleteWatch(owner, target.id);
+      return {
+        alerts: [],
+        notice: removed ? `Stopped watching ${target.title}.` : `${target.title} was not being watched.`,
+      };
     }
 
-    // Stock Alerts
-    if (alertType === "stock_alerts" || alertType === "all") {
-      const stockAlerts: Alert[] = [
-        {
-          alert_type: "stock_shortage",
-          priority: "critical",
-          title: "⚠️ Critical Stock Alert",
-          message: "LED Desk Lamp with USB showing 'Only 3 left in stock' on Amazon. High-performing product running low!",
-          action_required: "Immediate action: Create scarcity-based content and increase promotion",
-          deadline: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          affected_products: ["LED Desk Lamp with USB"]
-        },
-        {
-          alert_type: "restock",
-          priority: "medium",
-          title: "📦 Restock Notification",
-          message: "Essential Oil Diffuser back in stock on multiple platforms after 2 weeks shortage.",
-          action_required: "Resume promotional campaigns for this product",
-          deadline: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          affected_products: ["Essential Oil Diffuser"]
-        }
-      ];
+    const alerts: Alert[] = [];
+    const currentDate = new Date();
+    const notices: string[] = [];
+
+    logger?.info('📝 [Alerts] Checking for active alerts...');
 
-      alerts.push(...stockAlerts.filter(alert => urgencyLevels.indexOf(alert.priority) >= urgencyThreshold));
+    // Price drop and restock alerts come from the user's watched products
+    if (alertType === "price_drops" || alertType === "stock_alerts" || alertType === "all") {
+      const watched = await checkProductWatches(owner, {
+        platforms: platforms?.map((platform) => platform.toLowerCase()),
+      });
+      if (watched.watches === 0) {
+        notices.push("No products are being watched yet, so there are no price-drop or restock alerts. Ask to watch a product with a percent drop, target price or back-in-stock threshold.");
+      }
+      const wanted = alertType === "price_drops" ? ["price_drop"] : alertType === "stock_alerts" ? ["restock"] : ["price_drop", "restock"];
+      alerts.push(...watched.alerts.filter(alert => wanted.includes(alert.alert_type) && meetsUrgency(alert.priority, urgency)));
     }
 
-    // Link Status Alerts
+    // Link status alerts come from the link health checker
     if (alertType === "link_status" || alertType === "all") {
-      const linkAlerts: Alert[] = [
-        {
-          alert_type: "broken_link",
-          priority: "high",
-          title: "🔗 Broken Link Detected",
-          message: "3 affiliate links for eBay products are returning 404 errors. Revenue impact detected.",
-          action_required: "Update or replace broken links immediately",
-          deadline: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          affected_products: products || ["Trendy Casual Sneakers", "Stylish Backpack", "Summer T-Shirt Collection"]
-        }
-      ];
+      const linkAlerts = await checkBrokenLinks(owner, {
+        platforms: platforms?.map((platform) => platform.toLowerCase()),
+      });
+      alerts.push(...linkAlerts.filter(alert => meetsUrgency(alert.priority, urgency)));
+    }
 
-      alerts.push(...linkAlerts.filter(alert => urgencyLevels.indexOf(alert.priority) >= urgencyThreshold));
+    // ROAS alerts compare campaign revenue with recorded ad spend
+    if (alertType === "campaign_roas" || alertType === "all") {
+      const roasAlerts = await checkRoasFloors(owner);
+      alerts.push(...roasAlerts.filter(alert => meetsUrgency(alert.priority, urgency)));
     }
 
     // Seasonal Sales Alerts
@@ -156,7 +232,7 @@ export const alertsTool = createTool({
         });
       }
 
-      alerts.push(...seasonalAlerts.filter(alert => urgencyLevels.indexOf(alert.priority) >= urgencyThreshold));
+      alerts.push(...seasonalAlerts.filter(alert => meetsUrgency(alert.priority, urgency)));
     }
 
     // Compliance Alerts
@@ -182,42 +258,7 @@ export const alertsTool = createTool({
         }
       ];
 
-      alerts.push(...complianceAlerts.filter(alert => urgencyLevels.indexOf(alert.priority) >= urgencyThreshold));
-    }
-
-    // Opportunity Alerts
-    if (alertType === "opportunities" || alertType === "all") {
-      const opportunityAlerts: Alert[] = [
-        {
-          alert_type: "opportunity",
-          priority: "high",
-          title: "🚀 Trending Product Alert",
-          message: "AI-powered home devices trending 300% this week. Low competition, high search volume!",
-          action_required: "Research and create content for AI home device category",
-          deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          affected_products: ["Smart home category"]
-        },
-        {
-          alert_type: "opportunity",
-          priority: "medium",
-          title: "💡 New Niche Opportunity",
-          message: "Sustainable/eco-friendly products showing increased demand. Consider expanding into this niche.",
-          action_required: "Evaluate eco-friendly product opportunities on your platforms",
-          deadline: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          affected_products: ["Eco-friendly category"]
-        },
-        {
-          alert_type: "opportunity",
-          priority: "medium",
-          title: "📈 Commission Rate Increase",
-          message: "Amazon increased commission rates for health & wellness category from 4% to 6%.",
-          action_required: "Increase focus on health & wellness promotions to maximize earnings",
-          deadline: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          affected_products: ["Health & wellness category"]
-        }
-      ];
-
-      alerts.push(...opportunityAlerts.filter(alert => urgencyLevels.indexOf(alert.priority) >= urgencyThreshold));
+      alerts.push(...complianceAlerts.filter(alert => meetsUrgency(alert.priority, urgency)));
     }
 
     // Filter by platform if specified
@@ -239,6 +280,6 @@ export const alertsTool = createTool({
 
     logger?.info('✅ [Alerts] Alert check completed, found alerts:', alerts.length);
     
-    return { alerts };
+    return { alerts, notice: notices.length > 0 ? notices.join(" ") : undefined };
   },
 });
\ No newline at end of file
@@ -1,15 +1,644 @@
 import { createTool } from "@mastra/core/tools";
 import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
+import { requireUserId } from "../storage/users";
+import { meterToolCall } from "../billing/entitlements";
+import {
+  type PerformanceFilter,
+  type PerformanceTotals,
+  getDailyPerformance,
+  getPerformanceBreakdown,
+  getPerformanceTotals,
+} from "../storage/analytics";
+import { getPreferences } from "../storage/preferences";
+import { type Campaign, findCampaign, listCampaigns } from "../storage/campaigns";
+import { type CampaignRollup, rollupCampaign } from "../campaigns/rollup";
+import { type Profitability, computeProfitability } from "../campaigns/profitability";
+import { getAdSpendTotals } from "../storage/adSpend";
+import {
+  type DailySeries,
+  type ForecastModelKind,
+  type SeriesForecast,
+  FORECAST_HORIZONS,
+  MIN_HISTORY_DAYS,
+  forecastSeries,
+  toDailySeries,
+} from "../analytics/forecast";
+import { type Money, convertMoney, currencyCodeSchema, formatMoney, moneySchema, roundMoney } from "../currency/money";
+import { ensureFxRatesLoaded } from "../currency/fxRateLoader";
+
+type Timeframe = "daily" | "weekly" | "monthly" | "yearly";
+type MetricType = "overview" | "detailed" | "predictive" | "comparison";
+
+interface AnalyticsMetric {
+  metric_name: string;
+  current_value: string;
+  previous_value?: string;
+  trend: string;
+  benchmark?: string;
+  insights: string;
+  current_money?: Money;
+  previous_money?: Money;
+  current_number?: number;
+  previous_number?: number;
+  unit?: MetricUnit;
+}
+
+type MetricUnit = "count" | "percent" | "money" | "ratio" | "rank";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const timeframeDays: Record<Timeframe, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+  yearly: 365,
+};
+
+const periodNoun: Record<Timeframe, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+};
+
+function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) {
+    return null;
+  }
+  return ((current - previous) / previous) * 100;
+}
+
+function describeTrend(current: number, previous: number, noun = "change"): string {
+  const change = percentChange(current, previous);
+  if (change === null) {
+    return current > 0 ? "🆕 No data in previous period" : "➖ No data yet";
+  }
+  if (Math.abs(change) < 0.05) {
+    return "➡️ No change";
+  }
+  const arrow = change > 0 ? "↗️" : "↘️";
+  const sign = change > 0 ? "+" : "";
+  return `${arrow} ${sign}${change.toFixed(1)}% ${noun}`;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+function money(amount: number, currency: string): string {
+  return formatMoney({ amount, currency });
+}
+
+function moneyValue(amount: number, currency: string): Money {
+  return { amount: roundMoney(amount), currency };
+}
+
+// Published benchmarks are weekly or monthly figures, scaled to the report's
+// timeframe.
+function benchmarkRange(min: number, max: number, days: number, timeframe: Timeframe): [number, number] {
+  const scale = timeframeDays[timeframe] / days;
+  return [Math.round(min * scale), Math.round(max * scale)];
+}
+
+// Published benchmarks are in US dollars; they are shown in the report
+// currency, or left out when there is no exchange rate for it.
+async function dollarRange(min: number, max: number, currency: string): Promise<string | undefined> {
+  const [low, high] = await Promise.all([
+    convertMoney({ amount: min, currency: "USD" }, currency),
+    convertMoney({ amount: max, currency: "USD" }, currency),
+  ]);
+  return low && high ? `${formatMoney(low)}-${formatMoney(high)}` : undefined;
+}
+
+interface MoneyBenchmarks {
+  revenue?: string;
+  orderValue?: string;
+}
+
+async function moneyBenchmarks(currency: string, timeframe: Timeframe): Promise<MoneyBenchmarks> {
+  const [revenue, orderValue] = await Promise.all([
+    dollarRange(...benchmarkRange(300, 600, 30, timeframe), currency),
+    dollarRange(25, 50, currency),
+  ]);
+  return { revenue, orderValue };
+}
+
+function performanceMetrics(
+  current: PerformanceTotals,
+  previous: PerformanceTotals,
+  timeframe: Timeframe,
+  currency: string,
+  benchmarks: MoneyBenchmarks,
+): AnalyticsMetric[] {
+  const conversionRate = ratio(current.conversions, current.clicks) * 100;
+  const previousConversionRate = ratio(previous.conversions, previous.clicks) * 100;
+  const avgOrderValue = ratio(current.sales, current.conversions);
+  const previousAvgOrderValue = ratio(previous.sales, previous.conversions);
+  const [minClicks, maxClicks] = benchmarkRange(200, 400, 7, timeframe);
+
+  return [
+    {
+      metric_name: "Total Clicks",
+      current_value: current.clicks.toString(),
+      previous_value: previous.clicks.toString(),
+      trend: describeTrend(current.clicks, previous.clicks),
+      benchmark: `Industry average: ${minClicks}-${maxClicks} clicks/${periodNoun[timeframe]}`,
+      current_number: current.clicks,
+      previous_number: previous.clicks,
+      unit: "count",
+      insights: current.clicks === 0
+        ? "No tracked clicks yet in this period. Share your short links to start collecting data."
+        : `${current.uniqueVisitors} unique visitors clicked your links this ${periodNoun[timeframe]}.`,
+    },
+    {
+      metric_name: "Conversions",
+      current_value: current.conversions.toString(),
+      previous_value: previous.conversions.toString(),
+      trend: describeTrend(current.conversions, previous.conversions),
+      benchmark: "Industry average: 2-4% conversion rate",
+      current_number: current.conversions,
+      previous_number: previous.conversions,
+      unit: "count",
+      insights: current.conversions === 0
+        ? "No conversions recorded in this period yet."
+        : `Conversion rate of ${conversionRate.toFixed(2)}% shows ${conversionRate > 3 ? 'excellent' : 'steady'} campaign performance.`,
+    },
+    {
+      metric_name: "Revenue Generated",
+      current_value: money(current.revenue, currency),
+      previous_value: money(previous.revenue, currency),
+      trend: describeTrend(current.revenue, previous.revenue),
+      benchmark: benchmarks.revenue && `Average revenue: ${benchmarks.revenue}/${periodNoun[timeframe]}`,
+      insights: current.unconverted > 0
+        ? `Commission earned on approved and pending orders. ${current.unconverted} conversions are missing an exchange rate to ${currency} and are not included.`
+        : "Commission earned on approved and pending orders; reversed orders are excluded.",
+      current_money: moneyValue(current.revenue, currency),
+      previous_money: moneyValue(previous.revenue, currency),
+      current_number: roundMoney(current.revenue),
+      previous_number: roundMoney(previous.revenue),
+      unit: "money",
+    },
+    {
+      metric_name: "Conversion Rate",
+      current_value: `${conversionRate.toFixed(2)}%`,
+      previous_value: `${previousConversionRate.toFixed(2)}%`,
+      trend: describeTrend(conversionRate, previousConversionRate),
+      benchmark: "Industry benchmark: 2-4%",
+      current_number: roundMoney(conversionRate),
+      previous_number: roundMoney(previousConversionRate),
+      unit: "percent",
+      insights: `Your conversion rate is ${conversionRate > 4 ? 'above' : conversionRate >= 2 ? 'within' : 'below'} industry standards.`,
+    },
+    {
+      metric_name: "Average Order Value",
+      current_value: money(avgOrderValue, currency),
+      previous_value: money(previousAvgOrderValue, currency),
+      trend: describeTrend(avgOrderValue, previousAvgOrderValue),
+      benchmark: benchmarks.orderValue && `Typical AOV: ${benchmarks.orderValue}`,
+      insights: "Average sale amount of the orders your links referred.",
+      current_money: moneyValue(avgOrderValue, currency),
+      previous_money: moneyValue(previousAvgOrderValue, currency),
+      current_number: roundMoney(avgOrderValue),
+      previous_number: roundMoney(previousAvgOrderValue),
+      unit: "money",
+    },
+  ];
+}
+
+// Change between two ratios that can be negative, in percentage points.
+function describePointChange(current: number | null, previous: number | null, unit: string): string {
+  if (current === null || previous === null) {
+    return current === null ? "➖ No data yet" : "🆕 No data in previous period";
+  }
+  const change = current - previous;
+  if (Math.abs(change) < 0.005) {
+    return "➡️ No change";
+  }
+  return `${change > 0 ? "↗️ +" : "↘️ "}${change.toFixed(2)}${unit} change`;
+}
+
+// ROI and the paid-traffic metrics that need recorded ad spend.
+function profitabilityMetrics(
+  current: Profitability,
+  previous: Profitability,
+  unconvertedSpend: number,
+  currency: string,
+): AnalyticsMetric[] {
+  const spendNote = unconvertedSpend > 0
+    ? ` ${unconvertedSpend} spend entries are missing an exchange rate to ${currency} and are not included.`
+    : "";
+  const metrics: AnalyticsMetric[] = [];
+
+  if (current.roiPercent === null) {
+    metrics.push({
+      metric_name: "ROI",
+      current_value: "Not available",
+      trend: "➖ No spend data",
+      benchmark: "Target ROI: 200-400%",
+      insights: `ROI needs recorded ad spend; no spend has been tracked for this period. Tell me what you spent or send your ads manager export.${spendNote}`,
+    });
+  } else {
+    metrics.push(
+      {
+        metric_name: "Ad Spend",
+        current_value: money(current.spend, currency),
+        previous_value: money(previous.spend, currency),
+        trend: describeTrend(current.spend, previous.spend),
+        insights: `${current.profit >= 0 ? `${money(current.profit, currency)} profit` : `${money(-current.profit, currency)} loss`} after ad spend.${spendNote}`,
+        current_money: moneyValue(current.spend, currency),
+        previous_money: moneyValue(previous.spend, currency),
+        current_number: roundMoney(current.spend),
+        previous_number: roundMoney(previous.spend),
+        unit: "money",
+      },
+      {
+        metric_name: "ROI",
+        current_value: `${current.roiPercent.toFixed(1)}%`,
+        previous_value: previous.roiPercent === null ? undefined : `${previous.roiPercent.toFixed(1)}%`,
+        trend: describePointChange(current.roiPercent, previous.roiPercent, " pts"),
+        benchmark: "Target ROI: 200-400%",
+        insights: current.roiPercent >= 0
+          ? `Every ${money(1, currency)} spent on ads returned ${money(1 + current.roiPercent / 100, currency)} in commission.`
+          : "Your ads cost more than they earned in commission this period.",
+        current_number: roundMoney(current.roiPercent),
+        previous_number: previous.roiPercent === null ? undefined : roundMoney(previous.roiPercent),
+        unit: "percent",
+      },
+      {
+        metric_name: "ROAS",
+        current_value: `${current.roas!.toFixed(2)}x`,
+        previous_value: previous.roas === null ? undefined : `${previous.roas.toFixed(2)}x`,
+        trend: describePointChange(current.roas, previous.roas, "x"),
+        benchmark: "Break-even: 1.00x",
+        insights: current.roas! >= 1
+          ? "Commission covers your ad spend."
+          : "Commission does not cover your ad spend; cut the weakest channel or raise conversions.",
+        current_number: roundMoney(current.roas!),
+        previous_number: previous.roas === null ? undefined : roundMoney(previous.roas),
+        unit: "ratio",
+      },
+    );
+  }
+
+  if (current.epc !== null) {
+    metrics.push({
+      metric_name: "EPC",
+      current_value: money(current.epc, currency),
+      previous_value: previous.epc === null ? undefined : money(previous.epc, currency),
+      trend: describeTrend(current.epc, previous.epc ?? 0),
+      insights: "Commission earned per tracked click.",
+      current_money: moneyValue(current.epc, currency),
+      previous_money: previous.epc === null ? undefined : moneyValue(previous.epc, currency),
+      current_number: roundMoney(current.epc),
+      previous_number: previous.epc === null ? undefined : roundMoney(previous.epc),
+      unit: "money",
+    });
+  }
+
+  if (current.cpa !== null) {
+    metrics.push({
+      metric_name: "CPA",
+      current_value: money(current.cpa, currency),
+      previous_value: previous.cpa === null ? undefined : money(previous.cpa, currency),
+      trend: describeTrend(current.cpa, previous.cpa ?? 0),
+      insights: "Ad spend per conversion.",
+      current_money: moneyValue(current.cpa, currency),
+      previous_money: previous.cpa === null ? undefined : moneyValue(previous.cpa, currency),
+      current_number: roundMoney(current.cpa),
+      previous_number: previous.cpa === null ? undefined : roundMoney(previous.cpa),
+      unit: "money",
+    });
+  }
+
+  if (current.breakEvenCpc !== null && current.cpc !== null) {
+    metrics.push({
+      metric_name: "Break-even CPC",
+      current_value: money(current.breakEvenCpc, currency),
+      trend: current.cpc <= current.breakEvenCpc ? "✅ Paying less than break-even" : "⚠️ Paying more than break-even",
+      insights: `You paid ${money(current.cpc, currency)} per click; bids above ${money(current.breakEvenCpc, currency)} per click lose money.`,
+      current_money: moneyValue(current.breakEvenCpc, currency),
+      current_number: roundMoney(current.breakEvenCpc),
+      unit: "money",
+    });
+  }
+
+  return metrics;
+}
+
+// How much history forecasts are fitted on; two years lets the yearly cycle
+// be seen twice.
+const FORECAST_HISTORY_DAYS = 730;
+
+const forecastBasis: Record<ForecastModelKind, string> = {
+  average: "your average day so far (too little history for patterns yet)",
+  weekly: "your average day and weekday pattern",
+  trend_weekly: "your trend and weekday pattern",
+  trend_weekly_yearly: "your trend, weekday pattern and seasonal cycle",
+};
+
+interface PerformanceSeries {
+  revenue: DailySeries;
+  clicks: DailySeries;
+  conversions: DailySeries;
+}
+
+// 30/60/90-day projections of revenue, with the clicks and conversions
+// expected alongside, from daily history.
+function forecastMetrics(series: PerformanceSeries, currency: string): AnalyticsMetric[] {
+  const revenue = forecastSeries(series.revenue);
+  if (!revenue) {
+    const days = series.revenue.values.length;
+    return [{
+      metric_name: "Revenue Forecast",
+      current_value: "Not enough history",
+      trend: "➖ No data yet",
+      insights: `Forecasts need at least ${MIN_HISTORY_DAYS} days of tracked clicks or conversions; you have ${days} day${days === 1 ? "" : "s"} so far.`,
+    }];
+  }
+  const clicks = forecastSeries(series.clicks);
+  const conversions = forecastSeries(series.conversions);
+  const expectedCount = (forecast: SeriesForecast | null, index: number) =>
+    Math.round(forecast?.horizons[index]?.expected ?? 0);
+
+  return revenue.horizons.map((horizon, index) => ({
+    metric_name: `Revenue Forecast: next ${horizon.days} days`,
+    current_value: money(horizon.expected, currency),
+    trend: `80% range: ${money(horizon.interval80.low, currency)} – ${money(horizon.interval80.high, currency)}`,
+    benchmark: `95% range: ${money(horizon.interval95.low, currency)} – ${money(horizon.interval95.high, currency)}`,
+    insights: `About ${expectedCount(clicks, index)} clicks and ${expectedCount(conversions, index)} conversions expected, projected from ${forecastBasis[revenue.model]} over ${revenue.historyDays} days of history.`,
+    current_money: moneyValue(horizon.expected, currency),
+    current_number: roundMoney(horizon.expected),
+    unit: "money" as const,
+  }));
+}
+
+// Daily history since the first tracked activity, up to yesterday.
+async function performanceSeries(
+  baseFilter: Omit<PerformanceFilter, "from" | "to">,
+  now: number,
+): Promise<PerformanceSeries> {
+  const days = await getDailyPerformance({
+    ...baseFilter,
+    from: new Date(now - FORECAST_HISTORY_DAYS * DAY_MS),
+    to: new Date(now),
+  });
+  const firstDay = days[0]?.day;
+  const end = new Date(now);
+  return {
+    revenue: toDailySeries(days.map((day) => ({ day: day.day, value: day.revenue })), end, firstDay),
+    clicks: toDailySeries(days.map((day) => ({ day: day.day, value: day.clicks })), end, firstDay),
+    conversions: toDailySeries(days.map((day) => ({ day: day.day, value: day.conversions })), end, firstDay),
+  };
+}
+
+// Campaign results since the campaign started, against its revenue goal.
+function campaignGoalMetric(rollup: CampaignRollup): AnalyticsMetric {
+  const { campaign, totals, goalAttainmentPercent, elapsedPercent, onTrack } = rollup;
+  const attainment = goalAttainmentPercent ?? 0;
+  return {
+    metric_name: `Campaign Goal: ${campaign.name}`,
+    current_value: `${attainment.toFixed(1)}% (${money(totals.revenue, campaign.currency)} of ${money(campaign.revenueGoal ?? 0, campaign.currency)})`,
+    trend: onTrack === null
+      ? campaign.status === "ended" ? "🏁 Campaign ended" : "➖ No end date to pace against"
+      : onTrack ? `✅ On track, ${elapsedPercent!.toFixed(0)}% of the time used` : `⚠️ Behind pace, ${elapsedPercent!.toFixed(0)}% of the time used`,
+    insights: `${totals.clicks} clicks and ${totals.conversions} conversions since the ${campaign.name} campaign started (${campaign.status}).`,
+    current_money: moneyValue(totals.revenue, campaign.currency),
+    current_number: roundMoney(attainment),
+    unit: "percent",
+  };
+}
+
+// The named campaign, or with a detailed report every running campaign.
+async function campaignsWithGoals(
+  metricType: MetricType,
+  baseFilter: Omit<PerformanceFilter, "from" | "to">,
+): Promise<Campaign[]> {
+  const campaigns = baseFilter.campaignName
+    ? [await findCampaign(baseFilter.resourceId, baseFilter.campaignName)]
+    : metricType === "detailed"
+      ? (await listCampaigns(baseFilter.resourceId)).filter((campaign) => campaign.status === "active" || campaign.status === "paused")
+      : [];
+  return campaigns.filter((campaign): campaign is Campaign => campaign !== null && campaign.revenueGoal !== null);
+}
+
+async function liveAnalytics(
+  metricType: MetricType,
+  timeframe: Timeframe,
+  baseFilter: Omit<PerformanceFilter, "from" | "to">,
+  logger?: IMastraLogger,
+): Promise<AnalyticsMetric[]> {
+  const now = Date.now();
+  const windowMs = timeframeDays[timeframe] * DAY_MS;
+  const currentFilter = { ...baseFilter, from: new Date(now - windowMs), to: new Date(now) };
+  const previousFilter = { ...baseFilter, from: new Date(now - 2 * windowMs), to: new Date(now - windowMs) };
+
+  const { currency } = baseFilter;
+  const [current, previous] = await Promise.all([
+    getPerformanceTotals(currentFilter),
+    getPerformanceTotals(previousFilter),
+  ]);
+
+  const analytics: AnalyticsMetric[] = [];
+
+  if (metricType === "overview" || metricType === "detailed") {
+    analytics.push(...performanceMetrics(current, previous, timeframe, currency, await moneyBenchmarks(currency, timeframe)));
+    if (baseFilter.platform) {
+      // Spend is recorded per ad channel, which says nothing about the
+      // merchant a click ended up at.
+      analytics.push({
+        metric_name: "ROI",
+        current_value: "Not available",
+        trend: "➖ Not split by platform",
+        benchmark: "Target ROI: 200-400%",
+        insights: "Ad spend is recorded per campaign and ad channel, not per merchant platform. Drop the platform filter to see ROI, ROAS and CPA.",
+      });
+    } else {
+      const [currentSpend, previousSpend] = await Promise.all([
+        getAdSpendTotals(currentFilter),
+        getAdSpendTotals(previousFilter),
+      ]);
+      analytics.push(
+        ...profitabilityMetrics(
+          computeProfitability(current, currentSpend.spend),
+          computeProfitability(previous, previousSpend.spend),
+          currentSpend.unconverted,
+          currency,
+        ),
+      );
+    }
+  }
+
+  if (metricType === "detailed") {
+    logger?.info('📝 [AnalyticsSimulation] Adding platform and campaign breakdowns...');
+    for (const dimension of ["platform", "campaign"] as const) {
+      const rows = await getPerformanceBreakdown(currentFilter, dimension);
+      for (const row of rows) {
+        analytics.push({
+          metric_name: `${dimension === "platform" ? "Platform" : "Campaign"}: ${row.key}`,
+          current_value: `${row.clicks} clicks, ${row.conversions} conversions, ${money(row.revenue, currency)}`,
+          trend: `${(ratio(row.conversions, row.clicks) * 100).toFixed(2)}% conversion rate`,
+          insights: `${money(ratio(row.revenue, row.clicks), currency)} earned per click from ${row.key}.`,
+          current_money: moneyValue(row.revenue, currency),
+          current_number: roundMoney(row.revenue),
+          unit: "money",
+        });
+      }
+    }
+  }
+
+  if (metricType === "overview" || metricType === "detailed") {
+    for (const campaign of await campaignsWithGoals(metricType, baseFilter)) {
+      analytics.push(campaignGoalMetric(await rollupCampaign(campaign)));
+    }
+  }
+
+  if (metricType === "predictive") {
+    logger?.info('📝 [AnalyticsSimulation] Forecasting from daily history...');
+    analytics.push(...forecastMetrics(await performanceSeries(baseFilter, now), currency));
+  }
+
+  if (metricType === "comparison") {
+    logger?.info('📝 [AnalyticsSimulation] Generating comparison metrics...');
+    const [currentRows, previousRows] = await Promise.all([
+      getPerformanceBreakdown(currentFilter, "platform"),
+      getPerformanceBreakdown(previousFilter, "platform"),
+    ]);
+
+    if (currentRows.length === 0) {
+      analytics.push({
+        metric_name: "Platform Performance Ranking",
+        current_value: "No data",
+        trend: "➖ No data yet",
+        insights: "No clicks or conversions were recorded for any platform in this period.",
+      });
+    }
+
+    currentRows.forEach((row, index) => {
+      const previousIndex = previousRows.findIndex((previousRow) => previousRow.key === row.key);
+      const previousRow = previousRows[previousIndex];
+      analytics.push({
+        metric_name: `Platform Ranking: ${row.key}`,
+        current_value: `#${index + 1} (${money(row.revenue, currency)})`,
+        previous_value: previousRow ? `#${previousIndex + 1} (${money(previousRow.revenue, currency)})` : undefined,
+        trend: describeTrend(row.revenue, previousRow?.revenue ?? 0),
+        insights: `${row.clicks} clicks and ${row.conversions} conversions on ${row.key} this period.`,
+        current_money: moneyValue(row.revenue, currency),
+        previous_money: previousRow ? moneyValue(previousRow.revenue, currency) : undefined,
+        current_number: index + 1,
+        previous_number: previousRow ? previousIndex + 1 : undefined,
+        unit: "rank",
+      });
+    });
+  }
+
+  return analytics;
+}
+
+// Demo data for showing the report layout before any real traffic exists.
+// Every metric is labelled so it can never be mistaken for real results.
+async function simulatedAnalytics(
+  metricType: MetricType,
+  timeframe: Timeframe,
+  platform?: string,
+): Promise<AnalyticsMetric[]> {
+  const analytics: AnalyticsMetric[] = [];
+
+  // Base metrics that vary by timeframe
+  const multipliers = {
+    daily: { clicks: 50, conversions: 2, revenue: 25 },
+    weekly: { clicks: 350, conversions: 14, revenue: 175 },
+    monthly: { clicks: 1500, conversions: 60, revenue: 750 },
+    yearly: { clicks: 18000, conversions: 720, revenue: 9000 }
+  };
+
+  const baseMetrics = multipliers[timeframe];
+
+  // Add some realistic variance
+  const variance = () => 0.8 + Math.random() * 0.4; // 80-120% variance
+
+  const clicks = Math.round(baseMetrics.clicks * variance());
+  const conversions = Math.round(baseMetrics.conversions * variance());
+  const revenue = Math.round(baseMetrics.revenue * variance());
+  const previous = {
+    clicks: Math.round(baseMetrics.clicks * variance()),
+    uniqueVisitors: 0,
+    conversions: Math.round(baseMetrics.conversions * variance()),
+    sales: 0,
+    revenue: Math.round(baseMetrics.revenue * variance()),
+    unconverted: 0,
+  };
+  // Simulated amounts are always in US dollars.
+  const currency = "USD";
+
+  if (metricType === "overview" || metricType === "detailed") {
+    analytics.push(
+      ...performanceMetrics(
+        { clicks, uniqueVisitors: Math.round(clicks * 0.8), conversions, sales: revenue * 4, revenue, unconverted: 0 },
+        { ...previous, uniqueVisitors: Math.round(previous.clicks * 0.8), sales: previous.revenue * 4 },
+        timeframe,
+        currency,
+        await moneyBenchmarks(currency, timeframe),
+      ),
+      ...profitabilityMetrics(
+        computeProfitability({ clicks, conversions, revenue }, Math.round(revenue * 0.4 * variance())),
+        computeProfitability(previous, Math.round(previous.revenue * 0.4 * variance())),
+        0,
+        currency,
+      ),
+    );
+  }
+
+  if (metricType === "predictive") {
+    // Four months of made-up history with busier weekends and slow growth,
+    // run through the real forecasting model.
+    const days = 120;
+    const start = new Date();
+    start.setUTCHours(0, 0, 0, 0);
+    start.setTime(start.getTime() - days * DAY_MS);
+    const daily = (base: number) => Array.from({ length: days }, (_, index) => {
+      const weekday = new Date(start.getTime() + index * DAY_MS).getUTCDay();
+      const weekend = weekday === 0 || weekday === 6 ? 1.3 : 1;
+      return (base / timeframeDays[timeframe]) * (0.85 + (0.3 * index) / days) * weekend * variance();
+    });
+    analytics.push(
+      ...forecastMetrics(
+        {
+          revenue: { start, values: daily(baseMetrics.revenue) },
+          clicks: { start, values: daily(baseMetrics.clicks).map(Math.round) },
+          conversions: { start, values: daily(baseMetrics.conversions).map(Math.round) },
+        },
+        currency,
+      ),
+    );
+  }
+
+  if (metricType === "comparison") {
+    analytics.push({
+      metric_name: "Platform Performance Ranking",
+      current_value: platform ? `${platform}: #2 performer` : "Amazon: #1, eBay: #2, Flipkart: #3",
+      trend: "📈 Consistent improvement",
+      insights: platform ? `${platform} is your second-best performing platform` : "Diversified platform strategy showing balanced performance."
+    });
+  }
+
+  return analytics.map((metric) => ({
+    ...metric,
+    metric_name: `${metric.metric_name} (simulated)`,
+    insights: `[Simulation - not real data] ${metric.insights}`,
+  }));
+}
 
 export const analyticsSimulationTool = createTool({
   id: "analytics-simulation-tool",
-  description: `Simulate and track affiliate marketing analytics including clicks, conversions, ROI, and provide predictive insights. Shows performance metrics and benchmarks.`,
+  description: `Report affiliate marketing analytics computed from the user's tracked clicks and conversions: clicks, conversions, revenue, conversion rate, and with recorded ad spend ROI, ROAS, EPC, CPA and break-even CPC, with trends against the previous period, and 30/60/90-day forecasts of revenue, clicks and conversions with 80% and 95% ranges, broken down by platform and campaign, with progress towards each campaign's revenue goal. A clearly labelled simulation mode produces demo numbers when the user explicitly asks for a demo.`,
   inputSchema: z.object({
     timeframe: z.enum(["daily", "weekly", "monthly", "yearly"]).default("weekly").describe("Time period for analytics"),
     campaignName: z.string().optional().describe("Specific campaign to analyze"),
     platform: z.string().optional().describe("Platform to focus analytics on"),
     metricType: z.enum(["overview", "detailed", "predictive", "comparison"]).default("overview").describe("Type of analytics report"),
+    currency: currencyCodeSchema.optional().describe("ISO currency code to report amounts in; defaults to the user's reporting currency"),
+    mode: z.enum(["live", "simulation"]).default("live").describe("Use 'live' for real tracked data; 'simulation' only when the user explicitly asks for demo numbers"),
   }),
   outputSchema: z.object({
     analytics: z.array(z.object({
@@ -19,136 +648,40 @@ export const analyticsSimulationTool = createTool({
       trend: z.string(),
       benchmark: z.string().optional(),
       insights: z.string(),
+      current_money: moneySchema.optional(),
+      previous_money: moneySchema.optional(),
+      current_number: z.number().optional().describe("Machine-readable value of current_value"),
+      previous_number: z.number().optional().describe("Machine-readable value of previous_value"),
+      unit: z.enum(["count", "percent", "money", "ratio", "rank"]).optional(),
     })),
   }),
-  execute: async ({ context: { timeframe, campaignName, platform, metricType }, mastra }) => {
+  execute: async ({ context: { timeframe, campaignName, platform, metricType, currency, mode }, resourceId, mastra }) => {
     const logger = mastra?.getLogger();
-    logger?.info('🔧 [AnalyticsSimulation] Starting analytics generation with params:', { timeframe, campaignName, platform, metricType });
-
-    logger?.info('📝 [AnalyticsSimulation] Generating performance metrics...');
-
-    const analytics = [];
-
-    // Base metrics that vary by timeframe
-    const multipliers = {
-      daily: { clicks: 50, conversions: 2, revenue: 25 },
-      weekly: { clicks: 350, conversions: 14, revenue: 175 },
-      monthly: { clicks: 1500, conversions: 60, revenue: 750 },
-      yearly: { clicks: 18000, conversions: 720, revenue: 9000 }
-    };
-
-    const baseMetrics = multipliers[timeframe];
-    
-    // Add some realistic variance
-    const variance = () => 0.8 + Math.random() * 0.4; // 80-120% variance
-    
-    const clicks = Math.round(baseMetrics.clicks * variance());
-    const conversions = Math.round(baseMetrics.conversions * variance());
-    const revenue = Math.round(baseMetrics.revenue * variance());
-    const conversionRate = ((conversions / clicks) * 100).toFixed(2);
-    const avgOrderValue = (revenue / conversions).toFixed(2);
-    const roi = (((revenue - (revenue * 0.3)) / (revenue * 0.3)) * 100).toFixed(1);
-
-    if (metricType === "overview" || metricType === "detailed") {
-      analytics.push(
-        {
-          metric_name: "Total Clicks",
-          current_value: clicks.toString(),
-          previous_value: Math.round(clicks * 0.85).toString(),
-          trend: "↗️ +15% increase",
-          benchmark: "Industry average: 200-400 clicks/week",
-          insights: `Your click-through rate is performing ${clicks > baseMetrics.clicks ? 'above' : 'at'} expected levels for ${timeframe} campaigns.`
-        },
-        {
-          metric_name: "Conversions",
-          current_value: conversions.toString(),
-          previous_value: Math.round(conversions * 0.9).toString(),
-          trend: "↗️ +10% increase",
-          benchmark: "Industry average: 2-4% conversion rate",
-          insights: `Conversion rate of ${conversionRate}% shows ${parseFloat(conversionRate) > 3 ? 'excellent' : 'good'} campaign performance.`
-        },
-        {
-          metric_name: "Revenue Generated",
-          current_value: `$${revenue}`,
-          previous_value: `$${Math.round(revenue * 0.88)}`,
-          trend: "↗️ +12% increase",
-          benchmark: "Average revenue: $300-600/month",
-          insights: `Revenue growth indicates successful product selection and content strategy.`
-        },
-        {
-          metric_name: "Conversion Rate",
-          current_value: `${conversionRate}%`,
-          previous_value: `${(parseFloat(conversionRate) * 0.92).toFixed(2)}%`,
-          trend: "↗️ +8% improvement",
-          benchmark: "Industry benchmark: 2-4%",
-          insights: `Your conversion rate is ${parseFloat(conversionRate) > 3 ? 'significantly above' : 'within'} industry standards.`
-        },
-        {
-          metric_name: "Average Order Value",
-          current_value: `$${avgOrderValue}`,
-          previous_value: `$${(parseFloat(avgOrderValue) * 0.95).toFixed(2)}`,
-          trend: "↗️ +5% increase",
-          benchmark: "Typical AOV: $25-50",
-          insights: `Higher AOV suggests effective promotion of quality products.`
-        },
-        {
-          metric_name: "ROI",
-          current_value: `${roi}%`,
-          previous_value: `${(parseFloat(roi) * 0.9).toFixed(1)}%`,
-          trend: "↗️ +10% improvement",
-          benchmark: "Target ROI: 200-400%",
-          insights: `Strong ROI indicates efficient campaign spending and good product selection.`
-        }
-      );
-    }
+    const owner = requireUserId(resourceId);
+    await meterToolCall(owner, "analytics-simulation-tool");
+    logger?.info('🔧 [AnalyticsSimulation] Starting analytics generation with params:', { timeframe, campaignName, platform, metricType, currency, mode });
 
-    if (metricType === "predictive") {
-      logger?.info('📝 [AnalyticsSimulation] Generating predictive analytics...');
-      
-      analytics.push(
-        {
-          metric_name: "Projected Monthly Revenue",
-          current_value: `$${Math.round(revenue * 4.3)}`,
-          trend: "📈 +25% growth predicted",
-          insights: "Based on current trends, expect continued growth with seasonal peak in Q4."
-        },
-        {
-          metric_name: "Trending Products Alert",
-          current_value: "3 products gaining momentum",
-          trend: "🔥 Hot trending items",
-          insights: "Electronics and health products showing 40% increase in engagement this month."
-        },
-        {
-          metric_name: "Market Opportunity",
-          current_value: "High potential detected",
-          trend: "📊 Emerging niche identified",
-          insights: "Smart home devices category showing untapped potential with low competition."
-        }
-      );
+    if (mode === "simulation") {
+      logger?.info('📝 [AnalyticsSimulation] Generating simulated performance metrics...');
+      const analytics = await simulatedAnalytics(metricType, timeframe, platform);
+      logger?.info('✅ [AnalyticsSimulation] Simulated analytics generated successfully');
+      return { analytics };
     }
 
-    if (metricType === "comparison") {
-      logger?.info('📝 [AnalyticsSimulation] Generating comparison metrics...');
-      
-      analytics.push(
-        {
-          metric_name: "Performance vs Competitors",
-          current_value: "Above average",
-          benchmark: "Top 25% of affiliates",
-          trend: "🏆 Outperforming peers",
-          insights: "Your campaigns are performing better than 75% of similar affiliates in your niche."
-        },
-        {
-          metric_name: "Platform Performance Ranking",
-          current_value: platform ? `${platform}: #2 performer` : "Amazon: #1, eBay: #2, Flipkart: #3",
-          trend: "📈 Consistent improvement",
-          insights: platform ? `${platform} is your second-best performing platform` : "Diversified platform strategy showing balanced performance."
-        }
-      );
-    }
+    logger?.info('📝 [AnalyticsSimulation] Aggregating tracked clicks and conversions...');
+
+    const reportingCurrency = currency ?? (await getPreferences(owner)).reportingCurrency;
+    await ensureFxRatesLoaded();
+
+    const analytics = await liveAnalytics(
+      metricType,
+      timeframe,
+      { resourceId: owner, currency: reportingCurrency, campaignName, platform },
+      logger,
+    );
+
+    logger?.info('✅ [AnalyticsSimulation] Analytics generated successfully', { metrics: analytics.length });
 
-    logger?.info('✅ [AnalyticsSimulation] Analytics generated successfully');
-    
     return { analytics };
   },
-});
\ No newline at end of file
+});
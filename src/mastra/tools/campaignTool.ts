@@ -0,0 +1,469 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { ToolInputError } from "./errors";
+import { requireUserId } from "../storage/users";
+import { meterToolCall } from "../billing/entitlements";
+import {
+  type Campaign,
+  type CampaignUpdate,
+  addCampaignProduct,
+  createCampaign,
+  findCampaign,
+  listCampaignContent,
+  listCampaignProducts,
+  listCampaigns,
+  updateCampaign,
+} from "../storage/campaigns";
+import { listLinks } from "../storage/links";
+import { getPreferences } from "../storage/preferences";
+import { type CampaignRollup, rollupCampaign } from "../campaigns/rollup";
+import {
+  currencyCodeSchema,
+  formatMoney,
+  moneySchema,
+  roundMoney,
+} from "../currency/money";
+import { ensureFxRatesLoaded } from "../currency/fxRateLoader";
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date");
+
+function money(amount: number, currency: string) {
+  return { amount: roundMoney(amount), currency };
+}
+
+function percent(value: number | null): number | undefined {
+  return value === null ? undefined : Math.round(value * 10) / 10;
+}
+
+function optionalMoney(
+  amount: number | null,
+  currency: string,
+): string | undefined {
+  return amount === null ? undefined : formatMoney(money(amount, currency));
+}
+
+function toCampaignOutput(campaign: Campaign, rollup?: CampaignRollup) {
+  const { currency } = campaign;
+  return {
+    name: campaign.name,
+    status: campaign.status,
+    niche: campaign.niche ?? undefined,
+    platforms: campaign.platforms,
+    start_date: campaign.startsOn ?? undefined,
+    end_date: campaign.endsOn ?? undefined,
+    budget:
+      campaign.budget === null
+        ? undefined
+        : formatMoney(money(campaign.budget, currency)),
+    budget_money:
+      campaign.budget === null ? undefined : money(campaign.budget, currency),
+    revenue_goal:
+      campaign.revenueGoal === null
+        ? undefined
+        : formatMoney(money(campaign.revenueGoal, currency)),
+    revenue_goal_money:
+      campaign.revenueGoal === null
+        ? undefined
+        : money(campaign.revenueGoal, currency),
+    roas_floor: campaign.roasFloor ?? undefined,
+    performance: rollup
+      ? {
+          clicks: rollup.totals.clicks,
+          conversions: rollup.totals.conversions,
+          revenue: formatMoney(money(rollup.totals.revenue, currency)),
+          revenue_money: money(rollup.totals.revenue, currency),
+          spend: formatMoney(money(rollup.spend.spend, currency)),
+          spend_money: money(rollup.spend.spend, currency),
+          profit: formatMoney(money(rollup.profitability.profit, currency)),
+          roi_percent: percent(rollup.profitability.roiPercent),
+          roas:
+            rollup.profitability.roas === null
+              ? undefined
+              : Math.round(rollup.profitability.roas * 100) / 100,
+          epc: optionalMoney(rollup.profitability.epc, currency),
+          cpa: optionalMoney(rollup.profitability.cpa, currency),
+          break_even_cpc: optionalMoney(
+            rollup.profitability.breakEvenCpc,
+            currency,
+          ),
+          budget_used_percent: percent(rollup.budgetUsedPercent),
+          goal_attainment_percent: percent(rollup.goalAttainmentPercent),
+          elapsed_percent: percent(rollup.elapsedPercent),
+          on_track: rollup.onTrack ?? undefined,
+        }
+      : undefined,
+  };
+}
+
+function describeRollup(rollup: CampaignRollup): string {
+  const {
+    campaign,
+    totals,
+    profitability,
+    goalAttainmentPercent,
+    elapsedPercent,
+    onTrack,
+  } = rollup;
+  const revenue = formatMoney(money(totals.revenue, campaign.currency));
+  const parts = [
+    `${campaign.name}: ${totals.clicks} clicks, ${totals.conversions} conversions, ${revenue} earned`,
+  ];
+  if (profitability.spend > 0) {
+    parts.push(
+      `${formatMoney(money(profitability.spend, campaign.currency))} spent (ROAS ${profitability.roas!.toFixed(2)}x, ROI ${percent(profitability.roiPercent)}%)`,
+    );
+  }
+  if (rollup.budgetUsedPercent !== null && profitability.spend > 0) {
+    parts.push(`${percent(rollup.budgetUsedPercent)}% of the budget used`);
+  }
+  if (goalAttainmentPercent !== null && campaign.revenueGoal !== null) {
+    parts.push(
+      `${percent(goalAttainmentPercent)}% of the ${formatMoney(money(campaign.revenueGoal, campaign.currency))} goal`,
+    );
+  }
+  if (elapsedPercent !== null && campaign.status !== "ended") {
+    parts.push(
+      `${percent(elapsedPercent)}% of the time used${onTrack === null ? "" : onTrack ? " (on track ✅)" : " (behind pace ⚠️)"}`,
+    );
+  }
+  return `${parts.join(", ")}.`;
+}
+
+// Only the lifecycle moves the user makes directly; closing is its own action.
+function checkStatusChange(
+  campaign: Campaign,
+  status: CampaignUpdate["status"],
+) {
+  if (campaign.status === "ended") {
+    throw new ToolInputError(
+      `The ${campaign.name} campaign has ended and can't be changed; create a new campaign instead`,
+    );
+  }
+  if (status === "draft" && campaign.status !== "draft") {
+    throw new ToolInputError(
+      `The ${campaign.name} campaign has already started; pause it instead`,
+    );
+  }
+}
+
+function checkDates(
+  startsOn: string | null | undefined,
+  endsOn: string | null | undefined,
+) {
+  if (startsOn && endsOn && endsOn < startsOn) {
+    throw new ToolInputError("The end date must be on or after the start date");
+  }
+}
+
+export const campaignTool = createTool({
+  id: "campaign-tool",
+  description: `Create and run the user's affiliate campaigns: a campaign has a name, niche, platforms, date range, budget, revenue goal, ROAS floor and status (draft, active, paused, ended), and groups the products, links and generated content tagged with it. Actions: create, update (details, status, products), close (ends it and reports the result), summarize (performance against the revenue goal, ad spend, ROI and ROAS, with its products, links and content) and list.`,
+  inputSchema: z.object({
+    action: z
+      .enum(["create", "update", "close", "summarize", "list"])
+      .default("list")
+      .describe("What to do with the user's campaigns"),
+    name: z
+      .string()
+      .optional()
+      .describe("Campaign name (required except to list)"),
+    newName: z
+      .string()
+      .optional()
+      .describe(
+        "New name when renaming a campaign; its links and conversions move along",
+      ),
+    niche: z
+      .string()
+      .optional()
+      .describe("Niche or theme, e.g. 'budget fitness gear'"),
+    platforms: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Where the campaign runs, e.g. ['instagram', 'youtube'] or merchants like ['amazon']",
+      ),
+    startDate: dateSchema
+      .optional()
+      .describe("First day of the campaign, YYYY-MM-DD"),
+    endDate: dateSchema
+      .optional()
+      .describe("Last day of the campaign, YYYY-MM-DD"),
+    budget: z
+      .number()
+      .nonnegative()
+      .optional()
+      .describe("Budget or planned ad spend for the whole campaign"),
+    revenueGoal: z
+      .number()
+      .positive()
+      .optional()
+      .describe("Commission revenue the campaign should earn"),
+    roasFloor: z
+      .number()
+      .positive()
+      .optional()
+      .describe(
+        "Alert when the campaign's ROAS (revenue per unit of ad spend) over the last week falls below this, e.g. 1.5",
+      ),
+    currency: currencyCodeSchema
+      .optional()
+      .describe(
+        "ISO currency code of the budget and goal; defaults to the user's reporting currency",
+      ),
+    status: z
+      .enum(["draft", "active", "paused"])
+      .optional()
+      .describe(
+        "Status for a new campaign (default draft), or to activate / pause one",
+      ),
+    products: z
+      .array(z.string())
+      .optional()
+      .describe("Product names to add to the campaign"),
+  }),
+  outputSchema: z.object({
+    campaigns: z.array(
+      z.object({
+        name: z.string(),
+        status: z.string(),
+        niche: z.string().optional(),
+        platforms: z.array(z.string()),
+        start_date: z.string().optional(),
+        end_date: z.string().optional(),
+        budget: z.string().optional(),
+        budget_money: moneySchema.optional(),
+        revenue_goal: z.string().optional(),
+        revenue_goal_money: moneySchema.optional(),
+        roas_floor: z.number().optional(),
+        performance: z
+          .object({
+            clicks: z.number(),
+            conversions: z.number(),
+            revenue: z.string(),
+            revenue_money: moneySchema,
+            spend: z.string(),
+            spend_money: moneySchema,
+            profit: z.string(),
+            roi_percent: z.number().optional(),
+            roas: z.number().optional(),
+            epc: z.string().optional(),
+            cpa: z.string().optional(),
+            break_even_cpc: z.string().optional(),
+            budget_used_percent: z.number().optional(),
+            goal_attainment_percent: z.number().optional(),
+            elapsed_percent: z.number().optional(),
+            on_track: z.boolean().optional(),
+          })
+          .optional(),
+      }),
+    ),
+    products: z.array(z.string()).optional(),
+    links: z
+      .array(
+        z.object({
+          short_link: z.string(),
+          product_name: z.string(),
+          status: z.string(),
+        }),
+      )
+      .optional(),
+    content: z
+      .array(
+        z.object({
+          type: z.string(),
+          product: z.string(),
+          created_date: z.string(),
+          preview: z.string(),
+        }),
+      )
+      .optional(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: {
+      action,
+      name,
+      newName,
+      niche,
+      platforms,
+      startDate,
+      endDate,
+      budget,
+      revenueGoal,
+      roasFloor,
+      currency,
+      status,
+      products,
+    },
+    resourceId,
+    mastra,
+  }) => {
+    const logger = mastra?.getLogger();
+    const owner = requireUserId(resourceId);
+    await meterToolCall(owner, "campaign-tool");
+    logger?.info("🔧 [Campaign] Starting campaign management with params:", {
+      action,
+      name,
+      newName,
+      status,
+    });
+
+    if (action === "list") {
+      await ensureFxRatesLoaded();
+      const campaigns = await listCampaigns(owner);
+      const rollups = await Promise.all(
+        campaigns.map((campaign) =>
+          campaign.status === "draft" ? undefined : rollupCampaign(campaign),
+        ),
+      );
+      return {
+        campaigns: campaigns.map((campaign, index) =>
+          toCampaignOutput(campaign, rollups[index]),
+        ),
+        message:
+          campaigns.length > 0
+            ? `You have ${campaigns.length} campaign${campaigns.length === 1 ? "" : "s"}.`
+            : "No campaigns yet. Create one with a name, and optionally a date range, budget and revenue goal.",
+      };
+    }
+
+    if (!name?.trim()) {
+      throw new ToolInputError(
+        `A campaign name is required to ${action} a campaign`,
+      );
+    }
+
+    if (action === "create") {
+      if (await findCampaign(owner, name.trim())) {
+        throw new ToolInputError(
+          `You already have a campaign called "${name.trim()}"`,
+        );
+      }
+      checkDates(startDate, endDate);
+      const campaign = await createCampaign({
+        resourceId: owner,
+        name: name.trim(),
+        niche,
+        platforms: platforms?.map((platform) => platform.trim().toLowerCase()),
+        startsOn: startDate,
+        endsOn: endDate,
+        currency: currency ?? (await getPreferences(owner)).reportingCurrency,
+        budget,
+        revenueGoal,
+        roasFloor,
+        status: status ?? "draft",
+      });
+      for (const product of products ?? []) {
+        await addCampaignProduct(campaign.id, product.trim());
+      }
+      logger?.info("✅ [Campaign] Campaign created", {
+        id: campaign.id,
+        status: campaign.status,
+      });
+      return {
+        campaigns: [toCampaignOutput(campaign)],
+        products,
+        message: `Created the ${campaign.name} campaign (${campaign.status}). Links and content created with this campaign name are tracked under it.`,
+      };
+    }
+
+    const campaign = await findCampaign(owner, name.trim());
+    if (!campaign) {
+      throw new ToolInputError(`No campaign called "${name.trim()}"`);
+    }
+
+    if (action === "update") {
+      checkStatusChange(campaign, status);
+      if (
+        newName?.trim() &&
+        newName.trim().toLowerCase() !== campaign.name.toLowerCase() &&
+        (await findCampaign(owner, newName.trim()))
+      ) {
+        throw new ToolInputError(
+          `You already have a campaign called "${newName.trim()}"`,
+        );
+      }
+      checkDates(startDate ?? campaign.startsOn, endDate ?? campaign.endsOn);
+      const updated = await updateCampaign(owner, campaign.name, {
+        name: newName?.trim() || undefined,
+        niche,
+        platforms: platforms?.map((platform) => platform.trim().toLowerCase()),
+        startsOn: startDate,
+        endsOn: endDate,
+        currency,
+        budget,
+        revenueGoal,
+        roasFloor,
+        status,
+      });
+      for (const product of products ?? []) {
+        await addCampaignProduct(campaign.id, product.trim());
+      }
+      logger?.info("✅ [Campaign] Campaign updated", { id: campaign.id });
+      return {
+        campaigns: [toCampaignOutput(updated ?? campaign)],
+        message: `Updated the ${(updated ?? campaign).name} campaign.`,
+      };
+    }
+
+    await ensureFxRatesLoaded();
+
+    if (action === "close") {
+      if (campaign.status === "ended") {
+        throw new ToolInputError(
+          `The ${campaign.name} campaign has already ended`,
+        );
+      }
+      const closed =
+        (await updateCampaign(owner, campaign.name, { status: "ended" })) ??
+        campaign;
+      const rollup = await rollupCampaign(closed);
+      logger?.info("✅ [Campaign] Campaign closed", {
+        id: campaign.id,
+        goalAttainmentPercent: rollup.goalAttainmentPercent,
+      });
+      return {
+        campaigns: [toCampaignOutput(closed, rollup)],
+        message: `Closed the ${closed.name} campaign. Final result: ${describeRollup(rollup)}`,
+      };
+    }
+
+    const [rollup, campaignProducts, links, content] = await Promise.all([
+      rollupCampaign(campaign),
+      listCampaignProducts(campaign.id),
+      listLinks(owner, { campaignName: campaign.name }),
+      listCampaignContent(campaign.id, 10),
+    ]);
+    logger?.info("✅ [Campaign] Campaign summarized", {
+      id: campaign.id,
+      links: links.length,
+      content: content.length,
+    });
+
+    return {
+      campaigns: [toCampaignOutput(campaign, rollup)],
+      products: [
+        ...new Set([
+          ...campaignProducts.map((product) => product.productName),
+          ...links.map((link) => link.productName),
+        ]),
+      ],
+      links: links.map((link) => ({
+        short_link: link.shortLink,
+        product_name: link.productName,
+        status: link.status,
+      })),
+      content: content.map((item) => ({
+        type: item.contentType,
+        product: item.productName,
+        created_date: item.createdAt.toISOString().split("T")[0],
+        preview:
+          item.text.length > 160 ? `${item.text.slice(0, 157)}...` : item.text,
+      })),
+      message: describeRollup(rollup),
+    };
+  },
+});
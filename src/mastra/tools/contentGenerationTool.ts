@@ -1,6 +1,10 @@
 import { createTool } from "@mastra/core/tools";
 import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
+import { ToolInputError } from "./errors";
+import { requireUserId } from "../storage/users";
+import { meterToolCall } from "../billing/entitlements";
+import { findCampaign, saveCampaignContent } from "../storage/campaigns";
 
 export const contentGenerationTool = createTool({
   id: "content-generation-tool",
@@ -13,6 +17,7 @@ export const contentGenerationTool = createTool({
     targetAudience: z.string().default("general").describe("Target audience (beginners, professionals, parents, students, etc.)"),
     keyFeatures: z.array(z.string()).optional().describe("Key product features to highlight"),
     contentLength: z.enum(["short", "medium", "long"]).default("medium").describe("Desired content length"),
+    campaignName: z.string().optional().describe("Campaign to save the content under"),
   }),
   outputSchema: z.object({
     content: z.array(z.object({
@@ -22,9 +27,15 @@ export const contentGenerationTool = createTool({
       call_to_action: z.string().optional(),
     })),
   }),
-  execute: async ({ context: { contentType, product, affiliateLink, tone, targetAudience, keyFeatures, contentLength }, mastra }) => {
+  execute: async ({ context: { contentType, product, affiliateLink, tone, targetAudience, keyFeatures, contentLength, campaignName }, resourceId, mastra }) => {
     const logger = mastra?.getLogger();
-    logger?.info('🔧 [ContentGeneration] Starting content generation with params:', { contentType, product, tone, targetAudience, contentLength });
+    const owner = requireUserId(resourceId);
+    const campaign = campaignName ? await findCampaign(owner, campaignName) : null;
+    if (campaignName && !campaign) {
+      throw new ToolInputError(`No campaign called "${campaignName}", create it first or leave the campaign out`);
+    }
+    await meterToolCall(owner, "content-generation-tool", "contentGenerationsPerDay");
+    logger?.info('🔧 [ContentGeneration] Starting content generation with params:', { contentType, product, tone, targetAudience, contentLength, campaignName });
 
     const content = [];
 
@@ -186,6 +197,13 @@ Ready to make your choice? [Get ${product} here](${affiliateLink}) and experienc
       });
     }
 
+    if (campaign) {
+      for (const piece of content) {
+        await saveCampaignContent(campaign.id, { contentType: piece.type, productName: product, text: piece.text });
+      }
+      logger?.info('📝 [ContentGeneration] Saved content to campaign', { campaign: campaign.name });
+    }
+
     logger?.info('✅ [ContentGeneration] Completed successfully, returning content pieces:', content.length);
     
     return { content };
@@ -0,0 +1,4 @@
+// Raised when a tool cannot do what was asked (an unknown product, a missing
+// field, a campaign that has ended, ...). The message is written for the
+// user, so chat commands and buttons can pass it on as the reply.
+export class ToolInputError extends Error {}
@@ -1,16 +1,116 @@
 import { createTool } from "@mastra/core/tools";
 import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
+import { ToolInputError } from "./errors";
+import { requireUserId } from "../storage/users";
+import { assertCanAdd, meterToolCall } from "../billing/entitlements";
+import {
+  type AffiliateLink,
+  archiveLink,
+  createLink,
+  getLink,
+  isAliasTaken,
+  listLinks,
+  updateLink,
+} from "../storage/links";
+import { listLinkChecks } from "../storage/linkChecks";
+import { type Campaign, addCampaignProduct, findCampaign } from "../storage/campaigns";
+import { buildShortLink, generateAlias, validateAlias } from "../links/shortLinks";
+import { SUPPORTED_MERCHANTS, buildAffiliateUrl, canonicalizeProductUrl, newTrackingId } from "../links/merchantUrls";
+import { affiliateIdsFor } from "../links/affiliateIds";
+import { type Money, currencyCodeSchema, formatMoney, moneySchema } from "../currency/money";
+import { expectedEarningsPerSale, formatCommissionRange, parseCommissionRange } from "../currency/commission";
+
+async function resolveAlias(customAlias: string | undefined): Promise<string> {
+  if (customAlias) {
+    const problem = validateAlias(customAlias);
+    if (problem) {
+      throw new ToolInputError(problem);
+    }
+    if (await isAliasTaken(customAlias)) {
+      throw new ToolInputError(`The alias "${customAlias}" is already in use, please pick another one`);
+    }
+    return customAlias;
+  }
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const alias = generateAlias();
+    if (!(await isAliasTaken(alias))) {
+      return alias;
+    }
+  }
+  throw new ToolInputError("Could not generate a unique alias, please try again");
+}
+
+// Links tagged with a campaign record use its spelling of the name. Names
+// without a record stay free-form tags.
+async function resolveCampaign(resourceId: string, campaignName: string | undefined) {
+  if (!campaignName) {
+    return { campaignName, campaign: null };
+  }
+  const campaign = await findCampaign(resourceId, campaignName);
+  return { campaignName: campaign?.name ?? campaignName, campaign };
+}
+
+// Ended campaigns take no new links, created or moved in from another campaign.
+function assertCampaignOpen(campaign: Campaign | null) {
+  if (campaign?.status === "ended") {
+    throw new ToolInputError(`The ${campaign.name} campaign has ended, so no links can be added to it`);
+  }
+}
+
+// UTM parameters carried through to the merchant page for every link.
+function utmFor(campaignName: string | null | undefined) {
+  return { source: "affiliate", medium: "referral", campaign: campaignName || "general" };
+}
+
+const linkStatusSchema = z.enum(["active", "paused", "archived", "broken"]);
+
+function toLinkOutput(link: AffiliateLink) {
+  const price: Money | undefined = link.priceAmount !== null && link.priceCurrency
+    ? { amount: link.priceAmount, currency: link.priceCurrency }
+    : undefined;
+  const commission = link.commissionMinPercent !== null && link.commissionMaxPercent !== null
+    ? { minPercent: link.commissionMinPercent, maxPercent: link.commissionMaxPercent }
+    : undefined;
+
+  return {
+    affiliate_link: link.affiliateUrl,
+    short_link: link.shortLink,
+    tracking_id: link.trackingId,
+    platform: link.platform,
+    status: link.status,
+    created_date: link.createdAt.toISOString().split('T')[0],
+    product_name: link.productName,
+    campaign_name: link.campaignName ?? undefined,
+    destination_url: link.destinationUrl,
+    health_issue: link.healthIssue ?? undefined,
+    last_checked: link.healthCheckedAt?.toISOString(),
+    price: price ? formatMoney(price) : undefined,
+    price_money: price,
+    commission_estimate: commission ? formatCommissionRange(commission) : undefined,
+    commission_min_percent: commission?.minPercent,
+    commission_max_percent: commission?.maxPercent,
+    expected_earnings_per_sale: price && commission ? expectedEarningsPerSale(price, commission) : undefined,
+  };
+}
 
 export const linkManagementTool = createTool({
   id: "link-management-tool",
-  description: `Generate and manage affiliate links for products and campaigns. Creates trackable affiliate links with analytics capabilities.`,
+  description: `Generate and manage affiliate links for products and campaigns. Creates trackable affiliate links from a product page URL on ${SUPPORTED_MERCHANTS.join(", ")} (tagged with the user's affiliate account, with the tracking ID in the sub-ID) that are saved for the user, and can list, look up, update (status, campaign, destination) or archive previously created links. Links that fail the periodic health check have status "broken" with the problem in health_issue; getting a link also returns its recent health checks.`,
   inputSchema: z.object({
-    productName: z.string().describe("Name of the product or service"),
-    platform: z.string().describe("Platform/merchant (amazon, flipkart, etc.)"),
-    originalUrl: z.string().optional().describe("Original product URL if available"),
-    campaignName: z.string().optional().describe("Campaign name for tracking"),
-    customAlias: z.string().optional().describe("Custom alias for the link"),
+    action: z.enum(["create", "list", "get", "update", "archive"]).default("create").describe("What to do: create a new link, list saved links, get one link, update a link, or archive a link"),
+    productName: z.string().optional().describe("Name of the product or service (required to create a link)"),
+    platform: z.string().optional().describe("Platform/merchant (amazon, flipkart, etc.) - detected from the product URL when creating a link, optional filter when listing"),
+    originalUrl: z.string().optional().describe("Product page URL on the merchant's site (required to create a link)"),
+    campaignName: z.string().optional().describe("Campaign name for tracking, or campaign to filter by when listing"),
+    customAlias: z.string().optional().describe("Custom alias for the short link (3-32 letters, digits, '-' or '_'; must be unique)"),
+    trackingId: z.string().optional().describe("Tracking ID or alias of an existing link (required for get, update and archive)"),
+    status: linkStatusSchema.optional().describe("New status when updating, or status to filter by when listing"),
+    destinationUrl: z.string().optional().describe("New product page URL when updating a link, on the same merchant"),
+    price: z.number().positive().optional().describe("Product price, if known, to estimate earnings per sale"),
+    priceCurrency: currencyCodeSchema.default("USD").describe("ISO currency code of the price"),
+    commissionEstimate: z.string().optional().describe("Commission rate for the product, e.g. '8-12%' or '5%'"),
   }),
   outputSchema: z.object({
     links: z.array(z.object({
@@ -20,35 +120,145 @@ export const linkManagementTool = createTool({
       platform: z.string(),
       status: z.string(),
       created_date: z.string(),
+      product_name: z.string(),
+      campaign_name: z.string().optional(),
+      destination_url: z.string(),
+      health_issue: z.string().optional(),
+      last_checked: z.string().optional(),
+      price: z.string().optional(),
+      price_money: moneySchema.optional(),
+      commission_estimate: z.string().optional(),
+      commission_min_percent: z.number().optional(),
+      commission_max_percent: z.number().optional(),
+      expected_earnings_per_sale: moneySchema.optional(),
+      check_history: z.array(z.object({
+        checked_at: z.string(),
+        target: z.string(),
+        outcome: z.string(),
+        http_status: z.number().optional(),
+        detail: z.string().optional(),
+      })).optional(),
     })),
   }),
-  execute: async ({ context: { productName, platform, originalUrl, campaignName, customAlias }, mastra }) => {
+  execute: async ({ context: { action, productName, platform, originalUrl, campaignName, customAlias, trackingId, status, destinationUrl, price, priceCurrency, commissionEstimate }, resourceId, mastra }) => {
     const logger = mastra?.getLogger();
-    logger?.info('🔧 [LinkManagement] Starting link generation with params:', { productName, platform, campaignName });
+    const owner = requireUserId(resourceId);
+    await meterToolCall(owner, "link-management-tool");
+    logger?.info('🔧 [LinkManagement] Starting link management with params:', { action, productName, platform, campaignName, trackingId });
+
+    if (action === "list") {
+      const links = await listLinks(owner, { campaignName, platform, status });
+      logger?.info('✅ [LinkManagement] Links listed', { count: links.length });
+      return { links: links.map(toLinkOutput) };
+    }
+
+    const { campaignName: campaignTag, campaign } = await resolveCampaign(owner, campaignName);
+
+    if (action !== "create") {
+      if (!trackingId) {
+        throw new ToolInputError(`A trackingId (or alias) is required to ${action} a link`);
+      }
+
+      let link: AffiliateLink | null;
+      if (action === "get") {
+        link = await getLink(owner, trackingId);
+      } else if (action === "archive") {
+        link = await archiveLink(owner, trackingId);
+      } else {
+        const existing = await getLink(owner, trackingId);
+        if (!existing) {
+          throw new ToolInputError(`No link found with tracking ID or alias "${trackingId}"`);
+        }
+        if (campaign && campaign.name.toLowerCase() !== existing.campaignName?.toLowerCase()) {
+          assertCampaignOpen(campaign);
+        }
+        if (destinationUrl) {
+          const product = canonicalizeProductUrl(destinationUrl, existing.platform);
+          const linkCampaign = campaignTag === undefined ? existing.campaignName : campaignTag;
+          const affiliateUrl = buildAffiliateUrl(product, await affiliateIdsFor(owner), {
+            trackingId: existing.trackingId,
+            campaign: linkCampaign,
+            utm: utmFor(linkCampaign),
+          });
+          link = await updateLink(owner, trackingId, { status, campaignName: campaignTag, destinationUrl: product.canonicalUrl, affiliateUrl });
+        } else {
+          link = await updateLink(owner, trackingId, { status, campaignName: campaignTag });
+        }
+      }
+
+      if (!link) {
+        throw new ToolInputError(`No link found with tracking ID or alias "${trackingId}"`);
+      }
+      logger?.info(`✅ [LinkManagement] Link ${action} completed`, { trackingId: link.trackingId });
+      if (action === "get") {
+        // The last three health check runs (one check per target each), which
+        // explain why a link is or was marked broken.
+        const checks = await listLinkChecks(link.id, 9);
+        return {
+          links: [{
+            ...toLinkOutput(link),
+            check_history: checks.map(check => ({
+              checked_at: check.checkedAt.toISOString(),
+              target: check.target,
+              outcome: check.outcome,
+              http_status: check.httpStatus ?? undefined,
+              detail: check.detail ?? undefined,
+            })),
+          }],
+        };
+      }
+      return { links: [toLinkOutput(link)] };
+    }
+
+    if (!productName || !originalUrl) {
+      throw new ToolInputError("productName and the product page URL (originalUrl) are required to create a link");
+    }
+
+    assertCampaignOpen(campaign);
+    await assertCanAdd(owner, "links");
 
     logger?.info('📝 [LinkManagement] Generating affiliate links...');
 
-    // Generate tracking ID
-    const trackingId = `${platform}_${productName.toLowerCase().replace(/\s+/g, '_')}_${Date.now()}`;
-    
-    // Generate affiliate link
-    const baseAffiliateLink = originalUrl || `https://${platform}.com/product/${productName.toLowerCase().replace(/\s+/g, '-')}`;
-    const affiliateLink = `https://aff.link/${trackingId}?ref=${campaignName || 'default'}&utm_source=affiliate&utm_campaign=${campaignName || 'general'}`;
-    
-    // Generate short link
-    const shortLink = `https://aff.link/${customAlias || trackingId.slice(-8)}`;
-
-    const links = [{
-      affiliate_link: affiliateLink,
-      short_link: shortLink,
-      tracking_id: trackingId,
-      platform: platform,
-      status: "active",
-      created_date: new Date().toISOString().split('T')[0],
-    }];
-
-    logger?.info('✅ [LinkManagement] Links generated successfully');
-    
-    return { links };
+    const product = canonicalizeProductUrl(originalUrl, platform);
+
+    // Generate tracking ID, sent to the network in the sub-ID
+    const linkTrackingId = newTrackingId(product.merchant, productName);
+
+    const affiliateLink = buildAffiliateUrl(product, await affiliateIdsFor(owner), {
+      trackingId: linkTrackingId,
+      campaign: campaignTag,
+      utm: utmFor(campaignTag),
+    });
+
+    // Generate short link, served by the redirect route in src/routes/shortLinkRoutes.ts
+    const alias = await resolveAlias(customAlias);
+    const shortLink = buildShortLink(alias);
+
+    const commission = commissionEstimate ? parseCommissionRange(commissionEstimate) : null;
+
+    const link = await createLink({
+      resourceId: owner,
+      trackingId: linkTrackingId,
+      alias,
+      productName,
+      platform: product.merchant,
+      originalUrl,
+      destinationUrl: product.canonicalUrl,
+      affiliateUrl: affiliateLink,
+      shortLink,
+      campaignName: campaignTag,
+      priceAmount: price,
+      priceCurrency: price ? priceCurrency : null,
+      commissionMinPercent: commission?.minPercent,
+      commissionMaxPercent: commission?.maxPercent,
+    });
+
+    if (campaign) {
+      await addCampaignProduct(campaign.id, productName, product.canonicalUrl);
+    }
+
+    logger?.info('✅ [LinkManagement] Links generated and saved successfully', { trackingId: link.trackingId });
+
+    return { links: [toLinkOutput(link)] };
   },
-});
\ No newline at end of file
+});
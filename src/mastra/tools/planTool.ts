@@ -0,0 +1,75 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { requireUserId } from "../storage/users";
+import {
+  getEntitlement,
+  meterToolCall,
+  summarizeUsage,
+} from "../billing/entitlements";
+import { PLANS, PLAN_ORDER, QUOTA_LABELS, type Quota } from "../billing/plans";
+
+function formatLimit(limit: number | null): string {
+  return limit === null ? "unlimited" : String(limit);
+}
+
+export const planTool = createTool({
+  id: "plan-tool",
+  description: `Show the user's subscription plan (Free, Pro or Agency), how much of each limit they have used (messages and content generations today, links, tracked products, alert subscriptions), and what the other plans include.`,
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    plan: z.string(),
+    status: z.string(),
+    renews_or_ends: z.string().optional(),
+    usage: z.array(
+      z.object({
+        limit_name: z.string(),
+        used: z.number(),
+        limit: z.string(),
+      }),
+    ),
+    plans: z.array(
+      z.object({
+        name: z.string(),
+        price_per_month: z.string(),
+        limits: z.array(z.string()),
+      }),
+    ),
+    message: z.string(),
+  }),
+  execute: async ({ resourceId, mastra }) => {
+    const logger = mastra?.getLogger();
+    const owner = requireUserId(resourceId);
+    await meterToolCall(owner, "plan-tool");
+    logger?.info("🔧 [Plan] Looking up plan and usage");
+
+    const { plan, userPlan, lapsed } = await getEntitlement(owner);
+    const usage = await summarizeUsage(owner, plan);
+    const nearLimit = usage.filter(
+      (item) => item.limit !== null && item.used >= item.limit * 0.8,
+    );
+
+    return {
+      plan: plan.name,
+      status: lapsed ? "lapsed" : userPlan.status,
+      renews_or_ends: userPlan.currentPeriodEnd?.toISOString().split("T")[0],
+      usage: usage.map((item) => ({
+        limit_name: item.label,
+        used: item.used,
+        limit: formatLimit(item.limit),
+      })),
+      plans: PLAN_ORDER.map((id) => ({
+        name: PLANS[id].name,
+        price_per_month: `$${PLANS[id].priceUsdPerMonth}`,
+        limits: (Object.keys(PLANS[id].limits) as Quota[]).map(
+          (quota) =>
+            `${formatLimit(PLANS[id].limits[quota])} ${QUOTA_LABELS[quota]}`,
+        ),
+      })),
+      message: lapsed
+        ? `Your ${PLANS[userPlan.planId].name} plan has lapsed, so Free limits apply until the payment goes through.`
+        : nearLimit.length > 0
+          ? `You're close to your ${plan.name} limit for ${nearLimit.map((item) => item.label).join(", ")}.`
+          : `You're on the ${plan.name} plan.`,
+    };
+  },
+});
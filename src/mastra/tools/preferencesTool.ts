@@ -0,0 +1,73 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import { ToolInputError } from "./errors";
+import { requireUserId } from "../storage/users";
+import { meterToolCall } from "../billing/entitlements";
+import { getPreferences, setReportingCurrency } from "../storage/preferences";
+import { convertMoney, currencyCodeSchema } from "../currency/money";
+
+export const preferencesTool = createTool({
+  id: "preferences-tool",
+  description: `Read or change the user's account preferences, such as the reporting currency used for revenue, commissions and prices in analytics and product recommendations.`,
+  inputSchema: z.object({
+    action: z
+      .enum(["get", "set"])
+      .default("get")
+      .describe("Read the current preferences or change them"),
+    reportingCurrency: currencyCodeSchema
+      .optional()
+      .describe(
+        "New reporting currency as an ISO 4217 code (USD, INR, EUR, ...)",
+      ),
+  }),
+  outputSchema: z.object({
+    reporting_currency: z.string(),
+    message: z.string(),
+  }),
+  execute: async ({
+    context: { action, reportingCurrency },
+    resourceId,
+    mastra,
+  }) => {
+    const logger = mastra?.getLogger();
+    const owner = requireUserId(resourceId);
+    await meterToolCall(owner, "preferences-tool");
+    logger?.info("🔧 [Preferences] Starting preferences update with params:", {
+      action,
+      reportingCurrency,
+    });
+
+    if (action === "get") {
+      const preferences = await getPreferences(owner);
+      return {
+        reporting_currency: preferences.reportingCurrency,
+        message: `Amounts are reported in ${preferences.reportingCurrency}.`,
+      };
+    }
+
+    if (!reportingCurrency) {
+      throw new ToolInputError(
+        "reportingCurrency is required to change preferences",
+      );
+    }
+
+    // Only accept currencies we can actually convert into.
+    if (
+      !(await convertMoney({ amount: 1, currency: "USD" }, reportingCurrency))
+    ) {
+      throw new ToolInputError(
+        `No exchange rates are available for ${reportingCurrency} yet`,
+      );
+    }
+
+    const preferences = await setReportingCurrency(owner, reportingCurrency);
+    logger?.info("✅ [Preferences] Reporting currency updated", {
+      reportingCurrency,
+    });
+
+    return {
+      reporting_currency: preferences.reportingCurrency,
+      message: `Done! Revenue and prices will now be reported in ${preferences.reportingCurrency}.`,
+    };
+  },
+});
@@ -1,115 +1,152 @@
 import { createTool } from "@mastra/core/tools";
 import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
+import { requireUserId } from "../storage/users";
+import { meterToolCall } from "../billing/entitlements";
+import { getPreferences } from "../storage/preferences";
+import { convertMoney, currencyCodeSchema, formatMoney, moneySchema } from "../currency/money";
+import { expectedEarningsPerSale, formatCommissionRange } from "../currency/commission";
+import { searchCatalog } from "../products/catalog";
+import { parsePriceBand } from "../products/source";
+import { type AffiliateIds, MerchantUrlError, buildAffiliateUrl, canonicalizeProductUrl } from "../links/merchantUrls";
+import { affiliateIdsFor } from "../links/affiliateIds";
+
+// Tagged merchant URL for quick sharing; tracked short links are created with linkManagementTool.
+function taggedProductUrl(url: string | null, affiliateIds: AffiliateIds): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    return buildAffiliateUrl(canonicalizeProductUrl(url), affiliateIds);
+  } catch (error) {
+    if (error instanceof MerchantUrlError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+// Currency shoppers in a region pay in; other regions use the user's reporting currency.
+const regionCurrencies: Record<string, string> = {
+  india: "INR",
+  in: "INR",
+  us: "USD",
+  usa: "USD",
+  uk: "GBP",
+  gb: "GBP",
+  europe: "EUR",
+  eu: "EUR",
+  canada: "CAD",
+  australia: "AUD",
+  japan: "JPY",
+  singapore: "SGD",
+};
 
 export const productDiscoveryTool = createTool({
   id: "product-discovery-tool",
-  description: `Discover trending and high-converting affiliate products from major e-commerce platforms. Use this when users ask for product recommendations, want to find profitable products to promote, or need ideas for their affiliate marketing campaigns.`,
+  description: `Discover high-converting affiliate products from the configured product sources (catalog feeds per platform), searchable by category, keyword, price band and region. Use this when users ask for product recommendations, want to find profitable products to promote, or need ideas for their affiliate marketing campaigns.`,
   inputSchema: z.object({
     category: z.string().describe("Product category (e.g., electronics, fashion, home, health, books, etc.)"),
     platform: z.string().optional().describe("Specific platform to search (amazon, flipkart, aliexpress, ebay, walmart, myntra, ajio, nykaa, snapdeal, firstcry, meesho) - leave empty to search all platforms"),
-    priceRange: z.string().optional().describe("Price range preference (budget, mid-range, premium)"),
+    keyword: z.string().optional().describe("Keywords to look for in product names, brands and tags (e.g., 'wireless earbuds')"),
+    priceRange: z.string().optional().describe("Price band (budget: under $25, mid-range: $25-75, premium: $75+, in USD equivalent)"),
     region: z.string().default("global").describe("Target region for products (us, india, global, etc.)"),
+    currency: currencyCodeSchema.optional().describe("ISO currency code for prices; defaults to the region's currency or the user's reporting currency"),
+    offset: z.number().int().min(0).optional().describe("Number of top products to skip when the user asks for more results"),
   }),
   outputSchema: z.object({
     products: z.array(z.object({
       name: z.string(),
       category: z.string(),
       price: z.string(),
+      price_money: moneySchema,
       commission_estimate: z.string(),
+      commission_min_percent: z.number().optional(),
+      commission_max_percent: z.number().optional(),
+      expected_earnings_per_sale: moneySchema.optional(),
       reason_for_recommendation: z.string(),
       platform: z.string(),
-      affiliate_link: z.string(),
+      availability: z.string(),
+      product_url: z.string().optional(),
+      affiliate_link: z.string().optional(),
     })),
+    sources: z.array(z.string()).describe("Product sources that were searched"),
+    notice: z.string().optional().describe("Explains an empty result, e.g. when no source covers the category"),
   }),
-  execute: async ({ context: { category, platform, priceRange, region }, mastra }) => {
+  execute: async ({ context: { category, keyword, platform, priceRange, region, currency, offset }, resourceId, mastra }) => {
     const logger = mastra?.getLogger();
-    logger?.info('🔧 [ProductDiscovery] Starting product discovery with params:', { category, platform, priceRange, region });
+    const owner = requireUserId(resourceId);
+    await meterToolCall(owner, "product-discovery-tool");
+    logger?.info('🔧 [ProductDiscovery] Starting product discovery with params:', { category, keyword, platform, priceRange, region, currency, offset });
 
-    // Simulate product discovery from various platforms
-    // In a real implementation, this would integrate with actual APIs
-    const platforms = platform ? [platform] : [
-      'amazon', 'flipkart', 'aliexpress', 'ebay', 'walmart', 
-      'myntra', 'ajio', 'nykaa', 'snapdeal', 'firstcry', 'meesho'
-    ];
+    const targetCurrency = currency
+      ?? regionCurrencies[region.toLowerCase()]
+      ?? (await getPreferences(owner)).reportingCurrency;
 
-    const products = [];
-    const productTemplates = {
-      electronics: [
-        { name: "Wireless Bluetooth Earbuds", basePrice: 25, commission: "8-12%" },
-        { name: "Smart Fitness Tracker", basePrice: 45, commission: "6-10%" },
-        { name: "Portable Phone Charger", basePrice: 20, commission: "10-15%" },
-        { name: "LED Desk Lamp with USB", basePrice: 30, commission: "12-18%" },
-        { name: "Bluetooth Speaker", basePrice: 35, commission: "8-14%" },
-      ],
-      fashion: [
-        { name: "Trendy Casual Sneakers", basePrice: 40, commission: "5-8%" },
-        { name: "Stylish Backpack", basePrice: 25, commission: "10-15%" },
-        { name: "Summer T-Shirt Collection", basePrice: 15, commission: "15-20%" },
-        { name: "Denim Jacket", basePrice: 50, commission: "8-12%" },
-        { name: "Athletic Wear Set", basePrice: 35, commission: "12-18%" },
-      ],
-      home: [
-        { name: "Essential Oil Diffuser", basePrice: 30, commission: "15-25%" },
-        { name: "Non-Stick Cookware Set", basePrice: 60, commission: "8-12%" },
-        { name: "Cozy Throw Blanket", basePrice: 25, commission: "20-30%" },
-        { name: "Smart LED Light Bulbs", basePrice: 20, commission: "10-15%" },
-        { name: "Bamboo Kitchen Utensils", basePrice: 18, commission: "25-35%" },
-      ],
-      health: [
-        { name: "Vitamin D3 Supplements", basePrice: 15, commission: "20-30%" },
-        { name: "Yoga Mat with Carrying Strap", basePrice: 25, commission: "15-25%" },
-        { name: "Resistance Bands Set", basePrice: 12, commission: "25-40%" },
-        { name: "Protein Powder", basePrice: 35, commission: "10-15%" },
-        { name: "Meditation Cushion", basePrice: 28, commission: "20-30%" },
-      ],
-      books: [
-        { name: "Self-Help Bestseller", basePrice: 12, commission: "4-8%" },
-        { name: "Digital Marketing Guide", basePrice: 20, commission: "6-10%" },
-        { name: "Cookbook Collection", basePrice: 18, commission: "8-12%" },
-        { name: "Personal Finance Book", basePrice: 15, commission: "5-9%" },
-        { name: "Productivity Planner", basePrice: 10, commission: "15-25%" },
-      ],
+    const query = {
+      category,
+      keyword,
+      priceBand: parsePriceBand(priceRange),
+      region,
+      platforms: platform ? [platform.toLowerCase()] : undefined,
+      offset,
     };
+    const result = await searchCatalog(query, logger);
 
-    const categoryKey = category.toLowerCase() as keyof typeof productTemplates;
-    const categoryProducts = productTemplates[categoryKey] || productTemplates.electronics;
-    
-    logger?.info('📝 [ProductDiscovery] Processing products for category:', category);
+    if (!result.covered) {
+      const where = platform ? ` on ${platform}` : "";
+      logger?.info('📝 [ProductDiscovery] No product source covers category', { category, platform });
+      return {
+        products: [],
+        sources: [],
+        notice: `No product source covers the "${category}" category${where} yet.`
+          + (result.availableCategories.length > 0
+            ? ` Available categories: ${result.availableCategories.slice(0, 20).join(", ")}.`
+            : " No product sources are configured."),
+      };
+    }
 
-    // Generate 3-5 products from selected platforms
-    const selectedProducts = categoryProducts.slice(0, Math.min(5, Math.max(3, categoryProducts.length)));
-    
-    for (let i = 0; i < selectedProducts.length; i++) {
-      const template = selectedProducts[i];
-      const selectedPlatform = platforms[i % platforms.length];
-      
-      // Adjust pricing based on region and platform
-      let price = template.basePrice;
-      if (region === 'india') {
-        price = Math.round(price * 75); // Convert to INR approximate
+    logger?.info('📝 [ProductDiscovery] Processing products for category:', { category, sources: result.sources, found: result.products.length });
+
+    const affiliateIds = await affiliateIdsFor(owner);
+    const products = [];
+    for (const item of result.products) {
+      const priceMoney = (await convertMoney(item.price, targetCurrency)) ?? item.price;
+      const earnings = item.commission ? expectedEarningsPerSale(priceMoney, item.commission) : undefined;
+
+      const reasons = [`Ranked by ${item.sourceId} for ${item.category} on ${item.platform}`];
+      if (earnings) {
+        reasons.push(`earns about ${formatMoney(earnings)} per sale`);
       }
-      if (priceRange === 'budget') {
-        price = Math.round(price * 0.7);
-      } else if (priceRange === 'premium') {
-        price = Math.round(price * 1.5);
+      if (item.availability === "out_of_stock") {
+        reasons.push("currently out of stock");
       }
 
-      const product = {
-        name: template.name,
-        category: category,
-        price: region === 'india' ? `₹${price}` : `$${price}`,
-        commission_estimate: template.commission,
-        reason_for_recommendation: `High conversion rate on ${selectedPlatform}, trending in ${category} category with good profit margins`,
-        platform: selectedPlatform,
-        affiliate_link: `https://aff.link/${selectedPlatform}_${template.name.toLowerCase().replace(/\s+/g, '_')}_${Date.now()}`,
-      };
-
-      products.push(product);
+      products.push({
+        name: item.name,
+        category: item.category,
+        price: formatMoney(priceMoney),
+        price_money: priceMoney,
+        commission_estimate: item.commission ? formatCommissionRange(item.commission) : "Not published",
+        commission_min_percent: item.commission?.minPercent,
+        commission_max_percent: item.commission?.maxPercent,
+        expected_earnings_per_sale: earnings,
+        reason_for_recommendation: reasons.join(", "),
+        platform: item.platform,
+        availability: item.availability,
+        product_url: item.url ?? undefined,
+        affiliate_link: taggedProductUrl(item.url, affiliateIds),
+      });
     }
 
+    const notice = products.length === 0
+      ? offset
+        ? `No more ${category} products to show; those were all the matches.`
+        : `No ${category} products matched${keyword ? ` "${keyword}"` : ""}${query.priceBand ? ` in the ${query.priceBand} band` : ""} for region ${region}.`
+      : undefined;
+
     logger?.info('✅ [ProductDiscovery] Completed successfully, returning products:', products.length);
     
-    return { products };
+    return { products, sources: result.sources, notice };
   },
 });
\ No newline at end of file
@@ -1,17 +1,53 @@
 import { createWorkflow, createStep } from "../inngest";
 import { z } from "zod";
 import { affiliateOSAgent } from "../agents/affiliateOSAgent";
+import { moneySchema } from "../currency/money";
+import { sendTelegramReply } from "../telegram/api";
+import {
+  productKeyboard,
+  recommendedProducts,
+} from "../telegram/productActions";
 
-// Step 1: Use Agent - ONLY call agent.generate(), NO other logic
+// Products the agent recommended, passed on so the reply can offer buttons
+// for them.
+const recommendationsSchema = z.object({
+  products: z.array(z.object({
+    name: z.string(),
+    platform: z.string(),
+    category: z.string(),
+    url: z.string().optional(),
+    price: moneySchema.optional(),
+    commission: z.string().optional(),
+  })),
+  search: z.object({
+    category: z.string(),
+    keyword: z.string().optional(),
+    platform: z.string().optional(),
+    priceRange: z.string().optional(),
+    region: z.string().optional(),
+    currency: z.string().optional(),
+    offset: z.number(),
+    count: z.number(),
+  }),
+});
+
+// Step 1: Use Agent - call agent.generate() and note the products it recommended
 const useAgentStep = createStep({
   id: "use-agent",
   description: "Process user message through AffiliateOS agent",
   inputSchema: z.object({
     message: z.string().describe("User message from Telegram"),
     threadId: z.string().describe("Thread ID for conversation continuity"),
+    resourceId: z.string().describe("Internal user the conversation belongs to"),
+    chatId: z.string().describe("Telegram chat ID"),
+    messageId: z.string().optional().describe("Original message ID for replies"),
   }),
   outputSchema: z.object({
     response: z.string().describe("Agent response text"),
+    resourceId: z.string().describe("Internal user the conversation belongs to"),
+    chatId: z.string().describe("Telegram chat ID"),
+    messageId: z.string().optional().describe("Original message ID for replies"),
+    recommendations: recommendationsSchema.optional().describe("Products recommended in the response"),
   }),
 
   execute: async ({ inputData, mastra }) => {
@@ -19,10 +55,10 @@ const useAgentStep = createStep({
     logger?.info("🤖 [Telegram Workflow - Step 1] Processing user message through agent");
     
     // ONLY call the agent - NO other tools or logic
-    const { text } = await affiliateOSAgent.generate([
+    const { text, steps } = await affiliateOSAgent.generate([
       { role: "user", content: inputData.message }
     ], {
-      resourceId: "bot",
+      resourceId: inputData.resourceId,
       threadId: inputData.threadId,
       maxSteps: 5, // Allow multi-step tool usage
     });
@@ -31,18 +67,26 @@ const useAgentStep = createStep({
       responseLength: text.length 
     });
 
-    return { response: text };
+    return {
+      response: text,
+      resourceId: inputData.resourceId,
+      chatId: inputData.chatId,
+      messageId: inputData.messageId,
+      recommendations: recommendedProducts(steps),
+    };
   }
 });
 
-// Step 2: Send Reply - ONLY send message to Telegram, NO other logic
+// Step 2: Send Reply - send the message to Telegram, with product buttons
 const sendReplyStep = createStep({
   id: "send-reply",
   description: "Send agent response back to Telegram",
   inputSchema: z.object({
     response: z.string().describe("Agent response to send"),
+    resourceId: z.string().describe("Internal user the conversation belongs to"),
     chatId: z.string().describe("Telegram chat ID"),
     messageId: z.string().optional().describe("Original message ID for replies"),
+    recommendations: recommendationsSchema.optional().describe("Products recommended in the response"),
   }),
   outputSchema: z.object({
     sent: z.boolean().describe("Whether message was sent successfully"),
@@ -53,28 +97,30 @@ const sendReplyStep = createStep({
     logger?.info("📱 [Telegram Workflow - Step 2] Sending response to Telegram");
 
     try {
-      // Send message via Telegram HTTP API
-      const telegramResponse = await fetch(
-        `https://api.telegram.org/bot${process.env.TELEGRAM_BOT_TOKEN}/sendMessage`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            chat_id: inputData.chatId,
-            text: inputData.response,
-            reply_to_message_id: inputData.messageId ? parseInt(inputData.messageId) : undefined,
-            parse_mode: "Markdown",
-          }),
-        }
-      );
+      // Recommended products get buttons to create a link, write a post or
+      // watch the price without typing a follow-up
+      const { recommendations } = inputData;
+      const replyMarkup = recommendations
+        ? await productKeyboard(
+            inputData.resourceId,
+            Number(inputData.chatId),
+            recommendations.products,
+            recommendations.search,
+          ).catch((error) => {
+            // The answer still goes out, just without buttons
+            logger?.warn("⚠️ [Telegram Workflow - Step 2] Could not add product buttons", {
+              error: error instanceof Error ? error.message : String(error),
+            });
+            return undefined;
+          })
+        : undefined;
 
-      if (!telegramResponse.ok) {
-        const error = await telegramResponse.text();
-        logger?.error("❌ [Telegram Workflow - Step 2] Failed to send message", { error });
-        return { sent: false };
-      }
+      // Markdown is rendered for Telegram and long answers are split over
+      // several messages
+      await sendTelegramReply(inputData.chatId, inputData.response, {
+        replyTo: inputData.messageId ? parseInt(inputData.messageId) : undefined,
+        replyMarkup,
+      });
 
       logger?.info("✅ [Telegram Workflow - Step 2] Message sent successfully");
       return { sent: true };
@@ -95,6 +141,7 @@ export const telegramChatbotWorkflow = createWorkflow({
   inputSchema: z.object({
     message: z.string().describe("User message from Telegram"),
     threadId: z.string().describe("Thread ID for conversation continuity"),
+    resourceId: z.string().describe("Internal user the conversation belongs to"),
     chatId: z.string().describe("Telegram chat ID"),
     messageId: z.string().optional().describe("Original message ID for replies"),
   }),
@@ -0,0 +1,129 @@
+import { registerApiRoute } from "../mastra/inngest";
+
+import {
+  CREDENTIALS_FORM_PATH,
+  readCredentialsFormToken,
+} from "../mastra/security/credentialsForm";
+import { VaultKeyError } from "../mastra/security/vault";
+import {
+  listAffiliateAccounts,
+  saveAffiliateAccount,
+} from "../mastra/storage/affiliateAccounts";
+import { escapeHtml } from "../mastra/telegram/format";
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <meta name="robots" content="noindex">
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="font-family: sans-serif; max-width: 28rem; margin: 2rem auto; padding: 0 1rem">
+    <h1 style="font-size: 1.25rem">${escapeHtml(title)}</h1>
+    ${body}
+  </body>
+</html>`;
+}
+
+const EXPIRED = page(
+  "This link has expired",
+  "<p>Ask the bot for a new link to enter your API credentials.</p>",
+);
+
+export function registerAccountRoutes() {
+  return [
+    // GET /accounts/credentials?token=<signed token from affiliateAccountTool>
+    // A form for an affiliate account's API key and secret.
+    registerApiRoute(CREDENTIALS_FORM_PATH, {
+      method: "GET",
+      handler: async (c) => {
+        const token = c.req.query("token");
+        const target = readCredentialsFormToken(token);
+        if (!target) {
+          return c.html(EXPIRED, 403);
+        }
+        return c.html(
+          page(
+            `API credentials for ${target.network} ${target.accountId}`,
+            `<p>They are stored encrypted and only ever shown masked.</p>
+    <form method="post" autocomplete="off">
+      <input type="hidden" name="token" value="${escapeHtml(token!)}">
+      <p><label>API key<br><input type="password" name="apiKey" required style="width: 100%"></label></p>
+      <p><label>API secret (if the network has one)<br><input type="password" name="apiSecret" style="width: 100%"></label></p>
+      <p><button type="submit">Save</button></p>
+    </form>`,
+          ),
+        );
+      },
+    }),
+    // POST /accounts/credentials
+    // Form fields: token, apiKey, apiSecret (optional).
+    registerApiRoute(CREDENTIALS_FORM_PATH, {
+      method: "POST",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra?.getLogger();
+
+        const form = await c.req.parseBody();
+        const field = (name: string) =>
+          typeof form[name] === "string" ? form[name].trim() : "";
+        const target = readCredentialsFormToken(field("token"));
+        if (!target) {
+          return c.html(EXPIRED, 403);
+        }
+        const apiKey = field("apiKey");
+        if (!apiKey) {
+          return c.html(
+            page("No API key entered", "<p>Go back and enter the API key.</p>"),
+            400,
+          );
+        }
+
+        const accounts = await listAffiliateAccounts(
+          target.resourceId,
+          target.network,
+        );
+        if (
+          !accounts.some((account) => account.accountId === target.accountId)
+        ) {
+          return c.html(
+            page(
+              "Account not found",
+              "<p>The account was removed after this link was created.</p>",
+            ),
+            404,
+          );
+        }
+
+        try {
+          await saveAffiliateAccount(target.resourceId, {
+            network: target.network,
+            accountId: target.accountId,
+            apiKey,
+            apiSecret: field("apiSecret") || null,
+          });
+        } catch (error) {
+          if (error instanceof VaultKeyError) {
+            return c.html(
+              page("Not available", `<p>${escapeHtml(error.message)}</p>`),
+              503,
+            );
+          }
+          throw error;
+        }
+        logger?.info("🔐 [Accounts] API credentials saved", {
+          network: target.network,
+          accountId: target.accountId,
+        });
+        return c.html(
+          page(
+            "Saved",
+            "<p>Your API credentials are stored. You can close this page and go back to the chat.</p>",
+          ),
+        );
+      },
+    }),
+  ];
+}
@@ -0,0 +1,53 @@
+import { registerApiRoute } from "../mastra/inngest";
+
+import {
+  FxRateFormatError,
+  parseFxRates,
+} from "../mastra/currency/fxRateLoader";
+import { upsertFxRates } from "../mastra/storage/fxRates";
+import { bearerToken, tokensMatch } from "../mastra/security/tokens";
+
+if (!process.env.ADMIN_API_TOKEN) {
+  console.warn("ADMIN_API_TOKEN is not set, admin routes are disabled.");
+}
+
+// Whether a request carries the admin bearer token; always false when no
+// token is configured.
+export function isAdminRequest(authorization: string | undefined): boolean {
+  const expected = process.env.ADMIN_API_TOKEN;
+  return !!expected && tokensMatch(bearerToken(authorization), expected);
+}
+
+export function registerAdminRoutes() {
+  return [
+    // POST /admin/fx-rates
+    // Body: { base?, date, rates: { INR: 83.1, ... } }, an array of those,
+    // or a CSV with date, currency and rate (units per USD) columns.
+    registerApiRoute("/admin/fx-rates", {
+      method: "POST",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra?.getLogger();
+
+        if (!isAdminRequest(c.req.header("authorization"))) {
+          return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        try {
+          const rates = parseFxRates(await c.req.text(), "admin");
+          const count = await upsertFxRates(rates);
+          logger?.info("💱 [Admin] FX rates loaded", { count });
+          return c.json({ ok: true, count });
+        } catch (error) {
+          if (
+            error instanceof FxRateFormatError ||
+            error instanceof SyntaxError
+          ) {
+            return c.json({ error: error.message }, 400);
+          }
+          throw error;
+        }
+      },
+    }),
+  ];
+}
@@ -0,0 +1,234 @@
+import { registerApiRoute } from "../mastra/inngest";
+
+import {
+  AdSpendImportError,
+  importAdSpend,
+  importAdSpendCsv,
+} from "../mastra/imports/adSpendImport";
+import {
+  ReportImportError,
+  importEarningsReport,
+} from "../mastra/imports/earningsImport";
+import {
+  MerchantFeedError,
+  ingestMerchantFeed,
+  ingestMerchantFeedFile,
+} from "../mastra/imports/merchantFeed";
+import type { AdSpendInput } from "../mastra/storage/adSpend";
+import { getPreferences } from "../mastra/storage/preferences";
+import { findUser } from "../mastra/storage/users";
+
+if (!process.env.IMPORT_API_TOKEN) {
+  console.warn(
+    "IMPORT_API_TOKEN is not set, the earnings report, ad spend and product feed import routes are disabled.",
+  );
+}
+
+function isAuthorized(authorization: string | undefined): boolean {
+  const expected = process.env.IMPORT_API_TOKEN;
+  return !!expected && authorization === `Bearer ${expected}`;
+}
+
+// The upload itself, or the "file" field of a multipart form.
+async function readUpload(req: {
+  header(name: string): string | undefined;
+  parseBody(): Promise<Record<string, unknown>>;
+  text(): Promise<string>;
+}): Promise<string | null> {
+  if ((req.header("content-type") ?? "").includes("multipart/form-data")) {
+    const form = await req.parseBody();
+    const file = form["file"];
+    return file instanceof File ? file.text() : null;
+  }
+  return req.text();
+}
+
+// Entries of a JSON spend upload; missing fields are left for validation
+// to report.
+function toAdSpendInputs(
+  body: unknown,
+  defaultCurrency: string,
+): AdSpendInput[] | null {
+  const entries = (body as { entries?: unknown } | null)?.entries;
+  if (!Array.isArray(entries)) {
+    return null;
+  }
+  return entries.map((entry) => ({
+    campaignName: String(entry?.campaign ?? entry?.campaignName ?? ""),
+    channel: String(entry?.channel ?? "").toLowerCase(),
+    spendDate: String(entry?.date ?? ""),
+    amount: typeof entry?.amount === "number" ? entry.amount : Number.NaN,
+    currency: String(entry?.currency ?? defaultCurrency).toUpperCase(),
+  }));
+}
+
+export function registerImportRoutes() {
+  return [
+    // POST /imports/earnings?resourceId=<user>&network=<optional network id>
+    // Body: the CSV itself, or multipart form data with a "file" field.
+    registerApiRoute("/imports/earnings", {
+      method: "POST",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra?.getLogger();
+
+        if (!isAuthorized(c.req.header("authorization"))) {
+          return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        const resourceId = c.req.query("resourceId");
+        if (!resourceId) {
+          return c.json({ error: "resourceId is required" }, 400);
+        }
+        if (!(await findUser(resourceId))) {
+          return c.json({ error: "Unknown user" }, 404);
+        }
+
+        const csv = await readUpload(c.req);
+        if (csv === null) {
+          return c.json({ error: "Expected a 'file' field" }, 400);
+        }
+        if (!csv.trim()) {
+          return c.json({ error: "The report is empty" }, 400);
+        }
+
+        try {
+          const result = await importEarningsReport({
+            resourceId,
+            csv,
+            network: c.req.query("network"),
+            logger,
+          });
+          return c.json(result);
+        } catch (error) {
+          if (error instanceof ReportImportError) {
+            return c.json({ error: error.message }, 422);
+          }
+          throw error;
+        }
+      },
+    }),
+
+    // POST /imports/ad-spend?resourceId=<user>&channel=<optional default channel>
+    // Body: JSON {"entries": [{"campaign", "channel", "date": "YYYY-MM-DD",
+    // "amount", "currency"}]} from an ads API sync, or an ads manager CSV
+    // export (raw or multipart "file"). Re-sending a day replaces its spend.
+    registerApiRoute("/imports/ad-spend", {
+      method: "POST",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra?.getLogger();
+
+        if (!isAuthorized(c.req.header("authorization"))) {
+          return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        const resourceId = c.req.query("resourceId");
+        if (!resourceId) {
+          return c.json({ error: "resourceId is required" }, 400);
+        }
+        if (!(await findUser(resourceId))) {
+          return c.json({ error: "Unknown user" }, 404);
+        }
+        const { reportingCurrency } = await getPreferences(resourceId);
+
+        try {
+          if (
+            (c.req.header("content-type") ?? "").includes("application/json")
+          ) {
+            let body: unknown;
+            try {
+              body = await c.req.json();
+            } catch {
+              return c.json({ error: "The body is not valid JSON" }, 400);
+            }
+            const entries = toAdSpendInputs(body, reportingCurrency);
+            if (!entries) {
+              return c.json({ error: "Expected an 'entries' array" }, 400);
+            }
+            return c.json(
+              await importAdSpend({
+                resourceId,
+                entries,
+                source: "api",
+                logger,
+              }),
+            );
+          }
+
+          const csv = await readUpload(c.req);
+          if (csv === null) {
+            return c.json({ error: "Expected a 'file' field" }, 400);
+          }
+          if (!csv.trim()) {
+            return c.json({ error: "The report is empty" }, 400);
+          }
+          return c.json(
+            await importAdSpendCsv({
+              resourceId,
+              csv,
+              defaultCurrency: reportingCurrency,
+              defaultChannel: c.req.query("channel")?.toLowerCase(),
+              logger,
+            }),
+          );
+        } catch (error) {
+          if (error instanceof AdSpendImportError) {
+            return c.json({ error: error.message }, 422);
+          }
+          throw error;
+        }
+      },
+    }),
+
+    // POST /imports/product-feed?merchant=<id>&platform=&commission=8-12%&currency=USD
+    // Body: a Google Shopping XML or CSV feed (raw or multipart "file"), or
+    // ?file=<name> to ingest a feed already placed in MERCHANT_FEED_DIR.
+    registerApiRoute("/imports/product-feed", {
+      method: "POST",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra?.getLogger();
+
+        if (!isAuthorized(c.req.header("authorization"))) {
+          return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        const merchant = c.req.query("merchant");
+        if (!merchant) {
+          return c.json({ error: "merchant is required" }, 400);
+        }
+        const params = {
+          merchant,
+          platform: c.req.query("platform"),
+          commission: c.req.query("commission"),
+          defaultCurrency: c.req.query("currency")?.toUpperCase(),
+          logger,
+        };
+
+        try {
+          const fileName = c.req.query("file");
+          if (fileName) {
+            return c.json(await ingestMerchantFeedFile(fileName, params));
+          }
+
+          const content = await readUpload(c.req);
+          if (content === null) {
+            return c.json({ error: "Expected a 'file' field" }, 400);
+          }
+          if (!content.trim()) {
+            return c.json({ error: "The feed is empty" }, 400);
+          }
+          return c.json(
+            await ingestMerchantFeed({ ...params, content, source: "upload" }),
+          );
+        } catch (error) {
+          if (error instanceof MerchantFeedError) {
+            return c.json({ error: error.message }, 422);
+          }
+          throw error;
+        }
+      },
+    }),
+  ];
+}
@@ -0,0 +1,118 @@
+import type { Context } from "hono";
+
+import { registerApiRoute } from "../mastra/inngest";
+import {
+  PaymentWebhookError,
+  type PaymentProvider,
+  type SubscriptionEvent,
+  parseRazorpayEvent,
+  parseStripeEvent,
+  verifyRazorpaySignature,
+  verifyStripeSignature,
+} from "../mastra/billing/paymentWebhooks";
+import { applyPaymentEvent } from "../mastra/storage/payments";
+import { findUser } from "../mastra/storage/users";
+
+for (const name of ["STRIPE_WEBHOOK_SECRET", "RAZORPAY_WEBHOOK_SECRET"]) {
+  if (!process.env[name]) {
+    console.warn(
+      `${name} is not set, its payment webhooks will be rejected until it is configured.`,
+    );
+  }
+}
+
+interface PaymentWebhook {
+  provider: PaymentProvider;
+  secretEnv: string;
+  verify(rawBody: string, c: Context, secret: string): boolean;
+  parse(rawBody: string, c: Context): SubscriptionEvent | null;
+}
+
+// Both providers retry until they get a 2xx, and the routes are registered
+// through Inngest, which retries 5xx responses as well. Anything that will
+// never succeed (bad signature, malformed body, unknown user) therefore
+// answers with a 4xx or an acknowledging 200.
+function paymentWebhookRoute(path: string, webhook: PaymentWebhook) {
+  return registerApiRoute(path, {
+    method: "POST",
+    handler: async (c) => {
+      const mastra = c.get("mastra");
+      const logger = mastra?.getLogger();
+
+      const secret = process.env[webhook.secretEnv];
+      const rawBody = await c.req.text();
+      if (!secret || !webhook.verify(rawBody, c, secret)) {
+        logger?.warn("💳 [Payments] Rejected webhook with invalid signature", {
+          provider: webhook.provider,
+        });
+        return c.json({ error: "Invalid signature" }, 401);
+      }
+
+      let event: SubscriptionEvent | null;
+      try {
+        event = webhook.parse(rawBody, c);
+      } catch (error) {
+        if (error instanceof PaymentWebhookError) {
+          return c.json({ error: error.message }, 400);
+        }
+        throw error;
+      }
+      if (!event) {
+        return c.json({ ignored: "Not a subscription event for a plan" });
+      }
+
+      if (!(await findUser(event.resourceId))) {
+        logger?.warn("💳 [Payments] Webhook for an unknown user", {
+          provider: event.provider,
+          eventId: event.eventId,
+          resourceId: event.resourceId,
+        });
+        return c.json({ ignored: "Unknown user" });
+      }
+
+      const outcome = await applyPaymentEvent(event);
+      logger?.info("💳 [Payments] Subscription event processed", {
+        provider: event.provider,
+        eventId: event.eventId,
+        type: event.type,
+        resourceId: event.resourceId,
+        planId: event.planId,
+        outcome,
+      });
+      return c.json({ received: true, outcome });
+    },
+  });
+}
+
+export function registerPaymentRoutes() {
+  return [
+    // POST /webhooks/payments/stripe, configured as a Stripe webhook endpoint
+    // for customer.subscription.* and invoice.paid / invoice.payment_failed.
+    paymentWebhookRoute("/webhooks/payments/stripe", {
+      provider: "stripe",
+      secretEnv: "STRIPE_WEBHOOK_SECRET",
+      verify: (rawBody, c, secret) =>
+        verifyStripeSignature(
+          rawBody,
+          c.req.header("stripe-signature"),
+          secret,
+        ),
+      parse: (rawBody) => parseStripeEvent(rawBody),
+    }),
+
+    // POST /webhooks/payments/razorpay, configured as a Razorpay webhook for
+    // the subscription.* events.
+    paymentWebhookRoute("/webhooks/payments/razorpay", {
+      provider: "razorpay",
+      secretEnv: "RAZORPAY_WEBHOOK_SECRET",
+      verify: (rawBody, c, secret) =>
+        verifyRazorpaySignature(
+          rawBody,
+          c.req.header("x-razorpay-signature"),
+          secret,
+        ),
+      parse: (rawBody, c) =>
+        parseRazorpayEvent(rawBody, c.req.header("x-razorpay-event-id")),
+    }),
+  ];
+}
@@ -0,0 +1,201 @@
+import { createHmac } from "node:crypto";
+import { registerApiRoute } from "../mastra/inngest";
+import type { Context } from "hono";
+
+import {
+  normalizeConversionStatus,
+  upsertConversion,
+} from "../mastra/storage/conversions";
+import { findLinkByTrackingId } from "../mastra/storage/links";
+import { tokensMatch } from "../mastra/security/tokens";
+
+if (!process.env.POSTBACK_SECRET) {
+  console.warn(
+    "POSTBACK_SECRET is not set, conversion postbacks will be rejected until it is configured.",
+  );
+}
+
+const NETWORK_PATTERN = /^[a-z0-9_-]{2,32}$/;
+
+function hmac(value: string, key = process.env.POSTBACK_SECRET ?? ""): string {
+  return createHmac("sha256", key).update(value).digest("hex");
+}
+
+// Each network gets its own token and signing key, both derived from
+// POSTBACK_SECRET, so one network cannot post as another. The URL handed to a
+// network looks like:
+//   /postback/<network>?token=<token>&order_id={order}&tracking_id={subid}
+//     &amount={sale}&currency={currency}&commission={payout}&status={status}
+// scripts/postback-url.sh prints both for a network; it derives them the same
+// way as the two functions below.
+function postbackToken(network: string): string {
+  return hmac(`postback:${network}`).slice(0, 32);
+}
+
+function postbackSigningKey(network: string): string {
+  return hmac(`postback-signing:${network}`);
+}
+
+function isAuthorized(
+  network: string,
+  token: string | undefined,
+  signature: string | undefined,
+  rawBody: string,
+): boolean {
+  if (!process.env.POSTBACK_SECRET) {
+    return false;
+  }
+  if (tokensMatch(token, postbackToken(network))) {
+    return true;
+  }
+  // Networks that sign their requests send an HMAC of the raw body, keyed
+  // with their signing key, instead.
+  return (
+    !!rawBody &&
+    tokensMatch(signature, hmac(rawBody, postbackSigningKey(network)))
+  );
+}
+
+async function readParams(
+  c: Context,
+  rawBody: string,
+): Promise<Record<string, string>> {
+  const params: Record<string, string> = { ...c.req.query() };
+  if (!rawBody) {
+    return params;
+  }
+  const contentType = c.req.header("content-type") ?? "";
+  const body = contentType.includes("application/json")
+    ? JSON.parse(rawBody)
+    : Object.fromEntries(new URLSearchParams(rawBody));
+  for (const [key, value] of Object.entries(body)) {
+    if (value !== null && value !== undefined) {
+      params[key] = String(value);
+    }
+  }
+  return params;
+}
+
+function pick(params: Record<string, string>, ...keys: string[]) {
+  for (const key of keys) {
+    const value = params[key];
+    if (value !== undefined && value !== "") {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function parseAmount(value: string | undefined): number | null {
+  if (value === undefined) {
+    return 0;
+  }
+  const amount = Number(value.replace(/[^0-9.-]/g, ""));
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null;
+}
+
+export function registerPostbackRoutes() {
+  return [
+    registerApiRoute("/postback/:network", {
+      method: "ALL",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra?.getLogger();
+        const network = c.req.param("network").toLowerCase();
+
+        if (!NETWORK_PATTERN.test(network)) {
+          return c.json({ error: "Unknown network" }, 404);
+        }
+
+        const rawBody = c.req.method === "GET" ? "" : await c.req.text();
+        const token = c.req.query("token") ?? c.req.header("x-postback-token");
+        if (
+          !isAuthorized(
+            network,
+            token,
+            c.req.header("x-postback-signature"),
+            rawBody,
+          )
+        ) {
+          logger?.warn("🔒 [Postback] Rejected unauthorized postback", {
+            network,
+          });
+          return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        let params: Record<string, string>;
+        try {
+          params = await readParams(c, rawBody);
+        } catch {
+          return c.json({ error: "Malformed body" }, 400);
+        }
+
+        const orderId = pick(params, "order_id", "orderId", "transaction_id");
+        const trackingId = pick(
+          params,
+          "tracking_id",
+          "trackingId",
+          "sub_id",
+          "subid",
+        );
+        const rawStatus = pick(params, "status") ?? "pending";
+        const status = normalizeConversionStatus(rawStatus);
+        const saleAmount = parseAmount(pick(params, "amount", "sale_amount"));
+        const commission = parseAmount(pick(params, "commission", "payout"));
+        const currency = (pick(params, "currency") ?? "USD").toUpperCase();
+
+        if (!orderId || !trackingId) {
+          return c.json(
+            { error: "order_id and tracking_id are required" },
+            400,
+          );
+        }
+        if (!status) {
+          return c.json({ error: `Unsupported status "${rawStatus}"` }, 400);
+        }
+        if (saleAmount === null || commission === null) {
+          return c.json(
+            { error: "amount and commission must be numbers" },
+            400,
+          );
+        }
+        if (!/^[A-Z]{3}$/.test(currency)) {
+          return c.json({ error: "currency must be an ISO 4217 code" }, 400);
+        }
+
+        const link = await findLinkByTrackingId(trackingId);
+        if (!link) {
+          return c.json({ error: "Unknown tracking_id" }, 404);
+        }
+
+        const { conversion, outcome } = await upsertConversion({
+          resourceId: link.resourceId,
+          network,
+          orderId,
+          linkId: link.id,
+          trackingId: link.trackingId,
+          campaignName: link.campaignName,
+          platform: link.platform,
+          saleAmount,
+          commission,
+          currency,
+          status,
+        });
+
+        logger?.info("💰 [Postback] Conversion recorded", {
+          network,
+          orderId,
+          status: conversion.status,
+          outcome,
+        });
+
+        return c.json({
+          ok: true,
+          outcome,
+          order_id: conversion.orderId,
+          status: conversion.status,
+        });
+      },
+    }),
+  ];
+}
@@ -0,0 +1,89 @@
+import { createHash } from "node:crypto";
+import { registerApiRoute } from "../mastra/inngest";
+import type { Context } from "hono";
+
+import { recordClick } from "../mastra/storage/clicks";
+import { findLinkForRedirect } from "../mastra/storage/links";
+import { isLinkCheckRequest } from "../mastra/links/linkChecker";
+import { redirectTarget } from "../mastra/links/shortLinks";
+
+// Headers set by common proxies/CDNs carrying the visitor's country.
+const COUNTRY_HEADERS = [
+  "cf-ipcountry",
+  "x-vercel-ip-country",
+  "x-appengine-country",
+  "x-country-code",
+];
+
+function clientIp(c: Context): string | undefined {
+  const forwarded = c.req.header("x-forwarded-for");
+  if (forwarded) {
+    return forwarded.split(",")[0]!.trim();
+  }
+  return c.req.header("x-real-ip") ?? undefined;
+}
+
+function countryHint(c: Context): string | null {
+  for (const header of COUNTRY_HEADERS) {
+    const value = c.req.header(header);
+    if (value && /^[A-Za-z]{2}$/.test(value)) {
+      return value.toUpperCase();
+    }
+  }
+  return null;
+}
+
+// IPs are never stored in clear text, only a salted hash to count unique visitors.
+function hashIp(ip: string | undefined): string | null {
+  if (!ip) {
+    return null;
+  }
+  return createHash("sha256")
+    .update(`${process.env.CLICK_IP_SALT ?? ""}:${ip}`)
+    .digest("hex");
+}
+
+export function registerShortLinkRoutes() {
+  return [
+    registerApiRoute("/l/:alias", {
+      method: "GET",
+      handler: async (c) => {
+        const mastra = c.get("mastra");
+        const logger = mastra?.getLogger();
+        const alias = c.req.param("alias");
+
+        const link = await findLinkForRedirect(alias);
+        if (!link) {
+          return c.text("Link not found", 404);
+        }
+        if (link.status === "archived") {
+          return c.text("This link is no longer available", 410);
+        }
+
+        // Health checks are not visitors.
+        if (isLinkCheckRequest(c.req)) {
+          return c.redirect(redirectTarget(link), 302);
+        }
+
+        try {
+          await recordClick({
+            linkId: link.id,
+            trackingId: link.trackingId,
+            referrer: c.req.header("referer") ?? null,
+            userAgent: c.req.header("user-agent") ?? null,
+            country: countryHint(c),
+            ipHash: hashIp(clientIp(c)),
+          });
+        } catch (error) {
+          // A failed click log must never break the redirect itself.
+          logger?.error("❌ [ShortLink] Failed to record click", {
+            alias,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        return c.redirect(redirectTarget(link), 302);
+      },
+    }),
+  ];
+}
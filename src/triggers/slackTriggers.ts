@@ -38,6 +38,8 @@ export type TriggerInfoSlackOnNewMessage = {
   params: {
     channel: string;
     channelDisplayName: string;
+    // Slack user id of the sender, to resolve the internal user.
+    userId: string;
   };
   payload: any;
 };
@@ -204,7 +206,7 @@ function createReactToMessage({
   return async function reactToMessage(
     channel: string,
     timestamp: string,
-    result: WorkflowResult<any, any> | null,
+    result: Pick<WorkflowResult<any, any>, "status"> | null,
   ) {
     // Remove all of our reactions.
     await removeAllReactions(channel, timestamp);
@@ -225,10 +227,11 @@ export function registerSlackTrigger<
   handler,
 }: {
   triggerType: string;
+  // Only the status of the result is used, to react to the message.
   handler: (
     mastra: Mastra,
     triggerInfo: TriggerInfoSlackOnNewMessage,
-  ) => Promise<WorkflowResult<any, any> | null>;
+  ) => Promise<Pick<WorkflowResult<any, any>, "status"> | null>;
 }): Array<ApiRoute> {
   return [
     registerApiRoute("/webhooks/slack/action", {
@@ -246,7 +249,13 @@ export function registerSlackTrigger<
             return c.text(payload["challenge"], 200);
           }
 
-          logger?.info("📝 [Slack] payload", { payload });
+          // Messages can contain credentials users hand to the bot, so only
+          // metadata is logged.
+          logger?.info("📝 [Slack] payload", {
+            type: payload?.event?.type,
+            channel: payload?.event?.channel,
+            hasText: Boolean(payload?.event?.text),
+          });
 
           // Augment event with channel info
           if (payload && payload.event && payload.event.channel) {
@@ -301,6 +310,7 @@ export function registerSlackTrigger<
             params: {
               channel: payload.event.channel,
               channelDisplayName: payload.channel.name,
+              userId: payload.event.user,
             },
             payload,
           } as TriggerInfoSlackOnNewMessage);
@@ -1,7 +1,22 @@
-import type { ContentfulStatusCode } from "hono/utils/http-status";
-
-import { registerApiRoute } from "../mastra/inngest";
+import { registerApiRoute, registerEventJob } from "../mastra/inngest";
 import { Mastra } from "@mastra/core";
+import {
+  registerTelegramCommands,
+  telegramBotUsername,
+} from "../mastra/telegram/commands";
+import {
+  type QueuedTelegramUpdate,
+  TELEGRAM_UPDATE_EVENT,
+  enqueueTelegramUpdate,
+  processTelegramUpdate,
+} from "../mastra/telegram/updateQueue";
+import { finishTelegramUpdate } from "../mastra/storage/telegramUpdates";
+import {
+  type RoutedUpdate,
+  type TelegramUpdate,
+  routeTelegramUpdate,
+  verifyWebhookSecret,
+} from "../mastra/telegram/updates";
 
 if (!process.env.TELEGRAM_BOT_TOKEN) {
   console.warn(
@@ -9,13 +24,22 @@ if (!process.env.TELEGRAM_BOT_TOKEN) {
   );
 }
 
+if (!process.env.TELEGRAM_WEBHOOK_SECRET) {
+  console.warn(
+    "TELEGRAM_WEBHOOK_SECRET is not set, Telegram updates will be rejected until it is configured (see scripts/set-telegram-webhook.sh).",
+  );
+}
+
 export type TriggerInfoTelegramOnNewMessage = {
   type: "telegram/message";
   params: {
+    userId: string;
     userName: string;
     message: string;
   };
-  payload: any;
+  // The update, narrowed to a message, command or button press the bot answers.
+  update: Exclude<RoutedUpdate, { kind: "ignored" }>;
+  payload: TelegramUpdate;
 };
 
 export function registerTelegramTrigger({
@@ -28,25 +52,115 @@ export function registerTelegramTrigger({
     triggerInfo: TriggerInfoTelegramOnNewMessage,
   ) => Promise<void>;
 }) {
+  // Keeps the "/" menu in Telegram in step with the commands the bot parses.
+  if (process.env.TELEGRAM_BOT_TOKEN) {
+    registerTelegramCommands().catch((error) =>
+      console.warn(
+        `Could not register the Telegram bot commands: ${error instanceof Error ? error.message : String(error)}`,
+      ),
+    );
+  }
+
+  // Answers the updates the webhook below has queued, one chat message at a
+  // time and in order.
+  registerEventJob<QueuedTelegramUpdate>(
+    "telegram-update",
+    TELEGRAM_UPDATE_EVENT,
+    async (mastra, queued, step) => {
+      // Commands for other bots were dropped by the webhook already.
+      const update = routeTelegramUpdate(queued.payload);
+      if (update.kind === "ignored") {
+        return;
+      }
+      const outcome = await processTelegramUpdate(queued, step, () =>
+        handler(mastra, {
+          type: triggerType,
+          params: {
+            userId: String(update.from.id),
+            userName: update.from.username ?? "",
+            message: update.kind === "text" ? update.message.text : "",
+          },
+          update,
+          payload: queued.payload,
+        } as TriggerInfoTelegramOnNewMessage),
+      );
+      if (outcome === "duplicate") {
+        mastra.getLogger()?.info("📝 [Telegram] Update already answered", {
+          updateId: queued.updateId,
+        });
+      }
+    },
+    async (mastra, queued) => {
+      mastra.getLogger()?.error("📝 [Telegram] Could not answer update", {
+        updateId: queued.updateId,
+      });
+      await finishTelegramUpdate(queued.updateId, "failed");
+    },
+  );
+
   return [
     registerApiRoute("/webhooks/telegram/action", {
       method: "POST",
       handler: async (c) => {
         const mastra = c.get("mastra");
         const logger = mastra.getLogger();
+
+        const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+        if (
+          !secret ||
+          !verifyWebhookSecret(
+            c.req.header("x-telegram-bot-api-secret-token"),
+            secret,
+          )
+        ) {
+          logger?.warn(
+            "📝 [Telegram] Rejected update with invalid secret token",
+          );
+          return c.text("Unauthorized", 401);
+        }
+
+        let payload: TelegramUpdate;
+        try {
+          payload = await c.req.json();
+        } catch {
+          return c.text("Bad Request", 400);
+        }
+
         try {
-          const payload = await c.req.json();
+          const update = routeTelegramUpdate(
+            payload,
+            await telegramBotUsername(),
+          );
+
+          // Messages can contain credentials users hand to the bot, so only
+          // metadata is logged.
+          logger?.info("📝 [Telegram] payload", {
+            updateId: payload.update_id,
+            kind: update.kind,
+            chatId: update.kind === "ignored" ? undefined : update.chatId,
+          });
 
-          logger?.info("📝 [Telegram] payload", payload);
+          if (update.kind === "ignored") {
+            logger?.info("📝 [Telegram] Ignoring update", {
+              updateId: payload.update_id,
+              reason: update.reason,
+            });
+            return c.text("OK", 200);
+          }
 
-          await handler(mastra, {
-            type: triggerType,
-            params: {
-              userName: payload.message.from.username,
-              message: payload.message.text,
-            },
+          // The update is answered in the background, so Telegram gets its
+          // 200 right away. Redeliveries are acknowledged without answering
+          // twice.
+          const outcome = await enqueueTelegramUpdate({
+            updateId: payload.update_id,
+            chatId: update.chatId,
             payload,
-          } as TriggerInfoTelegramOnNewMessage);
+          });
+          if (outcome === "duplicate") {
+            logger?.info("📝 [Telegram] Skipping redelivered update", {
+              updateId: payload.update_id,
+            });
+          }
 
           return c.text("OK", 200);
         } catch (error) {